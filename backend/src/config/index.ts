@@ -25,6 +25,53 @@ const configSchema = z.object({
   
   // Logging
   logLevel: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
+
+  // Authentification
+  sessionTtlHours: z.coerce.number().int().positive().default(24),
+  adminUsername: z.string().min(1).default('admin'),
+  // La valeur d'exemple de deploy/.env.example est refusee: elle serait un mot de passe connu
+  adminPassword: z.string().min(8)
+    .refine(value => value !== 'change_me', 'DOCKTOR_ADMIN_PASSWORD contient encore la valeur d\'exemple')
+    .optional(),
+
+  // Proxys de confiance devant l'API (X-Forwarded-For), pour l'adresse IP du client
+  trustProxy: z.coerce.number().int().nonnegative().default(0),
+
+  // Historique des deploiements (0 = illimite)
+  deploymentRetentionCount: z.coerce.number().int().nonnegative().default(50),
+  deploymentRetentionDays: z.coerce.number().int().nonnegative().default(90),
+
+  // Deploiements executes simultanement (les suivants sont mis en file d'attente)
+  deployConcurrency: z.coerce.number().int().positive().default(2),
+
+  // Images conservees par application pour le rollback (minimum 1: l'image en cours)
+  deploymentImageRetention: z.coerce.number().int().positive().default(3),
+
+  // Verification de sante des deploiements (hote depuis lequel les ports publies sont joignables)
+  // Backend en container: ignore, les applications sont sondees sur docktor-network
+  deployProbeHost: z.string().min(1).default('127.0.0.1'),
+
+  // URL publique de l'API (URLs de webhooks), deduite de la requete si absente
+  publicUrl: z.string().url().optional(),
+
+  // Reverse proxy des domaines: port HTTP publie sur l'hote
+  proxyHttpPort: z.coerce.number().int().positive().max(65535).default(80),
+
+  // Adresse de publication du port des applications servies par un domaine
+  // (backend hors container: doit rester joignable depuis deployProbeHost)
+  proxiedAppBindHost: z.string().min(1).default('127.0.0.1'),
+
+  // Certificats TLS: port HTTPS publie, annuaire ACME (Let's Encrypt, staging, Pebble...)
+  // Sans annuaire, aucune emission automatique: seuls les certificats importes sont servis
+  proxyHttpsPort: z.coerce.number().int().positive().max(65535).default(443),
+  acmeDirectoryUrl: z.string().url().optional(),
+  acmeEmail: z.string().email().optional(),
+
+  // Certificat(s) PEM de confiance supplementaires pour joindre l'annuaire (CA de test Pebble)
+  acmeCaBundle: z.string().min(1).optional(),
+
+  // Renouvellement des certificats ACME a moins de N jours de l'expiration
+  certRenewDays: z.coerce.number().int().positive().default(30),
 });
 
 type Config = z.infer<typeof configSchema>;
@@ -41,6 +88,23 @@ function loadConfig(): Config {
     dockerTimeout: process.env['DOCKER_TIMEOUT'],
     corsOrigin: process.env['CORS_ORIGIN'],
     logLevel: process.env['LOG_LEVEL'],
+    sessionTtlHours: process.env['SESSION_TTL_HOURS'],
+    adminUsername: process.env['DOCKTOR_ADMIN_USERNAME'],
+    adminPassword: process.env['DOCKTOR_ADMIN_PASSWORD'] || undefined,
+    trustProxy: process.env['TRUST_PROXY'],
+    deploymentRetentionCount: process.env['DEPLOYMENT_RETENTION_COUNT'],
+    deploymentRetentionDays: process.env['DEPLOYMENT_RETENTION_DAYS'],
+    deploymentImageRetention: process.env['DEPLOYMENT_IMAGE_RETENTION'],
+    deployConcurrency: process.env['DEPLOY_CONCURRENCY'],
+    deployProbeHost: process.env['DEPLOY_PROBE_HOST'],
+    publicUrl: process.env['PUBLIC_URL'] || undefined,
+    proxyHttpPort: process.env['PROXY_HTTP_PORT'],
+    proxiedAppBindHost: process.env['PROXIED_APP_BIND_HOST'],
+    proxyHttpsPort: process.env['PROXY_HTTPS_PORT'],
+    acmeDirectoryUrl: process.env['ACME_DIRECTORY_URL'] || undefined,
+    acmeEmail: process.env['ACME_EMAIL'] || undefined,
+    acmeCaBundle: process.env['ACME_CA_BUNDLE'] || undefined,
+    certRenewDays: process.env['CERT_RENEW_DAYS'],
   };
 
   const result = configSchema.safeParse(rawConfig);
@@ -5,14 +5,32 @@
 
 import { Request, Response } from 'express';
 import { appDeploymentService, portManagerService } from '../services';
+import { config } from '../config';
+import { TemplateError } from '../templates/template.engine';
 import {
   CreateAppRequest,
   UpdateAppRequest,
+  DeployAppRequest,
+  RollbackAppRequest,
   AppsListResponse,
   AppResponse,
-  TemplatesResponse,
   DeploymentResponse,
+  DeploymentHistoryResponse,
   PortsResponse,
+  WebhookInfoResponse,
+  GitRefsResponse,
+  GitRemoteInfoResponse,
+  AppDetectionResponse,
+  AddonResponse,
+  AddonsListResponse,
+  CreateAddonRequest,
+  BackupResponse,
+  BackupsListResponse,
+  CertificateResponse,
+  UploadCertificateRequest,
+  Deployment,
+  DeploymentLog,
+  DeploymentStatus,
 } from '../types';
 
 /**
@@ -24,7 +42,7 @@ export async function listApps(_req: Request, res: Response): Promise<void> {
 
   const response: AppsListResponse = {
     success: true,
-    data: apps,
+    data: apps.map(app => appDeploymentService.toPublicApp(app)),
     count: apps.length,
     timestamp: new Date().toISOString(),
   };
@@ -56,7 +74,7 @@ export async function getApp(req: Request, res: Response): Promise<any> {
 
   const response: AppResponse = {
     success: true,
-    data: app,
+    data: appDeploymentService.toPublicApp(app),
     timestamp: new Date().toISOString(),
   };
 
@@ -86,7 +104,7 @@ export async function createApp(req: Request, res: Response): Promise<void> {
 
     const response: AppResponse = {
       success: true,
-      data: app,
+      data: appDeploymentService.toPublicApp(app),
       timestamp: new Date().toISOString(),
     };
 
@@ -96,7 +114,7 @@ export async function createApp(req: Request, res: Response): Promise<void> {
     res.status(400).json({
       success: false,
       error: message,
-      code: 'CREATE_ERROR',
+      code: error instanceof TemplateError ? 'TEMPLATE_ERROR' : 'CREATE_ERROR',
       timestamp: new Date().toISOString(),
     });
   }
@@ -119,7 +137,7 @@ export async function updateApp(req: Request, res: Response): Promise<any> {
 
     const response: AppResponse = {
       success: true,
-      data: app,
+      data: appDeploymentService.toPublicApp(app),
       timestamp: new Date().toISOString(),
     };
 
@@ -129,7 +147,7 @@ export async function updateApp(req: Request, res: Response): Promise<any> {
     res.status(400).json({
       success: false,
       error: message,
-      code: 'UPDATE_ERROR',
+      code: error instanceof TemplateError ? 'TEMPLATE_ERROR' : 'UPDATE_ERROR',
       timestamp: new Date().toISOString(),
     });
   }
@@ -169,17 +187,31 @@ export async function deleteApp(req: Request, res: Response): Promise<any> {
 /**
  * POST /api/apps/:id/deploy
  * Lance le deploiement d'une application
+ *
+ * Body:
+ * - force: nettoie le repertoire et reconstruit sans cache
+ * - noCache: reconstruit sans le cache des layers Docker
+ * - ref: branche, tag, SHA de commit ou refs/pull/N/head (defaut: branche configuree)
  */
 export async function deployApp(req: Request, res: Response): Promise<any> {
   const { id } = req.params;
-  const { force } = req.body;
+  const { force, noCache, ref } = req.body as Partial<DeployAppRequest>;
   if (!id) {
   return res.status(400).json({ error: 'id requis' });
 }
 
 
+  if (ref !== undefined && (typeof ref !== 'string' || ref.trim() === '')) {
+    return res.status(400).json({
+      success: false,
+      error: 'ref doit etre une chaine non vide',
+      code: 'INVALID_REF',
+      timestamp: new Date().toISOString(),
+    });
+  }
+
   try {
-    const deployment = await appDeploymentService.deployApp(id, force === true);
+    const deployment = await appDeploymentService.deployApp(id, force === true, noCache === true, ref?.trim());
 
     const response: DeploymentResponse = {
       success: true,
@@ -199,6 +231,438 @@ export async function deployApp(req: Request, res: Response): Promise<any> {
   }
 }
 
+/**
+ * POST /api/apps/:id/rollback
+ * Redemarre l'application sur l'image d'un deploiement precedent
+ *
+ * Body:
+ * - deploymentId: deploiement cible (defaut: version precedente)
+ */
+export async function rollbackApp(req: Request, res: Response): Promise<any> {
+  const { id } = req.params;
+  const { deploymentId } = req.body as RollbackAppRequest;
+  if (!id) {
+    return res.status(400).json({ error: 'id requis' });
+  }
+
+  try {
+    const deployment = await appDeploymentService.rollbackApp(
+      id,
+      typeof deploymentId === 'string' && deploymentId ? deploymentId : undefined
+    );
+
+    const response: DeploymentResponse = {
+      success: true,
+      data: deployment,
+      timestamp: new Date().toISOString(),
+    };
+
+    res.json(response);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Erreur inconnue';
+    res.status(400).json({
+      success: false,
+      error: message,
+      code: 'ROLLBACK_ERROR',
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * Informations de webhook d'une application (URL et secret en clair)
+ */
+function sendWebhookInfo(req: Request, res: Response, appId: string, secret: string): void {
+  const app = appDeploymentService.getApp(appId);
+  const baseUrl = (config.publicUrl ?? `${req.protocol}://${req.get('host')}`).replace(/\/+$/, '');
+
+  const response: WebhookInfoResponse = {
+    success: true,
+    data: {
+      url: `${baseUrl}/api/hooks/${appId}`,
+      secret,
+      branch: app?.git?.branch || 'main',
+    },
+    timestamp: new Date().toISOString(),
+  };
+
+  res.json(response);
+}
+
+/**
+ * GET /api/apps/:id/refs
+ * Branches et tags du repository distant de l'application
+ */
+export async function getAppGitRefs(req: Request, res: Response): Promise<any> {
+  const { id } = req.params;
+  if (!id) {
+    return res.status(400).json({ error: 'id requis' });
+  }
+
+  try {
+    const response: GitRefsResponse = {
+      success: true,
+      data: await appDeploymentService.listGitRefs(id),
+      timestamp: new Date().toISOString(),
+    };
+
+    res.json(response);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Erreur inconnue';
+    res.status(400).json({
+      success: false,
+      error: message,
+      code: 'GIT_REFS_ERROR',
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * GET /api/apps/:id/webhook
+ * URL et secret du webhook Git de l'application
+ */
+export async function getAppWebhook(req: Request, res: Response): Promise<any> {
+  const { id } = req.params;
+  if (!id) {
+    return res.status(400).json({ error: 'id requis' });
+  }
+
+  try {
+    sendWebhookInfo(req, res, id, appDeploymentService.getWebhookSecret(id));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Erreur inconnue';
+    res.status(404).json({
+      success: false,
+      error: message,
+      code: 'APP_NOT_FOUND',
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * POST /api/apps/:id/webhook/regenerate
+ * Genere un nouveau secret de webhook (l'ancien est invalide)
+ */
+export async function regenerateAppWebhook(req: Request, res: Response): Promise<any> {
+  const { id } = req.params;
+  if (!id) {
+    return res.status(400).json({ error: 'id requis' });
+  }
+
+  try {
+    sendWebhookInfo(req, res, id, appDeploymentService.regenerateWebhookSecret(id));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Erreur inconnue';
+    res.status(404).json({
+      success: false,
+      error: message,
+      code: 'APP_NOT_FOUND',
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * GET /api/apps/:id/addons
+ * Bases de donnees provisionnees pour l'application
+ */
+export async function listAddons(req: Request, res: Response): Promise<any> {
+  const { id } = req.params;
+  if (!id) {
+    return res.status(400).json({ error: 'id requis' });
+  }
+
+  try {
+    const response: AddonsListResponse = {
+      success: true,
+      data: appDeploymentService.getAddons(id),
+      timestamp: new Date().toISOString(),
+    };
+    res.json(response);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Erreur inconnue';
+    res.status(404).json({
+      success: false,
+      error: message,
+      code: 'APP_NOT_FOUND',
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * POST /api/apps/:id/addons
+ * Provisionne une base de donnees et injecte ses variables de connexion
+ *
+ * Body:
+ * - type: postgres, mysql, mongodb ou redis
+ * - version: tag de l'image (optionnel)
+ */
+export async function createAddon(req: Request, res: Response): Promise<any> {
+  const { id } = req.params;
+  const request: CreateAddonRequest = req.body ?? {};
+  if (!id) {
+    return res.status(400).json({ error: 'id requis' });
+  }
+  if (!request.type) {
+    return res.status(400).json({
+      success: false,
+      error: 'Le type d\'add-on est requis',
+      code: 'VALIDATION_ERROR',
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  try {
+    const response: AddonResponse = {
+      success: true,
+      data: await appDeploymentService.addAddon(id, request),
+      timestamp: new Date().toISOString(),
+    };
+    res.status(201).json(response);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Erreur inconnue';
+    res.status(400).json({
+      success: false,
+      error: message,
+      code: 'ADDON_ERROR',
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * DELETE /api/apps/:id/addons/:addonId
+ * Supprime un add-on et ses variables (?keepData=true conserve le volume des donnees)
+ */
+export async function deleteAddon(req: Request, res: Response): Promise<any> {
+  const { id, addonId } = req.params;
+  if (!id || !addonId) {
+    return res.status(400).json({ error: 'id et addonId requis' });
+  }
+
+  try {
+    const keepData = req.query.keepData === 'true';
+    await appDeploymentService.removeAddon(id, addonId, keepData);
+
+    res.json({
+      success: true,
+      message: keepData ? 'Add-on supprime, donnees conservees' : 'Add-on supprime',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Erreur inconnue';
+    res.status(400).json({
+      success: false,
+      error: message,
+      code: 'ADDON_ERROR',
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * GET /api/apps/:id/backups
+ * Sauvegardes de l'application, la plus recente en premier
+ */
+export async function listBackups(req: Request, res: Response): Promise<any> {
+  const { id } = req.params;
+  if (!id) {
+    return res.status(400).json({ error: 'id requis' });
+  }
+
+  try {
+    const response: BackupsListResponse = {
+      success: true,
+      data: appDeploymentService.getBackups(id),
+      timestamp: new Date().toISOString(),
+    };
+    res.json(response);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Erreur inconnue';
+    res.status(404).json({
+      success: false,
+      error: message,
+      code: 'APP_NOT_FOUND',
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * POST /api/apps/:id/backups
+ * Sauvegarde immediate des volumes et des bases des add-ons
+ */
+export async function createBackup(req: Request, res: Response): Promise<any> {
+  const { id } = req.params;
+  if (!id) {
+    return res.status(400).json({ error: 'id requis' });
+  }
+
+  try {
+    const response: BackupResponse = {
+      success: true,
+      data: await appDeploymentService.createBackup(id),
+      timestamp: new Date().toISOString(),
+    };
+    res.status(201).json(response);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Erreur inconnue';
+    res.status(400).json({
+      success: false,
+      error: message,
+      code: 'BACKUP_ERROR',
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * POST /api/apps/:id/backups/:backupId/restore
+ * Restaure une sauvegarde (empreintes verifiees, application arretee pendant l'operation)
+ */
+export async function restoreBackup(req: Request, res: Response): Promise<any> {
+  const { id, backupId } = req.params;
+  if (!id || !backupId) {
+    return res.status(400).json({ error: 'id et backupId requis' });
+  }
+
+  try {
+    await appDeploymentService.restoreBackup(id, backupId);
+
+    res.json({
+      success: true,
+      message: 'Sauvegarde restauree avec succes',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Erreur inconnue';
+    res.status(400).json({
+      success: false,
+      error: message,
+      code: 'RESTORE_ERROR',
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * DELETE /api/apps/:id/backups/:backupId
+ * Supprime une sauvegarde
+ */
+export async function deleteBackup(req: Request, res: Response): Promise<any> {
+  const { id, backupId } = req.params;
+  if (!id || !backupId) {
+    return res.status(400).json({ error: 'id et backupId requis' });
+  }
+
+  try {
+    appDeploymentService.deleteBackup(id, backupId);
+
+    res.json({
+      success: true,
+      message: 'Sauvegarde supprimee',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Erreur inconnue';
+    res.status(404).json({
+      success: false,
+      error: message,
+      code: 'BACKUP_NOT_FOUND',
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * POST /api/apps/:id/certificate
+ * Emet ou renouvelle immediatement le certificat ACME du domaine
+ */
+export async function renewCertificate(req: Request, res: Response): Promise<any> {
+  const { id } = req.params;
+  if (!id) {
+    return res.status(400).json({ error: 'id requis' });
+  }
+
+  try {
+    const response: CertificateResponse = {
+      success: true,
+      data: await appDeploymentService.renewCertificate(id),
+      timestamp: new Date().toISOString(),
+    };
+    res.json(response);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Erreur inconnue';
+    res.status(400).json({
+      success: false,
+      error: message,
+      code: 'CERTIFICATE_ERROR',
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * PUT /api/apps/:id/certificate
+ * Importe un certificat (PEM) pour le domaine
+ */
+export async function uploadCertificate(req: Request, res: Response): Promise<any> {
+  const { id } = req.params;
+  if (!id) {
+    return res.status(400).json({ error: 'id requis' });
+  }
+
+  try {
+    const request: UploadCertificateRequest = req.body;
+    const response: CertificateResponse = {
+      success: true,
+      data: await appDeploymentService.uploadCertificate(id, request),
+      timestamp: new Date().toISOString(),
+    };
+    res.json(response);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Erreur inconnue';
+    res.status(400).json({
+      success: false,
+      error: message,
+      code: 'CERTIFICATE_ERROR',
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * DELETE /api/apps/:id/certificate
+ * Supprime le certificat installe (retour a l'emission ACME)
+ */
+export async function deleteCertificate(req: Request, res: Response): Promise<any> {
+  const { id } = req.params;
+  if (!id) {
+    return res.status(400).json({ error: 'id requis' });
+  }
+
+  try {
+    await appDeploymentService.deleteCertificate(id);
+
+    res.json({
+      success: true,
+      message: 'Certificat supprime, emission automatique relancee',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Erreur inconnue';
+    res.status(400).json({
+      success: false,
+      error: message,
+      code: 'CERTIFICATE_ERROR',
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
 /**
  * POST /api/apps/:id/stop
  * Arrete une application
@@ -326,7 +790,8 @@ export async function getAppLogs(req: Request, res: Response): Promise<any> {
 
 /**
  * GET /api/apps/:id/deployments
- * Recupere l'historique des deploiements d'une application
+ * Recupere l'historique des deploiements d'une application (pagine)
+ * Query: limit (defaut: 20, max: 100), cursor (nextCursor de la page precedente)
  */
 export async function getAppDeployments(req: Request, res: Response): Promise<any> {
   const { id } = req.params;
@@ -334,15 +799,31 @@ export async function getAppDeployments(req: Request, res: Response): Promise<an
   return res.status(400).json({ error: 'id requis' });
 }
 
+  const limit = Math.min(Math.max(parseInt(req.query['limit'] as string, 10) || 20, 1), 100);
+  const cursor = typeof req.query['cursor'] === 'string' && req.query['cursor'] ? req.query['cursor'] : undefined;
 
-  const deployments = appDeploymentService.getAppDeployments(id);
+  try {
+    const history = appDeploymentService.getAppDeployments(id, limit, cursor);
 
-  res.json({
-    success: true,
-    data: deployments,
-    count: deployments.length,
-    timestamp: new Date().toISOString(),
-  });
+    const response: DeploymentHistoryResponse = {
+      success: true,
+      data: history.deployments,
+      count: history.deployments.length,
+      total: history.total,
+      nextCursor: history.nextCursor,
+      timestamp: new Date().toISOString(),
+    };
+
+    res.json(response);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Erreur inconnue';
+    res.status(400).json({
+      success: false,
+      error: message,
+      code: 'INVALID_CURSOR',
+      timestamp: new Date().toISOString(),
+    });
+  }
 }
 
 /**
@@ -378,19 +859,137 @@ export async function getDeployment(req: Request, res: Response): Promise<any> {
 }
 
 /**
- * GET /api/apps/templates
- * Recupere tous les templates disponibles
+ * POST /api/apps/deployments/:deploymentId/cancel
+ * Annule un deploiement en attente ou en cours (avant la phase de demarrage)
  */
-export async function getTemplates(_req: Request, res: Response): Promise<void> {
-  const templates = appDeploymentService.getTemplates();
+export async function cancelDeployment(req: Request, res: Response): Promise<any> {
+  const { deploymentId } = req.params;
+  if (!deploymentId) {
+    return res.status(400).json({ error: 'id requis' });
+  }
 
-  const response: TemplatesResponse = {
-    success: true,
-    data: templates,
-    timestamp: new Date().toISOString(),
+  try {
+    const deployment = appDeploymentService.cancelDeployment(deploymentId);
+
+    const response: DeploymentResponse = {
+      success: true,
+      data: deployment,
+      timestamp: new Date().toISOString(),
+    };
+
+    res.json(response);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Erreur inconnue';
+    res.status(409).json({
+      success: false,
+      error: message,
+      code: 'CANCEL_ERROR',
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+/** Intervalle du heartbeat SSE */
+const STREAM_HEARTBEAT_INTERVAL = 15000;
+
+/** Statuts d'un deploiement encore en cours */
+const ACTIVE_DEPLOYMENT_STATUSES: DeploymentStatus[] = ['queued', 'pending', 'cloning', 'building', 'starting'];
+
+/**
+ * GET /api/apps/deployments/:deploymentId/stream
+ * Stream SSE d'un deploiement: rejoue les logs existants puis pousse les nouveaux
+ *
+ * Evenements:
+ * - log: entree de log (id = rang du log, pour la reprise via Last-Event-ID)
+ * - status: changement d'etape
+ * - end: deploiement termine (succes, echec ou annulation), le stream est ferme
+ * - heartbeat: maintien de la connexion
+ *
+ * Reprise: header Last-Event-ID (ou query param lastEventId)
+ */
+export async function streamDeployment(req: Request, res: Response): Promise<any> {
+  const { deploymentId } = req.params;
+  if (!deploymentId) {
+    return res.status(400).json({ error: 'id requis' });
+  }
+
+  const deployment = appDeploymentService.getDeployment(deploymentId);
+
+  if (!deployment) {
+    res.status(404).json({
+      success: false,
+      error: 'Deploiement non trouve',
+      code: 'DEPLOYMENT_NOT_FOUND',
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+
+  const lastEventId = parseInt(
+    (req.headers['last-event-id'] as string | undefined) ?? (req.query['lastEventId'] as string) ?? '',
+    10
+  );
+  let sent = Number.isNaN(lastEventId) ? 0 : Math.min(Math.max(0, lastEventId), deployment.logs.length);
+
+  // Configuration SSE
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // Desactive le buffering nginx
+  res.flushHeaders();
+
+  let isClientConnected = true;
+
+  const writeEvent = (event: string, data: unknown, id?: number) => {
+    if (!isClientConnected) return;
+    res.write(`${id !== undefined ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
   };
 
-  res.json(response);
+  const writeLog = (log: DeploymentLog) => {
+    sent++;
+    writeEvent('log', log, sent);
+  };
+
+  const writeEnd = (d: Deployment) => {
+    writeEvent('end', {
+      status: d.status,
+      ...(d.finishedAt && { finishedAt: d.finishedAt }),
+      ...(d.error && { error: d.error }),
+    });
+    isClientConnected = false;
+    res.end();
+  };
+
+  // L'abonnement precede le rejeu pour ne perdre aucun log
+  const unsubscribe = appDeploymentService.subscribeToDeployment(deployment.id, {
+    onLog: writeLog,
+    onStatus: status => writeEvent('status', { status }),
+    onEnd: d => {
+      // Logs emis avant l'abonnement mais absents du rejeu initial
+      for (const log of d.logs.slice(sent)) writeLog(log);
+      writeEnd(d);
+    },
+  });
+
+  writeEvent('status', { status: deployment.status });
+  for (const log of deployment.logs.slice(sent)) writeLog(log);
+
+  if (!ACTIVE_DEPLOYMENT_STATUSES.includes(deployment.status)) {
+    unsubscribe();
+    writeEnd(deployment);
+    return;
+  }
+
+  // Heartbeat pour maintenir la connexion
+  const heartbeatInterval = setInterval(() => {
+    writeEvent('heartbeat', { timestamp: new Date().toISOString() });
+  }, STREAM_HEARTBEAT_INTERVAL);
+
+  res.on('close', () => {
+    isClientConnected = false;
+    clearInterval(heartbeatInterval);
+    unsubscribe();
+  });
 }
 
 /**
@@ -447,3 +1046,51 @@ export async function validateGitConfig(req: Request, res: Response): Promise<vo
     timestamp: new Date().toISOString(),
   });
 }
+
+/**
+ * POST /api/apps/browse-git
+ * Contacte le repository avec les identifiants fournis et liste ses branches et tags
+ */
+export async function browseGitRemote(req: Request, res: Response): Promise<void> {
+  try {
+    const response: GitRemoteInfoResponse = {
+      success: true,
+      data: await appDeploymentService.browseGitRemote(req.body ?? {}),
+      timestamp: new Date().toISOString(),
+    };
+
+    res.json(response);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Erreur inconnue';
+    res.status(400).json({
+      success: false,
+      error: message,
+      code: 'INVALID_GIT_CONFIG',
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * POST /api/apps/detect
+ * Analyse le repository et suggere le type d'application, le port et les commandes
+ */
+export async function detectAppType(req: Request, res: Response): Promise<void> {
+  try {
+    const response: AppDetectionResponse = {
+      success: true,
+      data: await appDeploymentService.detectAppType(req.body ?? {}),
+      timestamp: new Date().toISOString(),
+    };
+
+    res.json(response);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Erreur inconnue';
+    res.status(400).json({
+      success: false,
+      error: message,
+      code: 'DETECTION_ERROR',
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
@@ -0,0 +1,313 @@
+/**
+ * Controleur d'authentification
+ * Connexion, sessions, tokens d'API et gestion des utilisateurs
+ */
+
+import { Request, Response } from 'express';
+import { authService, permissionService } from '../services';
+import { HttpError } from '../middleware';
+import {
+  LoginRequest,
+  LoginResponse,
+  ChangePasswordRequest,
+  CreateUserRequest,
+  UpdateUserRoleRequest,
+  CreateApiTokenRequest,
+  CreateApiTokenResponse,
+  AuthContext,
+} from '../types';
+
+/**
+ * Recupere le contexte d'authentification de la requete
+ * Toujours defini derriere le middleware authenticate
+ */
+function requireAuth(req: Request): AuthContext {
+  if (req.auth === undefined) {
+    throw new HttpError(401, 'Authentification requise', 'UNAUTHORIZED');
+  }
+  return req.auth;
+}
+
+/**
+ * POST /api/auth/login
+ * Ouvre une session avec nom d'utilisateur et mot de passe
+ */
+export async function login(req: Request, res: Response): Promise<void> {
+  const { username, password }: LoginRequest = req.body ?? {};
+
+  if (!username || !password) {
+    throw new HttpError(400, 'Nom d\'utilisateur et mot de passe requis', 'VALIDATION_ERROR');
+  }
+
+  const ip = req.ip ?? req.socket.remoteAddress ?? 'unknown';
+  const retryAfter = authService.loginRetryAfter(username, ip);
+
+  if (retryAfter > 0) {
+    res.setHeader('Retry-After', String(retryAfter));
+    throw new HttpError(429, 'Trop de tentatives de connexion, reessayez plus tard', 'TOO_MANY_ATTEMPTS');
+  }
+
+  const result = await authService.login(username, password, ip);
+
+  if (result === null) {
+    throw new HttpError(401, 'Identifiants incorrects', 'INVALID_CREDENTIALS');
+  }
+
+  const response: LoginResponse = {
+    success: true,
+    data: result,
+    timestamp: new Date().toISOString(),
+  };
+
+  res.json(response);
+}
+
+/**
+ * POST /api/auth/logout
+ * Ferme la session courante
+ */
+export async function logout(req: Request, res: Response): Promise<void> {
+  const auth = requireAuth(req);
+
+  if (auth.method === 'session') {
+    authService.logout(auth.credentialId);
+  }
+
+  res.json({
+    success: true,
+    message: 'Deconnexion reussie',
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * GET /api/auth/me
+ * Retourne l'utilisateur connecte et ses permissions effectives
+ */
+export async function getCurrentUser(req: Request, res: Response): Promise<void> {
+  const auth = requireAuth(req);
+
+  res.json({
+    success: true,
+    data: {
+      user: auth.user,
+      method: auth.method,
+      scopes: auth.scopes,
+      permissions: permissionService.getPermissions(auth.user),
+      appPermissions: permissionService.getAppPermissions(auth.user),
+    },
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * PUT /api/auth/password
+ * Change le mot de passe de l'utilisateur connecte
+ */
+export async function changePassword(req: Request, res: Response): Promise<void> {
+  const auth = requireAuth(req);
+  const { currentPassword, newPassword }: ChangePasswordRequest = req.body ?? {};
+
+  try {
+    await authService.changePassword(auth.user.id, currentPassword, newPassword);
+
+    res.json({
+      success: true,
+      message: 'Mot de passe modifie, reconnectez-vous',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Erreur inconnue';
+    res.status(400).json({
+      success: false,
+      error: message,
+      code: 'PASSWORD_ERROR',
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * GET /api/auth/tokens
+ * Liste les tokens d'API de l'utilisateur connecte
+ */
+export async function listApiTokens(req: Request, res: Response): Promise<void> {
+  const auth = requireAuth(req);
+  const tokens = authService.getUserApiTokens(auth.user.id);
+
+  res.json({
+    success: true,
+    data: tokens,
+    count: tokens.length,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * POST /api/auth/tokens
+ * Cree un token d'API (la valeur n'est retournee qu'une seule fois)
+ */
+export async function createApiToken(req: Request, res: Response): Promise<void> {
+  const auth = requireAuth(req);
+  const request: CreateApiTokenRequest = req.body ?? {};
+
+  // Un token ne peut pas creer un autre token
+  if (auth.method !== 'session') {
+    throw new HttpError(403, 'Creation de token reservee aux sessions', 'SESSION_REQUIRED');
+  }
+
+  try {
+    const result = authService.createApiToken(
+      auth.user.id,
+      request.name,
+      request.scopes,
+      request.expiresInDays
+    );
+
+    const response: CreateApiTokenResponse = {
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString(),
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Erreur inconnue';
+    res.status(400).json({
+      success: false,
+      error: message,
+      code: 'TOKEN_ERROR',
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * DELETE /api/auth/tokens/:tokenId
+ * Revoque un token d'API
+ */
+export async function revokeApiToken(req: Request, res: Response): Promise<void> {
+  const auth = requireAuth(req);
+  const { tokenId } = req.params;
+
+  try {
+    authService.revokeApiToken(auth.user.id, tokenId ?? '');
+
+    res.json({
+      success: true,
+      message: 'Token revoque',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Erreur inconnue';
+    res.status(404).json({
+      success: false,
+      error: message,
+      code: 'TOKEN_NOT_FOUND',
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * GET /api/auth/users
+ * Liste les utilisateurs
+ */
+export async function listUsers(_req: Request, res: Response): Promise<void> {
+  const users = authService.getAllUsers();
+
+  res.json({
+    success: true,
+    data: users,
+    count: users.length,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * POST /api/auth/users
+ * Cree un utilisateur
+ */
+export async function createUser(req: Request, res: Response): Promise<void> {
+  const { username, password, role, appRoles }: CreateUserRequest = req.body ?? {};
+
+  try {
+    const user = await authService.createUser(username, password, role, appRoles);
+
+    res.status(201).json({
+      success: true,
+      data: user,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Erreur inconnue';
+    res.status(400).json({
+      success: false,
+      error: message,
+      code: 'CREATE_USER_ERROR',
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * PUT /api/auth/users/:userId/role
+ * Modifie le role global et/ou les roles par application d'un utilisateur
+ */
+export async function updateUserRole(req: Request, res: Response): Promise<void> {
+  const { userId } = req.params;
+  const { role, appRoles }: UpdateUserRoleRequest = req.body ?? {};
+
+  if (role === undefined && appRoles === undefined) {
+    throw new HttpError(400, 'role ou appRoles requis', 'VALIDATION_ERROR');
+  }
+
+  try {
+    const user = authService.updateUserRole(userId ?? '', role, appRoles);
+
+    res.json({
+      success: true,
+      data: user,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Erreur inconnue';
+    res.status(400).json({
+      success: false,
+      error: message,
+      code: 'UPDATE_USER_ERROR',
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * DELETE /api/auth/users/:userId
+ * Supprime un utilisateur et ses credentials
+ */
+export async function deleteUser(req: Request, res: Response): Promise<void> {
+  const auth = requireAuth(req);
+  const { userId } = req.params;
+
+  if (userId === auth.user.id) {
+    throw new HttpError(400, 'Impossible de supprimer son propre compte', 'DELETE_USER_ERROR');
+  }
+
+  try {
+    authService.deleteUser(userId ?? '');
+
+    res.json({
+      success: true,
+      message: 'Utilisateur supprime',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Erreur inconnue';
+    res.status(400).json({
+      success: false,
+      error: message,
+      code: 'DELETE_USER_ERROR',
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
@@ -95,6 +95,14 @@ export function apiInfo(_req: Request, res: Response): void {
     environment: config.nodeEnv,
     endpoints: {
       health: 'GET /health',
+      auth: {
+        login: 'POST /api/auth/login',
+        logout: 'POST /api/auth/logout',
+        me: 'GET /api/auth/me',
+        tokens: 'GET /api/auth/tokens',
+        users: 'GET /api/auth/users',
+        userRole: 'PUT /api/auth/users/:userId/role',
+      },
       containers: {
         list: 'GET /api/containers',
         get: 'GET /api/containers/:id',
@@ -6,3 +6,6 @@ export * from './health.controller';
 export * from './logs.controller';
 export * from './system.controller';
 export * from './app.controller';
+export * from './auth.controller';
+export * from './webhook.controller';
+export * from './template.controller';
@@ -0,0 +1,141 @@
+/**
+ * Controleur des templates d'application
+ * Liste des templates integres et gestion des templates utilisateur
+ */
+
+import { Request, Response } from 'express';
+import { templateService } from '../services';
+import { TemplateError } from '../templates/template.engine';
+import {
+  AppType,
+  CloneTemplateRequest,
+  CreateTemplateRequest,
+  TemplatesResponse,
+  UpdateTemplateRequest,
+  UserTemplateResponse,
+  UserTemplateVersionsResponse,
+} from '../types';
+
+function reject(res: Response, error: unknown, code: string): void {
+  res.status(400).json({
+    success: false,
+    error: error instanceof Error ? error.message : 'Erreur inconnue',
+    code: error instanceof TemplateError ? 'TEMPLATE_ERROR' : code,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * GET /api/apps/templates
+ * Templates integres et templates utilisateur, avec leurs parametres
+ */
+export async function getTemplates(_req: Request, res: Response): Promise<void> {
+  const response: TemplatesResponse = {
+    success: true,
+    data: templateService.getTemplates(),
+    timestamp: new Date().toISOString(),
+  };
+
+  res.json(response);
+}
+
+/**
+ * GET /api/apps/templates/:type/versions
+ * Historique des versions d'un template utilisateur
+ */
+export async function getTemplateVersions(req: Request, res: Response): Promise<void> {
+  try {
+    const response: UserTemplateVersionsResponse = {
+      success: true,
+      data: templateService.getVersions(req.params['type'] ?? ''),
+      timestamp: new Date().toISOString(),
+    };
+
+    res.json(response);
+  } catch (error) {
+    res.status(404).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Erreur inconnue',
+      code: 'TEMPLATE_NOT_FOUND',
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * POST /api/apps/templates
+ * Cree un template utilisateur
+ */
+export async function createTemplate(req: Request, res: Response): Promise<void> {
+  const request: CreateTemplateRequest = req.body ?? {};
+
+  try {
+    const response: UserTemplateResponse = {
+      success: true,
+      data: templateService.createTemplate(request),
+      timestamp: new Date().toISOString(),
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    reject(res, error, 'CREATE_TEMPLATE_ERROR');
+  }
+}
+
+/**
+ * POST /api/apps/templates/:type/clone
+ * Cree un template utilisateur a partir d'un template existant (integre ou utilisateur)
+ */
+export async function cloneTemplate(req: Request, res: Response): Promise<void> {
+  const request: CloneTemplateRequest = req.body ?? {};
+
+  try {
+    const response: UserTemplateResponse = {
+      success: true,
+      data: templateService.cloneTemplate((req.params['type'] ?? '') as AppType, request),
+      timestamp: new Date().toISOString(),
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    reject(res, error, 'CLONE_TEMPLATE_ERROR');
+  }
+}
+
+/**
+ * PUT /api/apps/templates/:type
+ * Enregistre une nouvelle version d'un template utilisateur
+ */
+export async function updateTemplate(req: Request, res: Response): Promise<void> {
+  const request: UpdateTemplateRequest = req.body ?? {};
+
+  try {
+    const response: UserTemplateResponse = {
+      success: true,
+      data: templateService.updateTemplate(req.params['type'] ?? '', request),
+      timestamp: new Date().toISOString(),
+    };
+
+    res.json(response);
+  } catch (error) {
+    reject(res, error, 'UPDATE_TEMPLATE_ERROR');
+  }
+}
+
+/**
+ * DELETE /api/apps/templates/:type
+ * Supprime un template utilisateur et ses versions
+ */
+export async function deleteTemplate(req: Request, res: Response): Promise<void> {
+  try {
+    templateService.deleteTemplate(req.params['type'] ?? '');
+
+    res.json({
+      success: true,
+      message: 'Template supprime',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    reject(res, error, 'DELETE_TEMPLATE_ERROR');
+  }
+}
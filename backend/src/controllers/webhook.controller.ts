@@ -0,0 +1,102 @@
+/**
+ * Controleur des webhooks Git
+ * Declenche un deploiement lors d'un push sur la branche configuree
+ */
+
+import { Request, Response } from 'express';
+import { appDeploymentService, webhookService } from '../services';
+import { DeploymentResponse } from '../types';
+
+function reject(res: Response, status: number, error: string, code: string): void {
+  res.status(status).json({
+    success: false,
+    error,
+    code,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * Rejet d'un webhook non authentifie
+ * Reponse identique dans tous les cas (application inconnue, fournisseur non reconnu,
+ * secret absent, signature invalide): rien n'est revele sur les applications
+ */
+function unauthorized(res: Response): void {
+  reject(res, 401, 'Signature du webhook invalide', 'INVALID_SIGNATURE');
+}
+
+/**
+ * Reponse a un evenement valide mais sans deploiement (ping, autre branche, ...)
+ */
+function ignore(res: Response, reason: string): void {
+  res.json({
+    success: true,
+    data: { ignored: true, reason },
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * POST /api/hooks/:appId
+ * Recoit un webhook GitHub, GitLab ou Bitbucket
+ */
+export async function receiveWebhook(req: Request, res: Response): Promise<void> {
+  const appId = req.params['appId'] ?? '';
+
+  const provider = webhookService.detectProvider(req.headers);
+  if (provider === null) {
+    unauthorized(res);
+    return;
+  }
+
+  const app = appDeploymentService.getApp(appId);
+  const secret = app ? appDeploymentService.findWebhookSecret(appId) : undefined;
+  if (!app || !secret) {
+    unauthorized(res);
+    return;
+  }
+
+  if (!req.rawBody || !webhookService.verify(provider, req.headers, req.rawBody, secret)) {
+    console.warn(`[Webhook] Signature invalide pour ${app.name} (${provider})`);
+    unauthorized(res);
+    return;
+  }
+
+  if (!app.git) {
+    reject(res, 400, 'Aucun repository Git configure pour cette application', 'NO_GIT_CONFIG');
+    return;
+  }
+
+  const push = webhookService.parsePush(provider, req.headers, req.body);
+  if (push === null) {
+    ignore(res, 'Evenement ignore (seuls les push declenchent un deploiement)');
+    return;
+  }
+
+  const branch = app.git.branch || 'main';
+  if (push.branch !== branch) {
+    ignore(res, `Push ignore: ${push.branch ?? 'aucune branche'} != ${branch}`);
+    return;
+  }
+
+  console.log(
+    `[Webhook] Push ${provider} sur ${branch}` +
+    `${push.commitSha ? ` (${push.commitSha.slice(0, 7)})` : ''}` +
+    `${push.pusher ? ` par ${push.pusher}` : ''}: deploiement de ${app.name}`
+  );
+
+  try {
+    const deployment = await appDeploymentService.deployApp(appId);
+
+    const response: DeploymentResponse = {
+      success: true,
+      data: deployment,
+      timestamp: new Date().toISOString(),
+    };
+
+    res.status(202).json(response);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Erreur inconnue';
+    reject(res, 400, message, 'DEPLOY_ERROR');
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Base de donnees embarquee (SQLite)
+ * Connexion unique, migrations du schema et import des anciens fichiers JSON
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import BetterSqlite3, { Database } from 'better-sqlite3';
+import { MIGRATIONS } from './migrations';
+import { importLegacyJson } from './legacy-import';
+
+// ============================================
+// Configuration
+// ============================================
+
+const CONFIG_DIR = process.env.DOCKTOR_CONFIG_DIR || '/var/app/.docktor';
+const DATABASE_FILE = path.join(CONFIG_DIR, 'docktor.db');
+
+let db: Database | null = null;
+
+// ============================================
+// Migrations
+// ============================================
+
+/**
+ * Applique les migrations manquantes, chacune dans sa transaction
+ */
+function runMigrations(database: Database): void {
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version     INTEGER PRIMARY KEY,
+      name        TEXT NOT NULL,
+      applied_at  TEXT NOT NULL
+    )
+  `);
+
+  const row = database.prepare('SELECT MAX(version) AS version FROM schema_migrations').get() as { version: number | null };
+  const current = row.version ?? 0;
+
+  const record = database.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)');
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= current) continue;
+
+    database.transaction(() => {
+      migration.up(database);
+      record.run(migration.version, migration.name, new Date().toISOString());
+    })();
+
+    console.log(`[Database] Migration ${migration.version} appliquee: ${migration.name}`);
+  }
+}
+
+// ============================================
+// Connexion
+// ============================================
+
+/**
+ * Retourne la connexion (ouverte et migree au premier appel)
+ */
+export function getDatabase(): Database {
+  if (db !== null) return db;
+
+  if (!fs.existsSync(CONFIG_DIR)) {
+    fs.mkdirSync(CONFIG_DIR, { recursive: true, mode: 0o755 });
+  }
+
+  const database = new BetterSqlite3(DATABASE_FILE);
+
+  // WAL: les ecritures sont atomiques et un crash ne corrompt pas la base
+  database.pragma('journal_mode = WAL');
+  database.pragma('synchronous = FULL');
+  database.pragma('foreign_keys = ON');
+  database.pragma('busy_timeout = 5000');
+
+  runMigrations(database);
+  importLegacyJson(database, CONFIG_DIR);
+
+  db = database;
+  console.log(`[Database] ${DATABASE_FILE}`);
+  return db;
+}
+
+/**
+ * Execute une fonction dans une transaction (rollback si elle leve une erreur)
+ */
+export function transaction<T>(fn: () => T): T {
+  return getDatabase().transaction(fn)();
+}
+
+/**
+ * Ferme la connexion (arret du serveur)
+ */
+export function closeDatabase(): void {
+  if (db !== null) {
+    db.close();
+    db = null;
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Import unique des anciens fichiers JSON (apps.json, ports.json)
+ * apps.json (secrets en clair) est supprime apres import, ports.json est renomme en *.imported
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Database } from 'better-sqlite3';
+import { AppConfig, PortAllocation, PortRange } from '../types';
+
+const LEGACY_IMPORT_KEY = 'legacy_json_imported';
+
+function readJson(filePath: string): unknown {
+  if (!fs.existsSync(filePath)) return null;
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+/** Champs requis par la table apps */
+function isAppRow(entry: Record<string, unknown>): boolean {
+  return ['id', 'name', 'status', 'createdAt', 'updatedAt'].every(field => isNonEmptyString(entry[field]));
+}
+
+/** Champs requis par la table port_allocations */
+function isPortRow(entry: Record<string, unknown>): boolean {
+  return Number.isInteger(entry['port'])
+    && ['appId', 'appName', 'allocatedAt'].every(field => isNonEmptyString(entry[field]));
+}
+
+/**
+ * Entrees valides d'un tableau du fichier (champ absent ou mal forme: aucune)
+ * Les entrees invalides sont ignorees et signalees, sans bloquer l'import des autres
+ */
+function readEntries<T>(
+  data: unknown,
+  field: string,
+  isValid: (entry: Record<string, unknown>) => boolean
+): T[] {
+  const entries = isRecord(data) ? data[field] : undefined;
+  if (!Array.isArray(entries)) return [];
+
+  const valid: T[] = [];
+  entries.forEach((entry: unknown, index) => {
+    if (isRecord(entry) && isValid(entry)) {
+      valid.push(entry as unknown as T);
+    } else {
+      console.warn(`[Database] Import JSON: entree ${field}[${index}] invalide ignoree`);
+    }
+  });
+  return valid;
+}
+
+/**
+ * Importe apps.json et ports.json dans la base, une seule fois
+ * Tout est fait dans une transaction: en cas d'erreur rien n'est importe
+ */
+export function importLegacyJson(db: Database, configDir: string): void {
+  const done = db.prepare('SELECT value FROM settings WHERE key = ?').get(LEGACY_IMPORT_KEY);
+  if (done !== undefined) return;
+
+  const appsFile = path.join(configDir, 'apps.json');
+  const portsFile = path.join(configDir, 'ports.json');
+
+  const appsData = readJson(appsFile);
+  const portsData = readJson(portsFile);
+
+  const apps = readEntries<AppConfig>(appsData, 'apps', isAppRow);
+  const allocations = readEntries<PortAllocation>(portsData, 'allocations', isPortRow);
+  const portRange = isRecord(portsData) && isRecord(portsData['portRange'])
+    ? portsData['portRange'] as unknown as PortRange
+    : undefined;
+
+  const insertApp = db.prepare(`
+    INSERT OR IGNORE INTO apps (id, name, status, data, created_at, updated_at)
+    VALUES (@id, @name, @status, @data, @createdAt, @updatedAt)
+  `);
+  const insertPort = db.prepare(`
+    INSERT OR IGNORE INTO port_allocations (port, app_id, app_name, allocated_at)
+    VALUES (@port, @appId, @appName, @allocatedAt)
+  `);
+  const setSetting = db.prepare('INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)');
+
+  let importedApps = 0;
+  let importedPorts = 0;
+
+  db.transaction(() => {
+    for (const app of apps) {
+      const result = insertApp.run({
+        id: app.id,
+        name: app.name,
+        status: app.status,
+        data: JSON.stringify(app),
+        createdAt: app.createdAt,
+        updatedAt: app.updatedAt,
+      });
+      if (result.changes > 0) {
+        importedApps++;
+      } else {
+        console.warn(`[Database] Import JSON: application ${app.name} ignoree (id ou nom deja utilise)`);
+      }
+    }
+    for (const allocation of allocations) {
+      importedPorts += insertPort.run({
+        port: allocation.port,
+        appId: allocation.appId,
+        appName: allocation.appName,
+        allocatedAt: allocation.allocatedAt,
+      }).changes;
+    }
+    if (portRange) {
+      setSetting.run('port_range', JSON.stringify(portRange));
+    }
+    setSetting.run(LEGACY_IMPORT_KEY, new Date().toISOString());
+  })();
+
+  // apps.json contient des secrets en clair (tokens Git, cles SSH): il ne doit pas rester sur le disque
+  if (fs.existsSync(appsFile)) fs.rmSync(appsFile);
+  if (fs.existsSync(portsFile)) fs.renameSync(portsFile, `${portsFile}.imported`);
+
+  if (appsData || portsData) {
+    console.log(`[Database] Import JSON: ${importedApps} application(s), ${importedPorts} port(s)`);
+  }
+}
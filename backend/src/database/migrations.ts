@@ -0,0 +1,126 @@
+/**
+ * Migrations du schema de la base de donnees
+ * Chaque migration est appliquee une seule fois, dans l'ordre des versions
+ */
+
+import type { Database } from 'better-sqlite3';
+
+export interface Migration {
+  /** Version du schema apres application (strictement croissante) */
+  version: number;
+  name: string;
+  up: (db: Database) => void;
+}
+
+/**
+ * Liste ordonnee des migrations
+ * Ne jamais modifier une migration deja publiee: en ajouter une nouvelle
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: db => {
+      db.exec(`
+        CREATE TABLE apps (
+          id          TEXT PRIMARY KEY,
+          name        TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          status      TEXT NOT NULL,
+          data        TEXT NOT NULL,
+          created_at  TEXT NOT NULL,
+          updated_at  TEXT NOT NULL
+        );
+
+        CREATE TABLE port_allocations (
+          port          INTEGER PRIMARY KEY,
+          app_id        TEXT NOT NULL,
+          app_name      TEXT NOT NULL,
+          allocated_at  TEXT NOT NULL
+        );
+        CREATE INDEX idx_port_allocations_app ON port_allocations (app_id);
+
+        CREATE TABLE settings (
+          key    TEXT PRIMARY KEY,
+          value  TEXT NOT NULL
+        );
+
+        CREATE TABLE deployments (
+          id           TEXT PRIMARY KEY,
+          app_id       TEXT NOT NULL,
+          status       TEXT NOT NULL,
+          started_at   TEXT NOT NULL,
+          finished_at  TEXT,
+          error        TEXT
+        );
+        CREATE INDEX idx_deployments_app ON deployments (app_id, started_at DESC);
+
+        CREATE TABLE deployment_logs (
+          id             INTEGER PRIMARY KEY AUTOINCREMENT,
+          deployment_id  TEXT NOT NULL REFERENCES deployments (id) ON DELETE CASCADE,
+          timestamp      TEXT NOT NULL,
+          level          TEXT NOT NULL,
+          message        TEXT NOT NULL,
+          step           TEXT
+        );
+        CREATE INDEX idx_deployment_logs_deployment ON deployment_logs (deployment_id, id);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'deployment_images',
+    up: db => {
+      db.exec(`
+        ALTER TABLE deployments ADD COLUMN commit_sha TEXT;
+        ALTER TABLE deployments ADD COLUMN image_tag TEXT;
+        ALTER TABLE deployments ADD COLUMN image_retained INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE deployments ADD COLUMN rollback_of TEXT;
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: 'deployment_build_stats',
+    up: db => {
+      db.exec(`
+        ALTER TABLE deployments ADD COLUMN build_duration_ms INTEGER;
+        ALTER TABLE deployments ADD COLUMN build_no_cache INTEGER;
+        ALTER TABLE deployments ADD COLUMN build_cached_steps INTEGER;
+        ALTER TABLE deployments ADD COLUMN build_total_steps INTEGER;
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: 'deployment_commit_details',
+    up: db => {
+      db.exec(`
+        ALTER TABLE deployments ADD COLUMN commit_author TEXT;
+        ALTER TABLE deployments ADD COLUMN commit_message TEXT;
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: 'deployment_ref',
+    up: db => {
+      db.exec('ALTER TABLE deployments ADD COLUMN ref TEXT');
+    },
+  },
+  {
+    version: 6,
+    name: 'user_templates',
+    up: db => {
+      // Une ligne par version: la version courante est la plus recente
+      db.exec(`
+        CREATE TABLE templates (
+          type        TEXT NOT NULL,
+          version     INTEGER NOT NULL,
+          data        TEXT NOT NULL,
+          created_at  TEXT NOT NULL,
+          PRIMARY KEY (type, version)
+        );
+      `);
+    },
+  },
+];
@@ -9,10 +9,11 @@ import helmet from 'helmet';
 import morgan from 'morgan';
 
 import { config, isDevelopment } from './config';
-import { containerRouter, systemRouter, appRouter } from './routes';
-import { errorHandler, notFoundHandler } from './middleware';
+import { containerRouter, systemRouter, appRouter, templateRouter, authRouter, webhookRouter } from './routes';
+import { errorHandler, notFoundHandler, authenticate } from './middleware';
 import { healthCheck, apiInfo } from './controllers';
-import { dockerService, appDeploymentService } from './services';
+import { dockerService, appDeploymentService, authService } from './services';
+import { closeDatabase } from './database';
 
 /**
  * Cree et configure l'application Express
@@ -20,6 +21,11 @@ import { dockerService, appDeploymentService } from './services';
 function createApp(): Application {
   const app = express();
 
+  // Adresse IP du client lue dans X-Forwarded-For derriere un proxy de confiance
+  if (config.trustProxy > 0) {
+    app.set('trust proxy', config.trustProxy);
+  }
+
   // ====================================
   // Middlewares de securite
   // ====================================
@@ -42,9 +48,17 @@ function createApp(): Application {
   // ====================================
 
   // Parsing JSON avec limite augmentee pour les gros payloads
-  app.use(express.json({ limit: '10mb' }));
+  // Le corps brut est conserve pour verifier la signature des webhooks
+  app.use(express.json({
+    limit: '10mb',
+    verify: (req, _res, buf) => { (req as express.Request).rawBody = buf; },
+  }));
 
   // Logging des requetes (format dev en developpement, combined en production)
+  // Le token passe en query (flux SSE) n'apparait pas dans les logs
+  morgan.token('url', (req: express.Request) =>
+    (req.originalUrl || req.url).replace(/([?&]access_token=)[^&]*/gi, '$1[REDACTED]')
+  );
   app.use(morgan(isDevelopment ? 'dev' : 'combined'));
 
   // ====================================
@@ -57,12 +71,24 @@ function createApp(): Application {
   // Healthcheck
   app.get('/health', healthCheck);
 
+  // Routes API authentification (login public, le reste protege)
+  app.use('/api/auth', authRouter);
+
+  // Webhooks Git (authentifies par la signature du fournisseur)
+  app.use('/api/hooks', webhookRouter);
+
+  // Toutes les autres routes /api necessitent une authentification
+  app.use('/api', authenticate);
+
   // Routes API containers
   app.use('/api/containers', containerRouter);
 
   // Routes API monitoring systeme
   app.use('/api/system', systemRouter);
 
+  // Routes API templates (avant /api/apps/:id)
+  app.use('/api/apps/templates', templateRouter);
+
   // Routes API applications
   app.use('/api/apps', appRouter);
 
@@ -97,6 +123,9 @@ async function startServer(): Promise<void> {
     console.log('[Docktor] Connexion Docker etablie');
   }
 
+  // Compte administrateur initial
+  await authService.ensureAdminUser();
+
   // Synchronisation des statuts des applications
   console.log('[Docktor] Synchronisation des applications...');
   await appDeploymentService.syncAppStatuses();
@@ -114,11 +143,13 @@ async function startServer(): Promise<void> {
     console.log('-------------------------------------------');
     console.log('  Endpoints:');
     console.log('    GET  /health               Health check');
+    console.log('    POST /api/auth/login       Login');
     console.log('    GET  /api/containers       List containers');
     console.log('    GET  /api/system/overview  System overview');
     console.log('    GET  /api/apps             List applications');
     console.log('    POST /api/apps             Create application');
     console.log('    POST /api/apps/:id/deploy  Deploy application');
+    console.log('    POST /api/hooks/:appId     Git push webhook');
     console.log('===========================================');
     console.log('');
   });
@@ -139,6 +170,7 @@ async function startServer(): Promise<void> {
         process.exit(1);
       }
 
+      closeDatabase();
       console.log('[Docktor] Serveur arrete proprement');
       process.exit(0);
     });
@@ -0,0 +1,72 @@
+/**
+ * Middleware d'authentification
+ * Protege toutes les routes /api avec une session ou un token d'API
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { HttpError } from './error.middleware';
+import { authService } from '../services';
+
+/** Methodes HTTP autorisees avec la portee 'read' */
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/** Routes acceptant le token en query: les flux SSE (deploiement, logs d'un container) */
+const QUERY_TOKEN_ROUTES = [
+  /^\/api\/apps\/deployments\/[^/]+\/stream$/,
+  /^\/api\/containers\/[^/]+\/logs\/stream$/,
+];
+
+/**
+ * Extrait le credential de la requete
+ * - Header Authorization: Bearer <token>
+ * - Query param access_token, uniquement sur les flux SSE
+ *   (EventSource ne permet pas d'envoyer de header)
+ */
+function extractCredential(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (header !== undefined) {
+    const match = /^Bearer\s+(.+)$/i.exec(header);
+    return match?.[1]?.trim() ?? null;
+  }
+
+  const pathname = req.originalUrl.split('?')[0] ?? '';
+  if (req.method !== 'GET' || !QUERY_TOKEN_ROUTES.some(route => route.test(pathname))) {
+    return null;
+  }
+
+  const queryToken = req.query['access_token'];
+  if (typeof queryToken === 'string' && queryToken.length > 0) {
+    return queryToken;
+  }
+
+  return null;
+}
+
+/**
+ * Middleware d'authentification
+ * Renseigne req.auth ou rejette la requete avec 401 / 403
+ */
+export function authenticate(
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): void {
+  const credential = extractCredential(req);
+
+  if (credential === null) {
+    throw new HttpError(401, 'Authentification requise', 'UNAUTHORIZED');
+  }
+
+  const auth = authService.authenticate(credential);
+
+  if (auth === null) {
+    throw new HttpError(401, 'Session ou token invalide ou expire', 'INVALID_CREDENTIALS');
+  }
+
+  if (!auth.scopes.includes('write') && !READ_METHODS.includes(req.method)) {
+    throw new HttpError(403, 'Ce token est limite a la lecture', 'INSUFFICIENT_SCOPE');
+  }
+
+  req.auth = auth;
+  next();
+}
@@ -3,3 +3,5 @@
  */
 export * from './error.middleware';
 export * from './validation.middleware';
+export * from './auth.middleware';
+export * from './permission.middleware';
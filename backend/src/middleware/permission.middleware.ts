@@ -0,0 +1,37 @@
+/**
+ * Middleware de controle d'acces (RBAC)
+ * Verifie que l'utilisateur authentifie dispose d'une permission
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { HttpError } from './error.middleware';
+import { permissionService } from '../services';
+import { Permission } from '../types';
+
+/** Resout l'application ciblee par la requete (pour les roles par application) */
+export type AppIdResolver = (req: Request) => string | undefined;
+
+/**
+ * Resolveur par defaut: parametre :id des routes /api/apps/:id
+ */
+export const appIdFromParams: AppIdResolver = req => req.params['id'];
+
+/**
+ * Cree un middleware exigeant une permission
+ * Si resolveAppId est fourni, le role specifique a l'application est pris en compte
+ */
+export function requirePermission(permission: Permission, resolveAppId?: AppIdResolver) {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    if (req.auth === undefined) {
+      throw new HttpError(401, 'Authentification requise', 'UNAUTHORIZED');
+    }
+
+    const appId = resolveAppId?.(req);
+
+    if (!permissionService.hasPermission(req.auth.user, permission, appId)) {
+      throw new HttpError(403, `Permission requise: ${permission}`, 'FORBIDDEN');
+    }
+
+    next();
+  };
+}
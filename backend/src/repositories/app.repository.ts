@@ -0,0 +1,77 @@
+/**
+ * Repository des applications
+ * La configuration complete est stockee en JSON, les champs de recherche en colonnes
+ */
+
+import { getDatabase } from '../database';
+import { AppConfig } from '../types';
+
+interface AppRow {
+  data: string;
+}
+
+class AppRepository {
+  private static instance: AppRepository | null = null;
+
+  private constructor() {}
+
+  static getInstance(): AppRepository {
+    if (AppRepository.instance === null) {
+      AppRepository.instance = new AppRepository();
+    }
+    return AppRepository.instance;
+  }
+
+  findAll(): AppConfig[] {
+    const rows = getDatabase()
+      .prepare('SELECT data FROM apps ORDER BY created_at')
+      .all() as AppRow[];
+    return rows.map(row => JSON.parse(row.data) as AppConfig);
+  }
+
+  findById(id: string): AppConfig | undefined {
+    const row = getDatabase()
+      .prepare('SELECT data FROM apps WHERE id = ?')
+      .get(id) as AppRow | undefined;
+    return row ? JSON.parse(row.data) as AppConfig : undefined;
+  }
+
+  /**
+   * Cree ou met a jour une application
+   */
+  save(app: AppConfig): void {
+    getDatabase()
+      .prepare(`
+        INSERT INTO apps (id, name, status, data, created_at, updated_at)
+        VALUES (@id, @name, @status, @data, @createdAt, @updatedAt)
+        ON CONFLICT (id) DO UPDATE SET
+          name = excluded.name,
+          status = excluded.status,
+          data = excluded.data,
+          updated_at = excluded.updated_at
+      `)
+      .run({
+        id: app.id,
+        name: app.name,
+        status: app.status,
+        data: JSON.stringify(app),
+        createdAt: app.createdAt,
+        updatedAt: app.updatedAt,
+      });
+  }
+
+  /**
+   * Sauvegarde plusieurs applications dans une seule transaction
+   */
+  saveMany(apps: AppConfig[]): void {
+    getDatabase().transaction(() => {
+      for (const app of apps) this.save(app);
+    })();
+  }
+
+  delete(id: string): void {
+    getDatabase().prepare('DELETE FROM apps WHERE id = ?').run(id);
+  }
+}
+
+export const appRepository = AppRepository.getInstance();
@@ -0,0 +1,342 @@
+/**
+ * Repository des deploiements et de leurs logs
+ */
+
+import { getDatabase } from '../database';
+import { Deployment, DeploymentHistory, DeploymentLog, DeploymentStatus, DeploymentSummary } from '../types';
+
+interface DeploymentRow {
+  id: string;
+  app_id: string;
+  status: DeploymentStatus;
+  started_at: string;
+  finished_at: string | null;
+  error: string | null;
+  commit_sha: string | null;
+  commit_author: string | null;
+  commit_message: string | null;
+  ref: string | null;
+  image_tag: string | null;
+  image_retained: number;
+  rollback_of: string | null;
+  build_duration_ms: number | null;
+  build_no_cache: number | null;
+  build_cached_steps: number | null;
+  build_total_steps: number | null;
+}
+
+/** Ligne de l'historique: nombre de logs sans les charger */
+interface DeploymentSummaryRow extends DeploymentRow {
+  log_count: number;
+}
+
+interface DeploymentLogRow {
+  timestamp: string;
+  level: DeploymentLog['level'];
+  message: string;
+  step: string | null;
+}
+
+/** Statuts d'un deploiement encore en cours */
+const ACTIVE_STATUSES: DeploymentStatus[] = ['queued', 'pending', 'cloning', 'building', 'starting'];
+
+/** Options de retention de l'historique (0 = illimite) */
+export interface RetentionPolicy {
+  keepPerApp: number;
+  maxAgeDays: number;
+}
+
+/**
+ * Curseur opaque de pagination (position du dernier element de la page)
+ */
+function encodeCursor(row: DeploymentRow): string {
+  return Buffer.from(JSON.stringify([row.started_at, row.id])).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { startedAt: string; id: string } {
+  try {
+    const [startedAt, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (typeof startedAt === 'string' && typeof id === 'string') return { startedAt, id };
+  } catch {}
+  throw new Error('Curseur de pagination invalide');
+}
+
+function toLog(row: DeploymentLogRow): DeploymentLog {
+  return {
+    timestamp: row.timestamp,
+    level: row.level,
+    message: row.message,
+    ...(row.step !== null && { step: row.step }),
+  };
+}
+
+class DeploymentRepository {
+  private static instance: DeploymentRepository | null = null;
+
+  private constructor() {}
+
+  static getInstance(): DeploymentRepository {
+    if (DeploymentRepository.instance === null) {
+      DeploymentRepository.instance = new DeploymentRepository();
+    }
+    return DeploymentRepository.instance;
+  }
+
+  private toDeployment(row: DeploymentRow): Deployment {
+    return { ...this.toFields(row), logs: this.findLogs(row.id) };
+  }
+
+  private toSummary(row: DeploymentSummaryRow): DeploymentSummary {
+    return { ...this.toFields(row), logCount: row.log_count };
+  }
+
+  private toFields(row: DeploymentRow): Omit<Deployment, 'logs'> {
+    return {
+      id: row.id,
+      appId: row.app_id,
+      status: row.status,
+      startedAt: row.started_at,
+      ...(row.finished_at !== null && { finishedAt: row.finished_at }),
+      ...(row.error !== null && { error: row.error }),
+      ...(row.commit_sha !== null && { commitSha: row.commit_sha }),
+      ...(row.commit_author !== null && { commitAuthor: row.commit_author }),
+      ...(row.commit_message !== null && { commitMessage: row.commit_message }),
+      ...(row.ref !== null && { ref: row.ref }),
+      ...(row.image_tag !== null && { imageTag: row.image_tag, imageRetained: row.image_retained === 1 }),
+      ...(row.rollback_of !== null && { rollbackOf: row.rollback_of }),
+      ...(row.build_duration_ms !== null && {
+        build: {
+          durationMs: row.build_duration_ms,
+          noCache: row.build_no_cache === 1,
+          cachedSteps: row.build_cached_steps ?? 0,
+          totalSteps: row.build_total_steps ?? 0,
+        },
+      }),
+    };
+  }
+
+  findById(id: string): Deployment | undefined {
+    const row = getDatabase()
+      .prepare('SELECT * FROM deployments WHERE id = ?')
+      .get(id) as DeploymentRow | undefined;
+    return row ? this.toDeployment(row) : undefined;
+  }
+
+  /**
+   * Page de l'historique d'une application, du plus recent au plus ancien
+   * Les logs ne sont pas charges, seulement comptes
+   */
+  findPageByApp(appId: string, limit: number, cursor?: string): DeploymentHistory {
+    const database = getDatabase();
+    const after = cursor !== undefined ? decodeCursor(cursor) : undefined;
+    const columns = `*, (SELECT COUNT(*) FROM deployment_logs WHERE deployment_id = deployments.id) AS log_count`;
+
+    // Une ligne de plus que la limite pour savoir s'il existe une page suivante
+    const rows = (after
+      ? database
+          .prepare(`
+            SELECT ${columns} FROM deployments
+            WHERE app_id = ? AND (started_at < ? OR (started_at = ? AND id < ?))
+            ORDER BY started_at DESC, id DESC LIMIT ?
+          `)
+          .all(appId, after.startedAt, after.startedAt, after.id, limit + 1)
+      : database
+          .prepare(`SELECT ${columns} FROM deployments WHERE app_id = ? ORDER BY started_at DESC, id DESC LIMIT ?`)
+          .all(appId, limit + 1)) as DeploymentSummaryRow[];
+
+    const hasMore = rows.length > limit;
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      deployments: page.map(row => this.toSummary(row)),
+      total: this.countByApp(appId),
+      nextCursor: hasMore && last ? encodeCursor(last) : null,
+    };
+  }
+
+  countByApp(appId: string): number {
+    const row = getDatabase()
+      .prepare('SELECT COUNT(*) AS count FROM deployments WHERE app_id = ?')
+      .get(appId) as { count: number };
+    return row.count;
+  }
+
+  findLogs(deploymentId: string): DeploymentLog[] {
+    const rows = getDatabase()
+      .prepare('SELECT timestamp, level, message, step FROM deployment_logs WHERE deployment_id = ? ORDER BY id')
+      .all(deploymentId) as DeploymentLogRow[];
+    return rows.map(toLog);
+  }
+
+  /**
+   * Enregistre un nouveau deploiement (et ses logs eventuels)
+   */
+  create(deployment: Deployment): void {
+    const database = getDatabase();
+    database.transaction(() => {
+      database
+        .prepare(`
+          INSERT INTO deployments (
+            id, app_id, status, started_at, finished_at, error,
+            commit_sha, commit_author, commit_message, ref, image_tag, image_retained, rollback_of
+          )
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `)
+        .run(
+          deployment.id,
+          deployment.appId,
+          deployment.status,
+          deployment.startedAt,
+          deployment.finishedAt ?? null,
+          deployment.error ?? null,
+          deployment.commitSha ?? null,
+          deployment.commitAuthor ?? null,
+          deployment.commitMessage ?? null,
+          deployment.ref ?? null,
+          deployment.imageTag ?? null,
+          deployment.imageRetained ? 1 : 0,
+          deployment.rollbackOf ?? null
+        );
+      for (const log of deployment.logs) this.appendLog(deployment.id, log);
+    })();
+  }
+
+  /**
+   * Met a jour le statut d'un deploiement (les logs sont ajoutes via appendLog)
+   */
+  update(deployment: Deployment): void {
+    getDatabase()
+      .prepare(`
+        UPDATE deployments
+        SET status = ?, finished_at = ?, error = ?, commit_sha = ?, commit_author = ?, commit_message = ?,
+            image_tag = ?, image_retained = ?,
+            build_duration_ms = ?, build_no_cache = ?, build_cached_steps = ?, build_total_steps = ?
+        WHERE id = ?
+      `)
+      .run(
+        deployment.status,
+        deployment.finishedAt ?? null,
+        deployment.error ?? null,
+        deployment.commitSha ?? null,
+        deployment.commitAuthor ?? null,
+        deployment.commitMessage ?? null,
+        deployment.imageTag ?? null,
+        deployment.imageRetained ? 1 : 0,
+        deployment.build?.durationMs ?? null,
+        deployment.build ? (deployment.build.noCache ? 1 : 0) : null,
+        deployment.build?.cachedSteps ?? null,
+        deployment.build?.totalSteps ?? null,
+        deployment.id
+      );
+  }
+
+  /**
+   * Dernier deploiement reussi dont l'image est encore disponible
+   * excludeTag permet d'ignorer l'image en cours d'execution
+   */
+  findLatestRetained(appId: string, excludeTag?: string): Deployment | undefined {
+    const row = getDatabase()
+      .prepare(`
+        SELECT * FROM deployments
+        WHERE app_id = ? AND status = 'success' AND image_retained = 1 AND image_tag IS NOT ?
+        ORDER BY started_at DESC, id DESC LIMIT 1
+      `)
+      .get(appId, excludeTag ?? null) as DeploymentRow | undefined;
+    return row ? this.toDeployment(row) : undefined;
+  }
+
+  /**
+   * Tags d'images conserves pour une application, du plus recent au plus ancien
+   */
+  findRetainedTags(appId: string): string[] {
+    const rows = getDatabase()
+      .prepare(`
+        SELECT image_tag FROM deployments
+        WHERE app_id = ? AND status = 'success' AND image_retained = 1
+        GROUP BY image_tag
+        ORDER BY MAX(started_at) DESC
+      `)
+      .all(appId) as { image_tag: string }[];
+    return rows.map(row => row.image_tag);
+  }
+
+  /**
+   * Marque une image comme supprimee pour tous les deploiements qui l'utilisent
+   */
+  releaseImage(appId: string, imageTag: string): void {
+    getDatabase()
+      .prepare('UPDATE deployments SET image_retained = 0 WHERE app_id = ? AND image_tag = ?')
+      .run(appId, imageTag);
+  }
+
+  appendLog(deploymentId: string, log: DeploymentLog): void {
+    getDatabase()
+      .prepare(`
+        INSERT INTO deployment_logs (deployment_id, timestamp, level, message, step)
+        VALUES (?, ?, ?, ?, ?)
+      `)
+      .run(deploymentId, log.timestamp, log.level, log.message, log.step ?? null);
+  }
+
+  deleteByApp(appId: string): void {
+    getDatabase().prepare('DELETE FROM deployments WHERE app_id = ?').run(appId);
+  }
+
+  /**
+   * Supprime l'historique hors politique de retention (les logs suivent par cascade)
+   * Les deploiements en cours et ceux dont l'image est conservee (rollback) ne sont jamais supprimes
+   */
+  prune(policy: RetentionPolicy, appId?: string): number {
+    const database = getDatabase();
+    const placeholders = ACTIVE_STATUSES.map(() => '?').join(', ');
+    const appFilter = appId !== undefined ? 'AND app_id = ?' : '';
+    const appParams = appId !== undefined ? [appId] : [];
+
+    return database.transaction(() => {
+      let removed = 0;
+
+      if (policy.keepPerApp > 0) {
+        removed += database
+          .prepare(`
+            DELETE FROM deployments WHERE id IN (
+              SELECT id FROM (
+                SELECT id, status, image_retained, ROW_NUMBER() OVER (PARTITION BY app_id ORDER BY started_at DESC, id DESC) AS position
+                FROM deployments WHERE 1 = 1 ${appFilter}
+              )
+              WHERE position > ? AND status NOT IN (${placeholders}) AND image_retained = 0
+            )
+          `)
+          .run(...appParams, policy.keepPerApp, ...ACTIVE_STATUSES).changes;
+      }
+
+      if (policy.maxAgeDays > 0) {
+        const limit = new Date(Date.now() - policy.maxAgeDays * 24 * 60 * 60 * 1000).toISOString();
+        removed += database
+          .prepare(`
+            DELETE FROM deployments
+            WHERE started_at < ? AND status NOT IN (${placeholders}) AND image_retained = 0 ${appFilter}
+          `)
+          .run(limit, ...ACTIVE_STATUSES, ...appParams).changes;
+      }
+
+      return removed;
+    })();
+  }
+
+  /**
+   * Marque en echec les deploiements restes actifs (serveur arrete pendant le deploiement)
+   */
+  failInterrupted(error: string): number {
+    const placeholders = ACTIVE_STATUSES.map(() => '?').join(', ');
+    const result = getDatabase()
+      .prepare(`
+        UPDATE deployments SET status = 'failed', finished_at = ?, error = ?
+        WHERE status IN (${placeholders})
+      `)
+      .run(new Date().toISOString(), error, ...ACTIVE_STATUSES);
+    return result.changes;
+  }
+}
+
+export const deploymentRepository = DeploymentRepository.getInstance();
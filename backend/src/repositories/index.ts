@@ -0,0 +1,7 @@
+/**
+ * Point d'export centralise pour tous les repositories
+ */
+export * from './app.repository';
+export * from './port.repository';
+export * from './deployment.repository';
+export * from './template.repository';
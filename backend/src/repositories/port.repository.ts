@@ -0,0 +1,97 @@
+/**
+ * Repository des allocations de ports
+ */
+
+import { getDatabase } from '../database';
+import { PortAllocation, PortRange } from '../types';
+
+interface PortAllocationRow {
+  port: number;
+  app_id: string;
+  app_name: string;
+  allocated_at: string;
+}
+
+const PORT_RANGE_KEY = 'port_range';
+
+function toAllocation(row: PortAllocationRow): PortAllocation {
+  return {
+    port: row.port,
+    appId: row.app_id,
+    appName: row.app_name,
+    allocatedAt: row.allocated_at,
+  };
+}
+
+class PortRepository {
+  private static instance: PortRepository | null = null;
+
+  private constructor() {}
+
+  static getInstance(): PortRepository {
+    if (PortRepository.instance === null) {
+      PortRepository.instance = new PortRepository();
+    }
+    return PortRepository.instance;
+  }
+
+  findAll(): PortAllocation[] {
+    const rows = getDatabase()
+      .prepare('SELECT * FROM port_allocations ORDER BY port')
+      .all() as PortAllocationRow[];
+    return rows.map(toAllocation);
+  }
+
+  /**
+   * Enregistre une allocation (echoue si le port est deja pris)
+   */
+  insert(allocation: PortAllocation): void {
+    getDatabase()
+      .prepare(`
+        INSERT INTO port_allocations (port, app_id, app_name, allocated_at)
+        VALUES (@port, @appId, @appName, @allocatedAt)
+      `)
+      .run(allocation);
+  }
+
+  deleteByPort(port: number): void {
+    getDatabase().prepare('DELETE FROM port_allocations WHERE port = ?').run(port);
+  }
+
+  deleteByApp(appId: string): void {
+    getDatabase().prepare('DELETE FROM port_allocations WHERE app_id = ?').run(appId);
+  }
+
+  /**
+   * Supprime les allocations des applications absentes de la liste
+   */
+  deleteExcept(appIds: string[]): number {
+    const database = getDatabase();
+    return database.transaction(() => {
+      let removed = 0;
+      const ids = new Set(appIds);
+      for (const allocation of this.findAll()) {
+        if (!ids.has(allocation.appId)) {
+          this.deleteByPort(allocation.port);
+          removed++;
+        }
+      }
+      return removed;
+    })();
+  }
+
+  getPortRange(): PortRange | undefined {
+    const row = getDatabase()
+      .prepare('SELECT value FROM settings WHERE key = ?')
+      .get(PORT_RANGE_KEY) as { value: string } | undefined;
+    return row ? JSON.parse(row.value) as PortRange : undefined;
+  }
+
+  setPortRange(range: PortRange): void {
+    getDatabase()
+      .prepare('INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)')
+      .run(PORT_RANGE_KEY, JSON.stringify(range));
+  }
+}
+
+export const portRepository = PortRepository.getInstance();
@@ -0,0 +1,80 @@
+/**
+ * Repository des templates utilisateur
+ * Chaque version est conservee (JSON complet), la version courante est la plus recente
+ */
+
+import { getDatabase } from '../database';
+import { UserTemplate, UserTemplateType } from '../types';
+
+interface TemplateRow {
+  data: string;
+}
+
+class TemplateRepository {
+  private static instance: TemplateRepository | null = null;
+
+  private constructor() {}
+
+  static getInstance(): TemplateRepository {
+    if (TemplateRepository.instance === null) {
+      TemplateRepository.instance = new TemplateRepository();
+    }
+    return TemplateRepository.instance;
+  }
+
+  /**
+   * Version courante de chaque template
+   */
+  findAll(): UserTemplate[] {
+    const rows = getDatabase()
+      .prepare(`
+        SELECT data FROM templates t
+        WHERE version = (SELECT MAX(version) FROM templates WHERE type = t.type)
+        ORDER BY type
+      `)
+      .all() as TemplateRow[];
+    return rows.map(row => JSON.parse(row.data) as UserTemplate);
+  }
+
+  /**
+   * Version donnee d'un template (defaut: la plus recente)
+   */
+  findByType(type: UserTemplateType, version?: number): UserTemplate | undefined {
+    const row = (version === undefined
+      ? getDatabase()
+        .prepare('SELECT data FROM templates WHERE type = ? ORDER BY version DESC LIMIT 1')
+        .get(type)
+      : getDatabase()
+        .prepare('SELECT data FROM templates WHERE type = ? AND version = ?')
+        .get(type, version)) as TemplateRow | undefined;
+    return row ? JSON.parse(row.data) as UserTemplate : undefined;
+  }
+
+  /**
+   * Toutes les versions d'un template, la plus recente en premier
+   */
+  findVersions(type: UserTemplateType): UserTemplate[] {
+    const rows = getDatabase()
+      .prepare('SELECT data FROM templates WHERE type = ? ORDER BY version DESC')
+      .all(type) as TemplateRow[];
+    return rows.map(row => JSON.parse(row.data) as UserTemplate);
+  }
+
+  /**
+   * Enregistre une nouvelle version (les versions existantes ne sont jamais modifiees)
+   */
+  insert(template: UserTemplate): void {
+    getDatabase()
+      .prepare('INSERT INTO templates (type, version, data, created_at) VALUES (?, ?, ?, ?)')
+      .run(template.type, template.version, JSON.stringify(template), template.updatedAt);
+  }
+
+  /**
+   * Supprime un template et toutes ses versions
+   */
+  delete(type: UserTemplateType): void {
+    getDatabase().prepare('DELETE FROM templates WHERE type = ?').run(type);
+  }
+}
+
+export const templateRepository = TemplateRepository.getInstance();
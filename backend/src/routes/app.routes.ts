@@ -11,115 +11,241 @@ import {
   updateApp,
   deleteApp,
   deployApp,
+  rollbackApp,
+  getAppGitRefs,
+  getAppWebhook,
+  regenerateAppWebhook,
+  listAddons,
+  createAddon,
+  deleteAddon,
+  listBackups,
+  createBackup,
+  restoreBackup,
+  deleteBackup,
+  renewCertificate,
+  uploadCertificate,
+  deleteCertificate,
   stopApp,
   startApp,
   restartApp,
   getAppLogs,
   getAppDeployments,
   getDeployment,
-  getTemplates,
+  streamDeployment,
+  cancelDeployment,
   getPorts,
   syncApps,
   validateGitConfig,
+  browseGitRemote,
+  detectAppType,
 } from '../controllers';
-import { asyncHandler } from '../middleware';
+import { asyncHandler, requirePermission, appIdFromParams, AppIdResolver } from '../middleware';
+import { appDeploymentService } from '../services';
 
 const router = Router();
 
 /**
- * GET /api/apps/templates
- * Liste des templates disponibles
+ * Resout l'application a partir d'un ID de deploiement
  */
-router.get('/templates', asyncHandler(getTemplates));
+const appIdFromDeployment: AppIdResolver = req =>
+  appDeploymentService.getDeployment(req.params['deploymentId'] ?? '')?.appId;
 
 /**
  * GET /api/apps/ports
  * Informations sur les ports
  */
-router.get('/ports', asyncHandler(getPorts));
+router.get('/ports', requirePermission('apps:read'), asyncHandler(getPorts));
 
 /**
  * POST /api/apps/sync
  * Synchronise les statuts des applications
  */
-router.post('/sync', asyncHandler(syncApps));
+router.post('/sync', requirePermission('apps:update'), asyncHandler(syncApps));
 
 /**
  * POST /api/apps/validate-git
  * Valide une configuration Git
  */
-router.post('/validate-git', asyncHandler(validateGitConfig));
+router.post('/validate-git', requirePermission('apps:create'), asyncHandler(validateGitConfig));
+
+/**
+ * POST /api/apps/browse-git
+ * Branches, tags et branche par defaut d'un repository (verifie l'acces)
+ */
+router.post('/browse-git', requirePermission('apps:create'), asyncHandler(browseGitRemote));
+
+/**
+ * POST /api/apps/detect
+ * Detection du type d'application depuis le contenu du repository
+ */
+router.post('/detect', requirePermission('apps:create'), asyncHandler(detectAppType));
 
 /**
  * GET /api/apps/deployments/:deploymentId
  * Recupere un deploiement specifique
  */
-router.get('/deployments/:deploymentId', asyncHandler(getDeployment));
+router.get('/deployments/:deploymentId', requirePermission('apps:read', appIdFromDeployment), asyncHandler(getDeployment));
+
+/**
+ * GET /api/apps/deployments/:deploymentId/stream
+ * Stream SSE des logs d'un deploiement
+ */
+router.get('/deployments/:deploymentId/stream', requirePermission('apps:read', appIdFromDeployment), asyncHandler(streamDeployment));
+
+/**
+ * POST /api/apps/deployments/:deploymentId/cancel
+ * Annule un deploiement en attente ou interrompt le clone / build en cours
+ */
+router.post('/deployments/:deploymentId/cancel', requirePermission('apps:deploy', appIdFromDeployment), asyncHandler(cancelDeployment));
 
 /**
  * GET /api/apps
  * Liste toutes les applications
  */
-router.get('/', asyncHandler(listApps));
+router.get('/', requirePermission('apps:read'), asyncHandler(listApps));
 
 /**
  * POST /api/apps
  * Cree une nouvelle application
  */
-router.post('/', asyncHandler(createApp));
+router.post('/', requirePermission('apps:create'), asyncHandler(createApp));
 
 /**
  * GET /api/apps/:id
  * Recupere une application
  */
-router.get('/:id', asyncHandler(getApp));
+router.get('/:id', requirePermission('apps:read', appIdFromParams), asyncHandler(getApp));
 
 /**
  * PUT /api/apps/:id
  * Met a jour une application
  */
-router.put('/:id', asyncHandler(updateApp));
+router.put('/:id', requirePermission('apps:update', appIdFromParams), asyncHandler(updateApp));
 
 /**
  * DELETE /api/apps/:id
  * Supprime une application
  */
-router.delete('/:id', asyncHandler(deleteApp));
+router.delete('/:id', requirePermission('apps:delete', appIdFromParams), asyncHandler(deleteApp));
 
 /**
  * POST /api/apps/:id/deploy
  * Lance le deploiement
  */
-router.post('/:id/deploy', asyncHandler(deployApp));
+router.post('/:id/deploy', requirePermission('apps:deploy', appIdFromParams), asyncHandler(deployApp));
+
+/**
+ * POST /api/apps/:id/rollback
+ * Revient a une version precedemment deployee (sans rebuild)
+ */
+router.post('/:id/rollback', requirePermission('apps:deploy', appIdFromParams), asyncHandler(rollbackApp));
+
+/**
+ * GET /api/apps/:id/refs
+ * Branches et tags deployables du repository Git
+ */
+router.get('/:id/refs', requirePermission('apps:deploy', appIdFromParams), asyncHandler(getAppGitRefs));
+
+/**
+ * GET /api/apps/:id/webhook
+ * URL et secret du webhook Git (push-to-deploy)
+ */
+router.get('/:id/webhook', requirePermission('apps:update', appIdFromParams), asyncHandler(getAppWebhook));
+
+/**
+ * POST /api/apps/:id/webhook/regenerate
+ * Remplace le secret du webhook Git
+ */
+router.post('/:id/webhook/regenerate', requirePermission('apps:update', appIdFromParams), asyncHandler(regenerateAppWebhook));
+
+/**
+ * GET /api/apps/:id/addons
+ * Bases de donnees de l'application
+ */
+router.get('/:id/addons', requirePermission('apps:read', appIdFromParams), asyncHandler(listAddons));
+
+/**
+ * POST /api/apps/:id/addons
+ * Provisionne une base de donnees (Postgres, MySQL, MongoDB, Redis)
+ */
+router.post('/:id/addons', requirePermission('apps:update', appIdFromParams), asyncHandler(createAddon));
+
+/**
+ * DELETE /api/apps/:id/addons/:addonId
+ * Supprime un add-on (?keepData=true conserve les donnees)
+ */
+router.delete('/:id/addons/:addonId', requirePermission('apps:update', appIdFromParams), asyncHandler(deleteAddon));
+
+/**
+ * GET /api/apps/:id/backups
+ * Sauvegardes de l'application
+ */
+router.get('/:id/backups', requirePermission('apps:read', appIdFromParams), asyncHandler(listBackups));
+
+/**
+ * POST /api/apps/:id/backups
+ * Sauvegarde immediate (volumes et bases des add-ons)
+ */
+router.post('/:id/backups', requirePermission('apps:update', appIdFromParams), asyncHandler(createBackup));
+
+/**
+ * POST /api/apps/:id/backups/:backupId/restore
+ * Restaure une sauvegarde
+ */
+router.post('/:id/backups/:backupId/restore', requirePermission('apps:update', appIdFromParams), asyncHandler(restoreBackup));
+
+/**
+ * DELETE /api/apps/:id/backups/:backupId
+ * Supprime une sauvegarde
+ */
+router.delete('/:id/backups/:backupId', requirePermission('apps:update', appIdFromParams), asyncHandler(deleteBackup));
+
+/**
+ * POST /api/apps/:id/certificate
+ * Emission ou renouvellement immediat du certificat ACME
+ */
+router.post('/:id/certificate', requirePermission('apps:update', appIdFromParams), asyncHandler(renewCertificate));
+
+/**
+ * PUT /api/apps/:id/certificate
+ * Import d'un certificat personnalise
+ */
+router.put('/:id/certificate', requirePermission('apps:update', appIdFromParams), asyncHandler(uploadCertificate));
+
+/**
+ * DELETE /api/apps/:id/certificate
+ * Suppression du certificat (retour a l'emission ACME)
+ */
+router.delete('/:id/certificate', requirePermission('apps:update', appIdFromParams), asyncHandler(deleteCertificate));
 
 /**
  * POST /api/apps/:id/stop
  * Arrete l'application
  */
-router.post('/:id/stop', asyncHandler(stopApp));
+router.post('/:id/stop', requirePermission('apps:stop', appIdFromParams), asyncHandler(stopApp));
 
 /**
  * POST /api/apps/:id/start
  * Demarre l'application
  */
-router.post('/:id/start', asyncHandler(startApp));
+router.post('/:id/start', requirePermission('apps:start', appIdFromParams), asyncHandler(startApp));
 
 /**
  * POST /api/apps/:id/restart
  * Redemarre l'application
  */
-router.post('/:id/restart', asyncHandler(restartApp));
+router.post('/:id/restart', requirePermission('apps:restart', appIdFromParams), asyncHandler(restartApp));
 
 /**
  * GET /api/apps/:id/logs
  * Logs de l'application
  */
-router.get('/:id/logs', asyncHandler(getAppLogs));
+router.get('/:id/logs', requirePermission('apps:logs', appIdFromParams), asyncHandler(getAppLogs));
 
 /**
  * GET /api/apps/:id/deployments
  * Historique des deploiements
  */
-router.get('/:id/deployments', asyncHandler(getAppDeployments));
+router.get('/:id/deployments', requirePermission('apps:read', appIdFromParams), asyncHandler(getAppDeployments));
 
 export { router as appRouter };
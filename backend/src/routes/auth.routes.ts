@@ -0,0 +1,93 @@
+/**
+ * Routes d'authentification
+ * Connexion, tokens d'API et gestion des utilisateurs
+ */
+
+import { Router } from 'express';
+import {
+  login,
+  logout,
+  getCurrentUser,
+  changePassword,
+  listApiTokens,
+  createApiToken,
+  revokeApiToken,
+  listUsers,
+  createUser,
+  updateUserRole,
+  deleteUser,
+} from '../controllers';
+import { asyncHandler, authenticate, requirePermission } from '../middleware';
+
+const router = Router();
+
+/**
+ * POST /api/auth/login
+ * Ouvre une session (route publique)
+ */
+router.post('/login', asyncHandler(login));
+
+// Toutes les routes suivantes necessitent une authentification
+router.use(authenticate);
+
+/**
+ * POST /api/auth/logout
+ * Ferme la session courante
+ */
+router.post('/logout', asyncHandler(logout));
+
+/**
+ * GET /api/auth/me
+ * Utilisateur connecte
+ */
+router.get('/me', asyncHandler(getCurrentUser));
+
+/**
+ * PUT /api/auth/password
+ * Change le mot de passe
+ */
+router.put('/password', asyncHandler(changePassword));
+
+/**
+ * GET /api/auth/tokens
+ * Liste des tokens d'API
+ */
+router.get('/tokens', asyncHandler(listApiTokens));
+
+/**
+ * POST /api/auth/tokens
+ * Cree un token d'API
+ */
+router.post('/tokens', asyncHandler(createApiToken));
+
+/**
+ * DELETE /api/auth/tokens/:tokenId
+ * Revoque un token d'API
+ */
+router.delete('/tokens/:tokenId', asyncHandler(revokeApiToken));
+
+/**
+ * GET /api/auth/users
+ * Liste des utilisateurs
+ */
+router.get('/users', requirePermission('users:manage'), asyncHandler(listUsers));
+
+/**
+ * POST /api/auth/users
+ * Cree un utilisateur
+ */
+router.post('/users', requirePermission('users:manage'), asyncHandler(createUser));
+
+/**
+ * PUT /api/auth/users/:userId/role
+ * Modifie le role global et les roles par application
+ */
+router.put('/users/:userId/role', requirePermission('users:manage'), asyncHandler(updateUserRole));
+
+/**
+ * DELETE /api/auth/users/:userId
+ * Supprime un utilisateur
+ */
+router.delete('/users/:userId', requirePermission('users:manage'), asyncHandler(deleteUser));
+
+export { router as authRouter };
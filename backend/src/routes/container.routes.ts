@@ -13,7 +13,7 @@ import {
   getContainerLogs,
   streamContainerLogs,
 } from '../controllers';
-import { asyncHandler, validateContainerId } from '../middleware';
+import { asyncHandler, validateContainerId, requirePermission } from '../middleware';
 
 const router = Router();
 
@@ -21,44 +21,44 @@ const router = Router();
  * GET /api/containers
  * Liste tous les containers (actifs et arrêtés)
  */
-router.get('/', asyncHandler(listContainers));
+router.get('/', requirePermission('containers:read'), asyncHandler(listContainers));
 
 /**
  * GET /api/containers/:id
  * Récupère les détails d'un container spécifique
  */
-router.get('/:id', validateContainerId, asyncHandler(getContainer));
+router.get('/:id', validateContainerId, requirePermission('containers:read'), asyncHandler(getContainer));
 
 /**
  * GET /api/containers/:id/logs
  * Récupère les logs d'un container
  * Query params: tail, since, until, timestamps, stdout, stderr
  */
-router.get('/:id/logs', validateContainerId, asyncHandler(getContainerLogs));
+router.get('/:id/logs', validateContainerId, requirePermission('containers:logs'), asyncHandler(getContainerLogs));
 
 /**
  * GET /api/containers/:id/logs/stream
  * Stream SSE des logs en temps réel
  * Query params: tail, timestamps, stdout, stderr
  */
-router.get('/:id/logs/stream', validateContainerId, streamContainerLogs);
+router.get('/:id/logs/stream', validateContainerId, requirePermission('containers:logs'), streamContainerLogs);
 
 /**
  * POST /api/containers/:id/stop
  * Arrête un container en cours d'exécution
  */
-router.post('/:id/stop', validateContainerId, asyncHandler(stopContainer));
+router.post('/:id/stop', validateContainerId, requirePermission('containers:stop'), asyncHandler(stopContainer));
 
 /**
  * POST /api/containers/:id/restart
  * Redémarre un container (qu'il soit running ou stopped)
  */
-router.post('/:id/restart', validateContainerId, asyncHandler(restartContainer));
+router.post('/:id/restart', validateContainerId, requirePermission('containers:restart'), asyncHandler(restartContainer));
 
 /**
  * POST /api/containers/:id/start
  * Démarre un container arrêté
  */
-router.post('/:id/start', validateContainerId, asyncHandler(startContainer));
+router.post('/:id/start', validateContainerId, requirePermission('containers:start'), asyncHandler(startContainer));
 
 export { router as containerRouter };
@@ -4,3 +4,6 @@
 export * from './container.routes';
 export * from './system.routes';
 export * from './app.routes';
+export * from './auth.routes';
+export * from './webhook.routes';
+export * from './template.routes';
@@ -15,10 +15,13 @@ import {
   getDockerStats,
   getSystemInfo,
 } from '../controllers';
-import { asyncHandler } from '../middleware';
+import { asyncHandler, requirePermission } from '../middleware';
 
 const router = Router();
 
+// Toutes les metriques systeme sont en lecture seule
+router.use(requirePermission('system:read'));
+
 /**
  * GET /api/system/overview
  * Apercu rapide du systeme (ideal pour le dashboard)
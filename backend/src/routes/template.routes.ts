@@ -0,0 +1,55 @@
+/**
+ * Routes des templates d'application
+ * Montees sous /api/apps/templates (avant les routes /api/apps/:id)
+ */
+
+import { Router } from 'express';
+import {
+  getTemplates,
+  getTemplateVersions,
+  createTemplate,
+  cloneTemplate,
+  updateTemplate,
+  deleteTemplate,
+} from '../controllers';
+import { asyncHandler, requirePermission } from '../middleware';
+
+const router = Router();
+
+/**
+ * GET /api/apps/templates
+ * Liste des templates disponibles et de leurs parametres
+ */
+router.get('/', requirePermission('apps:read'), asyncHandler(getTemplates));
+
+/**
+ * POST /api/apps/templates
+ * Cree un template utilisateur
+ */
+router.post('/', requirePermission('templates:manage'), asyncHandler(createTemplate));
+
+/**
+ * GET /api/apps/templates/:type/versions
+ * Versions d'un template utilisateur
+ */
+router.get('/:type/versions', requirePermission('apps:read'), asyncHandler(getTemplateVersions));
+
+/**
+ * POST /api/apps/templates/:type/clone
+ * Copie un template (integre ou utilisateur) en nouveau template utilisateur
+ */
+router.post('/:type/clone', requirePermission('templates:manage'), asyncHandler(cloneTemplate));
+
+/**
+ * PUT /api/apps/templates/:type
+ * Nouvelle version d'un template utilisateur
+ */
+router.put('/:type', requirePermission('templates:manage'), asyncHandler(updateTemplate));
+
+/**
+ * DELETE /api/apps/templates/:type
+ * Supprime un template utilisateur
+ */
+router.delete('/:type', requirePermission('templates:manage'), asyncHandler(deleteTemplate));
+
+export { router as templateRouter };
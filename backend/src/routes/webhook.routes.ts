@@ -0,0 +1,18 @@
+/**
+ * Routes des webhooks Git
+ * Publiques: l'authentification repose sur la signature du fournisseur
+ */
+
+import { Router } from 'express';
+import { receiveWebhook } from '../controllers';
+import { asyncHandler } from '../middleware';
+
+const router = Router();
+
+/**
+ * POST /api/hooks/:appId
+ * Push GitHub, GitLab ou Bitbucket: deploie si la branche correspond
+ */
+router.post('/:appId', asyncHandler(receiveWebhook));
+
+export { router as webhookRouter };
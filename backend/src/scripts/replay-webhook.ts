@@ -0,0 +1,74 @@
+/**
+ * Rejoue un payload de webhook enregistre vers une API locale
+ * Signe le corps comme le ferait le fournisseur (GitHub, GitLab ou Bitbucket)
+ *
+ * Usage: npm run replay-webhook -- <fixture.json> <appId> <secret> [branche]
+ * Fixtures: fixtures/webhooks/*.json ({ headers, body })
+ * API cible: WEBHOOK_API_URL (defaut: http://localhost:3001)
+ */
+
+import * as fs from 'fs';
+import { createHmac } from 'crypto';
+
+interface WebhookFixture {
+  headers: Record<string, string>;
+  body: any;
+}
+
+/**
+ * Remplace la branche poussee dans le payload
+ */
+function setBranch(fixture: WebhookFixture, branch: string): void {
+  if (fixture.headers['x-event-key']) {
+    for (const change of fixture.body?.push?.changes ?? []) {
+      if (change?.new?.type === 'branch') change.new.name = branch;
+    }
+  } else {
+    fixture.body.ref = `refs/heads/${branch}`;
+  }
+}
+
+/**
+ * Ajoute le header d'authentification du fournisseur
+ */
+function sign(headers: Record<string, string>, rawBody: string, secret: string): Record<string, string> {
+  const signature = 'sha256=' + createHmac('sha256', secret).update(rawBody).digest('hex');
+
+  if (headers['x-github-event']) return { ...headers, 'x-hub-signature-256': signature };
+  if (headers['x-gitlab-event']) return { ...headers, 'x-gitlab-token': secret };
+  if (headers['x-event-key']) return { ...headers, 'x-hub-signature': signature };
+
+  throw new Error('Fournisseur non reconnu dans les headers de la fixture');
+}
+
+async function main(): Promise<void> {
+  const [fixturePath, appId, secret, branch] = process.argv.slice(2);
+  if (!fixturePath || !appId || !secret) {
+    throw new Error('Usage: replay-webhook <fixture.json> <appId> <secret> [branche]');
+  }
+
+  const fixture = JSON.parse(fs.readFileSync(fixturePath, 'utf-8')) as WebhookFixture;
+  if (branch) setBranch(fixture, branch);
+
+  const rawBody = JSON.stringify(fixture.body);
+  const baseUrl = (process.env['WEBHOOK_API_URL'] || 'http://localhost:3001').replace(/\/+$/, '');
+  const url = `${baseUrl}/api/hooks/${appId}`;
+
+  console.log(`[ReplayWebhook] POST ${url} (${fixturePath})`);
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: sign({ ...fixture.headers, 'content-type': 'application/json' }, rawBody, secret),
+    body: rawBody,
+  });
+
+  console.log(`[ReplayWebhook] HTTP ${response.status}`);
+  console.log(await response.text());
+
+  if (!response.ok) process.exitCode = 1;
+}
+
+main().catch(error => {
+  console.error('[ReplayWebhook] Echec:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,69 @@
+/**
+ * Rotation de la cle maitre des secrets
+ * Genere une nouvelle cle et rechiffre tous les secrets stockes
+ *
+ * Usage (serveur arrete): npm run rotate-key
+ */
+
+import { appRepository } from '../repositories';
+import { secretService, GIT_SECRET_FIELDS } from '../services/secret.service';
+import { closeDatabase } from '../database';
+
+/**
+ * Rechiffre les secrets de toutes les applications, en une transaction
+ * Lit directement la base: le service des applications (reseau, proxy, certificats) n'est pas demarre
+ */
+function resealAppSecrets(reseal: (value: string) => string): number {
+  const apps = appRepository.findAll();
+  let count = 0;
+
+  for (const app of apps) {
+    if (app.git) {
+      for (const field of GIT_SECRET_FIELDS) {
+        const value = app.git[field];
+        if (value) {
+          app.git[field] = reseal(value);
+          count++;
+        }
+      }
+    }
+    for (const variable of app.envVariables) {
+      if (variable.isSecret && variable.value) {
+        variable.value = reseal(variable.value);
+        count++;
+      }
+    }
+    if (app.webhookSecret) {
+      app.webhookSecret = reseal(app.webhookSecret);
+      count++;
+    }
+  }
+
+  appRepository.saveMany(apps);
+  return count;
+}
+
+function main(): void {
+  console.log('[RotateKey] Rotation de la cle maitre...');
+
+  const result = secretService.rotateKey(resealAppSecrets);
+
+  console.log(`[RotateKey] ${result.resealed} secret(s) rechiffre(s) avec la cle ${result.keyId}`);
+
+  if (result.source === 'env') {
+    console.log('[RotateKey] La cle provient de DOCKTOR_MASTER_KEY, la nouvelle cle est dans:');
+    console.log(`[RotateKey]   ${result.keyFile}`);
+    console.log('[RotateKey] Reportez son contenu dans DOCKTOR_MASTER_KEY avant de redemarrer, puis supprimez le fichier');
+  } else {
+    console.log(`[RotateKey] Fichier de cle mis a jour: ${result.keyFile} (ancienne cle supprimee)`);
+  }
+}
+
+try {
+  main();
+  closeDatabase();
+  process.exit(0);
+} catch (error) {
+  console.error('[RotateKey] Echec:', error instanceof Error ? error.message : error);
+  process.exit(1);
+}
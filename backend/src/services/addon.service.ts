@@ -0,0 +1,271 @@
+/**
+ * Service des add-ons d'application
+ * Bases de donnees (Postgres, MySQL, MongoDB, Redis) provisionnees dans un container dedie
+ * sur docktor-network, avec un volume nomme et des identifiants generes
+ */
+
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { randomBytes } from 'crypto';
+import { AddonType, AppAddon, AppConfig, CreateAddonRequest, EnvVariable } from '../types';
+
+const execAsync = promisify(exec);
+
+// ============================================
+// Types
+// ============================================
+
+interface AddonCredentials {
+  database: string;
+  username: string;
+  password: string;
+}
+
+interface AddonDefinition {
+  image: string;
+  defaultVersion: string;
+  port: number;
+
+  /** Repertoire des donnees dans le container (monte sur le volume) */
+  dataPath: string;
+
+  /** Le container cree une base et un utilisateur au premier demarrage */
+  createsDatabase: boolean;
+
+  /** Variables du container */
+  containerEnv(credentials: AddonCredentials): Record<string, string>;
+
+  /** Arguments de la commande du container */
+  command?(credentials: AddonCredentials): string[];
+
+  /** Variables injectees dans l'application (hote: nom du container) */
+  appEnv(host: string, credentials: AddonCredentials): EnvVariable[];
+}
+
+// ============================================
+// Constantes
+// ============================================
+
+const DOCKER_NETWORK = 'docktor-network';
+
+const IMAGE_TAG_PATTERN = /^\w[\w.-]{0,127}$/;
+
+/**
+ * Variables des bases SQL: DATABASE_URL et variables DB_* (conventions Laravel, Rails, Django...)
+ */
+function sqlEnv(scheme: string, connection: string, port: number) {
+  return (host: string, { database, username, password }: AddonCredentials): EnvVariable[] => [
+    { key: 'DATABASE_URL', value: `${scheme}://${username}:${password}@${host}:${port}/${database}`, isSecret: true },
+    { key: 'DB_CONNECTION', value: connection },
+    { key: 'DB_HOST', value: host },
+    { key: 'DB_PORT', value: port.toString() },
+    { key: 'DB_DATABASE', value: database },
+    { key: 'DB_USERNAME', value: username },
+    { key: 'DB_PASSWORD', value: password, isSecret: true },
+  ];
+}
+
+const ADDON_DEFINITIONS: Record<AddonType, AddonDefinition> = {
+  postgres: {
+    image: 'postgres',
+    defaultVersion: '16-alpine',
+    port: 5432,
+    dataPath: '/var/lib/postgresql/data',
+    createsDatabase: true,
+    containerEnv: ({ database, username, password }) => ({
+      POSTGRES_DB: database,
+      POSTGRES_USER: username,
+      POSTGRES_PASSWORD: password,
+    }),
+    appEnv: sqlEnv('postgresql', 'pgsql', 5432),
+  },
+  mysql: {
+    image: 'mysql',
+    defaultVersion: '8.4',
+    port: 3306,
+    dataPath: '/var/lib/mysql',
+    createsDatabase: true,
+    containerEnv: ({ database, username, password }) => ({
+      MYSQL_DATABASE: database,
+      MYSQL_USER: username,
+      MYSQL_PASSWORD: password,
+      MYSQL_RANDOM_ROOT_PASSWORD: 'yes',
+    }),
+    appEnv: sqlEnv('mysql', 'mysql', 3306),
+  },
+  mongodb: {
+    image: 'mongo',
+    defaultVersion: '7',
+    port: 27017,
+    dataPath: '/data/db',
+    createsDatabase: true,
+    containerEnv: ({ database, username, password }) => ({
+      MONGO_INITDB_DATABASE: database,
+      MONGO_INITDB_ROOT_USERNAME: username,
+      MONGO_INITDB_ROOT_PASSWORD: password,
+    }),
+    appEnv: (host, { database, username, password }) => [
+      {
+        key: 'MONGODB_URI',
+        value: `mongodb://${username}:${password}@${host}:27017/${database}?authSource=admin`,
+        isSecret: true,
+      },
+    ],
+  },
+  redis: {
+    image: 'redis',
+    defaultVersion: '7-alpine',
+    port: 6379,
+    dataPath: '/data',
+    createsDatabase: false,
+    containerEnv: () => ({}),
+    command: ({ password }) => ['redis-server', '--requirepass', password, '--appendonly', 'yes'],
+    appEnv: (host, { password }) => [
+      { key: 'REDIS_URL', value: `redis://:${password}@${host}:6379`, isSecret: true },
+      { key: 'REDIS_HOST', value: host },
+      { key: 'REDIS_PORT', value: '6379' },
+      { key: 'REDIS_PASSWORD', value: password, isSecret: true },
+    ],
+  },
+};
+
+export const ADDON_TYPES = Object.keys(ADDON_DEFINITIONS) as AddonType[];
+
+// ============================================
+// Utilitaires
+// ============================================
+
+/**
+ * Nom de base et d'utilisateur derive du nom de l'application (my-app -> my_app)
+ */
+function databaseName(appName: string): string {
+  const name = appName.toLowerCase().replace(/[^a-z0-9_]/g, '_').slice(0, 32);
+  return /^[a-z]/.test(name) ? name : `app_${name}`.slice(0, 32);
+}
+
+function containerNameOf(app: AppConfig, type: AddonType): string {
+  const base = (app.containerName || app.name).toLowerCase().replace(/[^a-z0-9_.-]/g, '-');
+  return `${base}-${type}`;
+}
+
+/**
+ * Variables injectees par un add-on, sans le provisionner
+ */
+export function addonEnvKeys(type: AddonType): string[] {
+  const credentials = { database: '', username: '', password: '' };
+  return ADDON_DEFINITIONS[type].appEnv('', credentials).map(v => v.key);
+}
+
+// ============================================
+// Service Principal
+// ============================================
+
+class AddonService {
+  private static instance: AddonService | null = null;
+
+  private constructor() {}
+
+  static getInstance(): AddonService {
+    if (AddonService.instance === null) {
+      AddonService.instance = new AddonService();
+    }
+    return AddonService.instance;
+  }
+
+  /**
+   * Cree le volume et demarre le container de l'add-on
+   * Retourne l'add-on et les variables a injecter dans l'application (valeurs en clair)
+   */
+  async provision(app: AppConfig, request: CreateAddonRequest): Promise<{ addon: AppAddon; envVariables: EnvVariable[] }> {
+    const definition = ADDON_DEFINITIONS[request.type];
+    if (!ADDON_TYPES.includes(request.type) || !definition) {
+      throw new Error(`Type d'add-on non supporte: ${request.type} (${ADDON_TYPES.join(', ')})`);
+    }
+
+    const version = request.version?.trim() || definition.defaultVersion;
+    if (!IMAGE_TAG_PATTERN.test(version)) {
+      throw new Error(`Version invalide: ${version}`);
+    }
+
+    const addons = app.addons ?? [];
+    if (addons.some(a => a.type === request.type)) {
+      throw new Error(`L'application dispose deja d'un add-on ${request.type}`);
+    }
+
+    // Deux add-ons ne peuvent pas fournir la meme variable (DATABASE_URL pour postgres et mysql)
+    const keys = addonEnvKeys(request.type);
+    const conflicts = addons.filter(a => a.envKeys.some(key => keys.includes(key)));
+    if (conflicts.length > 0) {
+      throw new Error(
+        `Variables deja fournies par l'add-on ${conflicts.map(a => a.type).join(', ')}: ` +
+        keys.filter(key => conflicts.some(a => a.envKeys.includes(key))).join(', ')
+      );
+    }
+
+    const suffix = randomBytes(3).toString('hex');
+    const containerName = containerNameOf(app, request.type);
+    const volume = `${containerName}-data-${suffix}`;
+    const name = databaseName(app.name);
+    const credentials: AddonCredentials = { database: name, username: name, password: randomBytes(24).toString('hex') };
+
+    const labels = `--label docktor.app=${app.id} --label docktor.addon=${request.type}`;
+    await execAsync(`docker volume create ${labels} ${volume}`);
+
+    try {
+      await execAsync([
+        'docker run -d',
+        `--name ${containerName}`,
+        `--network ${DOCKER_NETWORK}`,
+        '--restart unless-stopped',
+        labels,
+        `-v ${volume}:${definition.dataPath}`,
+        ...Object.entries(definition.containerEnv(credentials)).map(([key, value]) => `-e ${key}=${value}`),
+        `${definition.image}:${version}`,
+        ...(definition.command?.(credentials) ?? []),
+      ].join(' '), { timeout: 300000 });
+    } catch (err: any) {
+      try {
+        await execAsync(`docker volume rm ${volume}`);
+      } catch {}
+      throw new Error(`Demarrage de l'add-on ${request.type} impossible: ${err.stderr?.trim() || err.message}`);
+    }
+
+    const envVariables = definition.appEnv(containerName, credentials);
+    const addon: AppAddon = {
+      id: `addon-${Date.now().toString(36)}-${suffix}`,
+      type: request.type,
+      version,
+      containerName,
+      volume,
+      ...(definition.createsDatabase && { database: credentials.database, username: credentials.username }),
+      envKeys: envVariables.map(v => v.key),
+      createdAt: new Date().toISOString(),
+    };
+
+    console.log(`[Addons] ${addon.type} ${version} provisionne pour ${app.name} (${containerName}, volume ${volume})`);
+    return { addon, envVariables };
+  }
+
+  /**
+   * Supprime le container de l'add-on; keepData conserve le volume des donnees
+   */
+  async remove(addon: AppAddon, keepData: boolean): Promise<void> {
+    try {
+      await execAsync(`docker rm -f ${addon.containerName}`);
+    } catch {}
+
+    if (keepData) {
+      console.log(`[Addons] ${addon.containerName} supprime, donnees conservees dans le volume ${addon.volume}`);
+      return;
+    }
+
+    try {
+      await execAsync(`docker volume rm ${addon.volume}`);
+    } catch (err: any) {
+      console.warn(`[Addons] Suppression du volume ${addon.volume} impossible: ${err.stderr?.trim() || err.message}`);
+    }
+    console.log(`[Addons] ${addon.containerName} et son volume supprimes`);
+  }
+}
+
+export const addonService = AddonService.getInstance();
@@ -6,8 +6,12 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { exec, spawn, ChildProcess } from 'child_process';
+import * as os from 'os';
+import * as net from 'net';
+import * as http from 'http';
+import { exec, execFile, spawn, ChildProcess } from 'child_process';
 import { promisify } from 'util';
+import { randomBytes } from 'crypto';
 import { EventEmitter } from 'events';
 import {
   AppConfig,
@@ -15,16 +19,50 @@ import {
   CreateAppRequest,
   UpdateAppRequest,
   Deployment,
+  DeploymentHistory,
   DeploymentLog,
+  DeploymentStatus,
+  DeploymentStreamHandlers,
+  DeploymentSlot,
+  DeployStrategy,
+  BuildSource,
+  BuildSourceType,
+  HealthCheckConfig,
+  HealthCheckType,
   EnvVariable,
   GitConfig,
   GitProvider,
+  GitRef,
+  GitRefs,
+  GitRemoteInfo,
+  AppDetection,
   GitAuthMethod,
+  TemplateParameter,
+  TemplateParameterValues,
+  ResourceLimits,
+  RestartPolicy,
+  AppAddon,
+  CreateAddonRequest,
+  Backup,
+  AppCertificate,
+  UploadCertificateRequest,
 } from '../types';
-import { getTemplate, getAllTemplates } from '../templates/app.templates';
+import { config } from '../config';
+import { checkTemplate, normalizeParameters, renderTemplate, resolveParameters } from '../templates/template.engine';
 import { portManagerService } from './port.service';
+import { systemMonitorService } from './system.service';
+import { addonService } from './addon.service';
+import { backupService, cronMatches, normalizeBackupSchedule } from './backup.service';
+import { proxyService, normalizeDomain, resolveHostPath, ProxyRoute } from './proxy.service';
+import { certificateService, certificateStatus, acmeIneligibility } from './certificate.service';
+import { templateService, isUserTemplate } from './template.service';
+import { secretService, SECRET_PLACEHOLDER, GIT_SECRET_FIELDS } from './secret.service';
+import { detectionService, DETECTION_FILES, RepositoryFiles } from './detection.service';
+import { appRepository, deploymentRepository } from '../repositories';
+import { transaction } from '../database';
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
 // ============================================
 // Configuration
@@ -32,37 +70,99 @@ const execAsync = promisify(exec);
 
 const APPS_ROOT = process.env.APPS_ROOT || '/var/app/apps';
 const CONFIG_DIR = process.env.DOCKTOR_CONFIG_DIR || '/var/app/.docktor';
-const APPS_CONFIG_FILE = path.join(CONFIG_DIR, 'apps.json');
 const DOCKER_NETWORK = 'docktor-network';
 
+/** Taille de page par defaut de l'historique des deploiements */
+const DEFAULT_HISTORY_PAGE_SIZE = 20;
+
+/** Intervalle d'application de la retention (age maximum) */
+const RETENTION_INTERVAL = 6 * 60 * 60 * 1000;
+
+/** Intervalle de verification des sauvegardes planifiees (inferieur a la minute du cron) */
+const BACKUP_SCHEDULER_INTERVAL = 20 * 1000;
+
+/** Intervalle de verification des certificats TLS (renouvellement, expiration) */
+const CERTIFICATE_CHECK_INTERVAL = 60 * 60 * 1000;
+
+/** Delai avant une nouvelle tentative apres un echec d'emission */
+const CERTIFICATE_RETRY_DELAY = 6 * 60 * 60 * 1000;
+
+const CERTIFICATE_BUSY_ERROR = 'Emission du certificat TLS en cours: reessayez dans quelques instants';
+
+/** Fichiers generes par Docktor dans le repertoire d'une application (preserves par le checkout Git) */
+const DOCKTOR_FILES = [
+  'Dockerfile', 'docker-compose.yml', 'docker-compose.blue.yml', 'docker-compose.green.yml', '.env', '.docktor', '.dockerignore',
+];
+
+/** Exclus du contexte de build: le checkout Git, la cle SSH de deploiement et les variables de l'application */
+const DOCKER_IGNORE_ENTRIES = ['.git', '.ssh', '.env', '.docktor'];
+
 // ============================================
 // Detection Docker Compose
 // ============================================
 
-let DOCKER_COMPOSE_CMD: { cmd: string; args: string[] } | null = null;
+interface DockerComposeCommand {
+  cmd: string;
+  args: string[];
+
+  /** Version [majeure, mineure] (absente si la sortie de --version n'est pas reconnue) */
+  version?: [number, number];
+}
+
+/** Version minimale pour le tag !override du complement compose (source compose du repository) */
+const COMPOSE_OVERRIDE_MIN_VERSION: [number, number] = [2, 24];
+
+let DOCKER_COMPOSE_CMD: DockerComposeCommand | null = null;
+
+/**
+ * Version de Compose dans la sortie de --version (ex: "Docker Compose version v2.24.5")
+ */
+function parseComposeVersion(output: string): [number, number] | undefined {
+  const match = output.match(/(\d+)\.(\d+)\.\d+/);
+  return match ? [Number(match[1]), Number(match[2])] : undefined;
+}
 
-async function detectDockerCompose(): Promise<{ cmd: string; args: string[] }> {
+async function detectDockerCompose(): Promise<DockerComposeCommand> {
   if (DOCKER_COMPOSE_CMD) return DOCKER_COMPOSE_CMD;
 
   // Essayer docker-compose (standalone)
   try {
-    await execAsync('docker-compose --version');
+    const { stdout } = await execAsync('docker-compose --version');
     console.log('[AppDeployment] Docker Compose: docker-compose (standalone)');
-    DOCKER_COMPOSE_CMD = { cmd: 'docker-compose', args: [] };
+    const version = parseComposeVersion(stdout);
+    DOCKER_COMPOSE_CMD = { cmd: 'docker-compose', args: [], ...(version && { version }) };
     return DOCKER_COMPOSE_CMD;
   } catch {}
 
   // Essayer docker compose (plugin)
   try {
-    await execAsync('docker compose version');
+    const { stdout } = await execAsync('docker compose version');
     console.log('[AppDeployment] Docker Compose: docker compose (plugin)');
-    DOCKER_COMPOSE_CMD = { cmd: 'docker', args: ['compose'] };
+    const version = parseComposeVersion(stdout);
+    DOCKER_COMPOSE_CMD = { cmd: 'docker', args: ['compose'], ...(version && { version }) };
     return DOCKER_COMPOSE_CMD;
   } catch {}
 
   throw new Error('Docker Compose non installe. Installez docker-compose ou le plugin docker compose.');
 }
 
+/**
+ * Verifie que Compose accepte le complement genere pour une source compose (tag !override)
+ * Une version non reconnue n'est pas bloquee: Compose signalera lui-meme l'erreur
+ */
+function assertComposeOverrideSupport(compose: DockerComposeCommand): void {
+  if (!compose.version) return;
+
+  const [major, minor] = compose.version;
+  const [minMajor, minMinor] = COMPOSE_OVERRIDE_MIN_VERSION;
+  if (major < minMajor || (major === minMajor && minor < minMinor)) {
+    throw new Error(
+      `Docker Compose ${major}.${minor} ne prend pas en charge le fichier compose du repository: ` +
+      `version ${minMajor}.${minMinor} ou superieure requise`
+    );
+  }
+}
+
 async function execDockerCompose(args: string[], options: { cwd: string }): Promise<{ stdout: string; stderr: string }> {
   const compose = await detectDockerCompose();
   const cmd = `${compose.cmd} ${[...compose.args, ...args].join(' ')}`;
@@ -205,203 +305,1339 @@ function validateGitConfig(git: Partial<GitConfig>): { valid: boolean; errors: s
   return { valid: errors.length === 0, errors };
 }
 
-// ============================================
-// Utilitaires
-// ============================================
+/** Format accepte pour une ref demandee (interpolee dans les commandes git) */
+const GIT_REF_PATTERN = /^(?!-)[\w./-]+$/;
+
+/** Refs annoncees par un remote: nom complet -> commit */
+interface RemoteRefs {
+  defaultBranch?: string;
+  refs: Map<string, string>;
+}
+
+/**
+ * Traduit une erreur git (fetch, ls-remote) en message lisible
+ */
+function describeGitError(errMsg: string, fetchUrl: string, gitUrl: string, ref?: string): string {
+  if (errMsg.includes('Authentication failed') || errMsg.includes('could not read Username')) {
+    return 'Echec d\'authentification. Verifiez vos identifiants (token, username/password, ou cle SSH).';
+  } else if (errMsg.includes('Repository not found') || errMsg.includes('does not exist') || errMsg.includes('does not appear to be a git repository')) {
+    return 'Repository non trouve. Verifiez l\'URL et vos permissions d\'acces.';
+  } else if (errMsg.includes('Permission denied')) {
+    return 'Permission refusee. Verifiez que le token/credentials a les droits de lecture sur le repository.';
+  } else if (errMsg.includes('Host key verification failed')) {
+    return 'Verification de la cle SSH echouee. Verifiez votre cle privee.';
+  } else if (errMsg.includes('Could not resolve host')) {
+    return `Impossible de resoudre l'hote. Verifiez l'URL du repository.`;
+  } else if (ref && errMsg.includes('couldn\'t find remote ref')) {
+    return `Ref "${ref}" non trouvee dans le repository.`;
+  } else if (ref && errMsg.includes('not our ref')) {
+    return `Commit "${ref}" non accessible: le serveur n'autorise pas la recuperation d'un commit hors branche ou tag.`;
+  }
+
+  return `Erreur de recuperation: ${errMsg.replace(fetchUrl, gitUrl)}`;
+}
+
+/**
+ * Liste les refs d'un repository distant (git ls-remote)
+ * La cle SSH eventuelle est ecrite dans un repertoire temporaire, supprime ensuite
+ * L'URL est passee en argument apres "--", jamais interpretee par un shell ni comme une option
+ */
+async function listRemoteRefs(git: GitConfig): Promise<RemoteRefs> {
+  const fetchUrl = buildGitCloneUrl(git);
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'docktor-git-'));
 
-function ensureDirectoryExists(dirPath: string): boolean {
   try {
-    if (!fs.existsSync(dirPath)) {
-      fs.mkdirSync(dirPath, { recursive: true, mode: 0o755 });
+    const gitEnv = { ...process.env };
+    const sshKeyPath = await setupSshForClone(git, tmpDir);
+    if (sshKeyPath) {
+      gitEnv.GIT_SSH_COMMAND = `ssh -i ${sshKeyPath} -o StrictHostKeyChecking=no -o UserKnownHostsFile=/dev/null`;
     }
-    return true;
-  } catch (error: any) {
-    if (error.code === 'EEXIST') return true;
-    console.error(`[AppDeployment] Erreur creation ${dirPath}:`, error.message);
-    return false;
+
+    const { stdout } = await execFileAsync('git', ['ls-remote', '--symref', '--', fetchUrl], { timeout: 60000, env: gitEnv });
+
+    const remote: RemoteRefs = { refs: new Map() };
+    for (const line of stdout.split('\n')) {
+      const [target, name] = line.split('\t');
+      if (!target || !name) continue;
+
+      if (target.startsWith('ref: ')) {
+        // ref: refs/heads/main<TAB>HEAD
+        if (name === 'HEAD') remote.defaultBranch = target.slice('ref: refs/heads/'.length);
+      } else if (name.endsWith('^{}')) {
+        // Tag annote dereference: le commit remplace l'objet tag
+        remote.refs.set(name.slice(0, -3), target);
+      } else if (name !== 'HEAD') {
+        remote.refs.set(name, target);
+      }
+    }
+    return remote;
+  } catch (err: any) {
+    throw new Error(describeGitError(err.message || err.stderr || '', fetchUrl, git.url));
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
   }
 }
 
-function generateId(): string {
-  return `app-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 9)}`;
+/**
+ * Resout une ref demandee parmi les refs du remote
+ * Retourne le nom complet (refs/heads/..., refs/tags/..., refs/pull/...) ou le SHA du commit
+ * Un SHA complet absent des refs est accepte tel quel: ls-remote n'annonce que les sommets
+ */
+function resolveGitRef(remote: RemoteRefs, ref: string): string | null {
+  const candidates = ref.startsWith('refs/') ? [ref] : [`refs/heads/${ref}`, `refs/tags/${ref}`];
+  const match = candidates.find(candidate => remote.refs.has(candidate));
+  if (match) return match;
+
+  if (/^[0-9a-f]{7,40}$/i.test(ref)) {
+    const sha = ref.toLowerCase();
+    const tip = [...remote.refs.values()].find(value => value.startsWith(sha));
+    if (tip) return tip;
+    if (sha.length === 40) return sha;
+  }
+
+  return null;
 }
 
-function generateContainerName(appName: string): string {
-  return `docktor-${appName.toLowerCase().replace(/[^a-z0-9]/g, '-')}`;
+/**
+ * Branches triees par nom, tags du plus recent au plus ancien (ordre de version)
+ */
+function toGitRefs(remote: RemoteRefs): GitRefs {
+  const branches: GitRef[] = [];
+  const tags: GitRef[] = [];
+
+  for (const [name, sha] of remote.refs) {
+    if (name.startsWith('refs/heads/')) branches.push({ name: name.slice('refs/heads/'.length), sha });
+    else if (name.startsWith('refs/tags/')) tags.push({ name: name.slice('refs/tags/'.length), sha });
+  }
+
+  const byName = (a: GitRef, b: GitRef) => a.name.localeCompare(b.name, undefined, { numeric: true });
+  return {
+    ...(remote.defaultBranch && { defaultBranch: remote.defaultBranch }),
+    branches: branches.sort(byName),
+    tags: tags.sort(byName).reverse(),
+  };
+}
+
+/**
+ * Configuration Git complete a partir d'une saisie du formulaire (valeurs par defaut de createApp)
+ */
+function toRemoteGitConfig(git: Partial<GitConfig>): GitConfig {
+  const url = git.url ?? '';
+  const isPrivate = git.isPrivate ?? false;
+  return {
+    url,
+    branch: git.branch || 'main',
+    provider: git.provider || detectGitProvider(url),
+    isPrivate,
+    authMethod: git.authMethod || (isPrivate ? 'token' : 'none'),
+    ...(git.accessToken && { accessToken: git.accessToken }),
+    ...(git.username && { username: git.username }),
+    ...(git.password && { password: git.password }),
+    ...(git.sshPrivateKey && { sshPrivateKey: git.sshPrivateKey }),
+  };
+}
+
+/**
+ * Recupere le dernier commit de la branche (depth 1) dans un repertoire temporaire
+ * et lit les fichiers utiles a la detection, sans extraire l'arbre
+ */
+async function fetchRepositoryFiles(git: GitConfig): Promise<RepositoryFiles> {
+  const fetchUrl = buildGitCloneUrl(git);
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'docktor-detect-'));
+
+  try {
+    const gitEnv = { ...process.env };
+    const sshKeyPath = await setupSshForClone(git, tmpDir);
+    if (sshKeyPath) {
+      gitEnv.GIT_SSH_COMMAND = `ssh -i ${sshKeyPath} -o StrictHostKeyChecking=no -o UserKnownHostsFile=/dev/null`;
+    }
+    const gitOptions = { timeout: 120000, env: gitEnv, cwd: tmpDir };
+
+    // Arguments sans shell: l'URL et la branche ne sont jamais interpretees
+    await execFileAsync('git', ['init', '-q'], gitOptions);
+    await execFileAsync('git', ['fetch', '--depth', '1', '--', fetchUrl, git.branch], gitOptions);
+
+    const { stdout } = await execFileAsync('git', ['ls-tree', '--name-only', 'FETCH_HEAD'], gitOptions);
+    const files = stdout.split('\n').filter(Boolean);
+
+    const contents = new Map<string, string>();
+    for (const file of DETECTION_FILES.filter(f => files.includes(f))) {
+      const { stdout: content } = await execFileAsync(
+        'git',
+        ['show', `FETCH_HEAD:${file}`],
+        { ...gitOptions, maxBuffer: 1024 * 1024 }
+      );
+      contents.set(file, content);
+    }
+
+    return { files, contents };
+  } catch (err: any) {
+    throw new Error(describeGitError(err.message || err.stderr || '', fetchUrl, git.url, git.branch));
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
 }
 
 // ============================================
-// Service Principal
+// Images de deploiement
 // ============================================
 
-class AppDeploymentService extends EventEmitter {
-  private static instance: AppDeploymentService | null = null;
-  private apps: Map<string, AppConfig> = new Map();
-  private deployments: Map<string, Deployment> = new Map();
+/**
+ * Prefixe des images construites pour une application (docktor-<app>-<service>)
+ */
+function imageRepository(app: AppConfig): string {
+  return (app.containerName || generateContainerName(app.name)).toLowerCase().replace(/[^a-z0-9_.-]/g, '-');
+}
 
-  private constructor() {
-    super();
-    this.initialize();
+/**
+ * Tag d'image unique par deploiement: date UTC et commit court
+ */
+function generateImageTag(commitSha?: string): string {
+  const date = new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').replace(/\..*$/, '');
+  return commitSha ? `${date}-${commitSha.slice(0, 7)}` : date;
+}
+
+/**
+ * Suivi du cache dans la sortie BuildKit (--progress=plain)
+ * Une etape du Dockerfile apparait en "#7 [stage 2/5] RUN ...", puis "#7 CACHED" si elle est reprise
+ */
+class BuildCacheTracker {
+  private steps = new Set<string>();
+  private cached = new Set<string>();
+
+  track(line: string): void {
+    const step = /^#(\d+) \[[^\]]*\d+\/\d+\]/.exec(line);
+    if (step?.[1]) this.steps.add(step[1]);
+
+    const cached = /^#(\d+) CACHED\s*$/.exec(line);
+    if (cached?.[1]) this.cached.add(cached[1]);
   }
 
-  private initialize(): void {
-    console.log(`[AppDeployment] Config: ${CONFIG_DIR}`);
-    console.log(`[AppDeployment] Apps: ${APPS_ROOT}`);
-    ensureDirectoryExists(CONFIG_DIR);
-    ensureDirectoryExists(APPS_ROOT);
-    this.loadApps();
-    this.ensureNetworkExists();
+  get cachedSteps(): number {
+    return Array.from(this.cached).filter(id => this.steps.has(id)).length;
   }
 
-  static getInstance(): AppDeploymentService {
-    if (!AppDeploymentService.instance) {
-      AppDeploymentService.instance = new AppDeploymentService();
-    }
-    return AppDeploymentService.instance;
+  get totalSteps(): number {
+    return this.steps.size;
   }
+}
 
-  private loadApps(): void {
-    try {
-      if (fs.existsSync(APPS_CONFIG_FILE)) {
-        const data = JSON.parse(fs.readFileSync(APPS_CONFIG_FILE, 'utf-8'));
-        this.apps = new Map(data.apps.map((a: AppConfig) => [a.id, a]));
-        console.log(`[AppDeployment] ${this.apps.size} application(s) chargee(s)`);
-      }
-    } catch (error: any) {
-      console.error('[AppDeployment] Erreur chargement:', error.message);
+/** Service de premier niveau d'un docker-compose (lignes [start, end[) */
+interface ComposeService {
+  name: string;
+  start: number;
+  end: number;
+
+  /** Indentation des cles du service (-1 si vide) */
+  keyIndent: number;
+
+  /** Ligne de la cle build, -1 si l'image n'est pas construite */
+  buildLine: number;
+
+  /** Ligne de la cle image, -1 si absente */
+  imageLine: number;
+}
+
+/**
+ * Reperage des services d'un docker-compose (premier niveau sous services:)
+ */
+function parseComposeServices(lines: string[]): ComposeService[] {
+  const start = lines.findIndex(l => /^services:\s*$/.test(l));
+  if (start === -1) return [];
+
+  const indentOf = (line: string) => line.length - line.trimStart().length;
+  const isContent = (line: string) => line.trim() !== '' && !line.trim().startsWith('#');
+
+  const services: ComposeService[] = [];
+  let serviceIndent = -1;
+  for (let i = start + 1; i < lines.length; i++) {
+    const line = lines[i] ?? '';
+    if (!isContent(line)) continue;
+
+    const indent = indentOf(line);
+    const last = services[services.length - 1];
+    if (indent === 0) {
+      if (last) last.end = i;
+      break;
     }
+    if (serviceIndent === -1) serviceIndent = indent;
+    if (indent !== serviceIndent) continue;
+
+    if (last) last.end = i;
+    const match = /^\s*([\w.-]+):\s*$/.exec(line);
+    if (match?.[1]) services.push({ name: match[1], start: i, end: lines.length, keyIndent: -1, buildLine: -1, imageLine: -1 });
   }
 
-  private saveApps(): void {
-    try {
-      ensureDirectoryExists(CONFIG_DIR);
-      const data = { apps: Array.from(this.apps.values()), lastUpdated: new Date().toISOString() };
-      fs.writeFileSync(APPS_CONFIG_FILE, JSON.stringify(data, null, 2));
-    } catch (error: any) {
-      console.error('[AppDeployment] Erreur sauvegarde:', error.message);
+  for (const service of services) {
+    for (let i = service.start + 1; i < service.end; i++) {
+      const line = lines[i] ?? '';
+      if (!isContent(line)) continue;
+      if (service.keyIndent === -1) service.keyIndent = indentOf(line);
+      if (indentOf(line) !== service.keyIndent) continue;
+      if (/^\s*build:/.test(line)) service.buildLine = i;
+      if (/^\s*image:/.test(line)) service.imageLine = i;
     }
   }
 
-  private async ensureNetworkExists(): Promise<void> {
-    try {
-      await execAsync(`docker network inspect ${DOCKER_NETWORK} 2>/dev/null || docker network create ${DOCKER_NETWORK}`);
-    } catch {}
-  }
+  return services;
+}
 
-  // ============================================
-  // CRUD Applications
-  // ============================================
+/**
+ * Image taguee d'un service construit
+ */
+function serviceImage(repository: string, service: string, tag: string): string {
+  return `${repository}-${service.toLowerCase()}:${tag}`;
+}
 
-  async createApp(request: CreateAppRequest): Promise<AppConfig> {
-    // Validation du nom
-    if (!request.name || request.name.length < 2) {
-      throw new Error('Le nom de l\'application doit contenir au moins 2 caracteres');
+/**
+ * Fixe l'image des services construits (cle build) d'un docker-compose
+ * Compose tague l'image au build et la reutilise telle quelle au demarrage
+ */
+function pinServiceImages(compose: string, repository: string, tag: string): string {
+  const lines = compose.split('\n');
+
+  // En partant de la fin pour que les insertions ne decalent pas les services suivants
+  for (const service of parseComposeServices(lines).reverse()) {
+    if (service.buildLine === -1) continue;
+
+    const imageEntry = `${' '.repeat(service.keyIndent)}image: ${serviceImage(repository, service.name, tag)}`;
+    if (service.imageLine !== -1) {
+      lines[service.imageLine] = imageEntry;
+    } else {
+      lines.splice(service.buildLine, 0, imageEntry);
     }
+  }
 
-    if (!/^[a-zA-Z0-9-_]+$/.test(request.name)) {
-      throw new Error('Le nom ne peut contenir que des lettres, chiffres, tirets et underscores');
-    }
+  return lines.join('\n');
+}
 
-    // Validation du type
-    const template = getTemplate(request.type);
-    if (!template) {
-      throw new Error(`Type d'application non supporte: ${request.type}`);
-    }
+// ============================================
+// Sources de build
+// ============================================
 
-    // Construction de la config Git
-    let gitConfig: GitConfig | undefined;
-    
-    if (request.git?.url || request.gitUrl) {
-      const gitUrl = request.git?.url || request.gitUrl || '';
-      const gitBranch = request.git?.branch || request.gitBranch || 'main';
-      const isPrivate = request.git?.isPrivate ?? false;
-      const authMethod = request.git?.authMethod || (isPrivate ? 'token' : 'none');
+const BUILD_SOURCE_TYPES: BuildSourceType[] = ['template', 'dockerfile', 'compose'];
 
+/** Fichier compose genere par Docktor pour completer celui du repository */
+const COMPOSE_OVERRIDE_FILE = path.join('.docktor', 'docker-compose.override.yml');
 
-      gitConfig = {
-  url: gitUrl,
-  branch: gitBranch,
-  provider: detectGitProvider(gitUrl),
-  isPrivate,
-  authMethod,
-  ...(request.git?.accessToken && { accessToken: request.git.accessToken }),
-  ...(request.git?.username && { username: request.git.username }),
-  ...(request.git?.password && { password: request.git.password }),
-  ...(request.git?.sshPrivateKey && { sshPrivateKey: request.git.sshPrivateKey }),
-};
+const BUILD_SOURCE_GIT_ERROR = 'Le Dockerfile ou le compose du repository necessite un repository Git';
 
-      // gitConfig = {
-      //   url: gitUrl,
-      //   branch: gitBranch,
-      //   provider: detectGitProvider(gitUrl),
-      //   isPrivate,
-      //   authMethod,
-      //   accessToken: request.git?.accessToken,
-      //   username: request.git?.username,
-      //   password: request.git?.password,
-      //   sshPrivateKey: request.git?.sshPrivateKey,
-      // };
+/**
+ * Chemin relatif au repository (interpole dans les fichiers compose)
+ */
+function validateRepositoryPath(value: string, label: string): void {
+  const normalized = path.posix.normalize(value);
+  if (value.trim() === '' || path.posix.isAbsolute(normalized) || normalized.split('/').includes('..')
+    || /["'`$\\\s]/.test(value)) {
+    throw new Error(`${label} invalide: ${value}`);
+  }
+}
 
-      // Validation de la config Git
-      if (isPrivate) {
-        const validation = validateGitConfig(gitConfig);
-        if (!validation.valid) {
-          throw new Error(`Configuration Git invalide: ${validation.errors.join(', ')}`);
-        }
-      }
-    }
+function validateBuildSource(source: BuildSource): void {
+  if (!BUILD_SOURCE_TYPES.includes(source.type)) {
+    throw new Error(`Source de build invalide: ${source.type}`);
+  }
+  if (source.dockerfilePath !== undefined) validateRepositoryPath(source.dockerfilePath, 'Chemin du Dockerfile');
+  if (source.context !== undefined) validateRepositoryPath(source.context, 'Contexte de build');
+  if (source.composePath !== undefined) validateRepositoryPath(source.composePath, 'Chemin du fichier compose');
+  if (source.service !== undefined && !/^[\w.-]+$/.test(source.service)) {
+    throw new Error(`Service compose invalide: ${source.service}`);
+  }
+}
 
-    // Allocation du port
-    const id = generateId();
-    const externalPort = await portManagerService.allocatePort(id, request.name);
-    const internalPort = template.defaultInternalPort;
+/**
+ * Le blue/green duplique un service unique: incompatible avec le compose du repository
+ */
+function validateStrategySource(strategy?: DeployStrategy, source?: BuildSource): void {
+  if (strategy === 'bluegreen' && source?.type === 'compose') {
+    throw new Error('La strategie blue/green n\'est pas disponible avec le fichier compose du repository');
+  }
+}
 
-    // Creation du repertoire
-    const appDirName = request.name.toLowerCase().replace(/[^a-z0-9]/g, '-');
-    const appPath = path.join(APPS_ROOT, appDirName);
+function validateInternalPort(port: number): void {
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`Port interne invalide: ${port}`);
+  }
+}
 
-    // Verifier si le nom existe deja
-    const existing = Array.from(this.apps.values()).find(
-      a => a.name.toLowerCase() === request.name.toLowerCase()
-    );
-    if (existing) {
-      throw new Error(`Une application avec le nom "${request.name}" existe deja`);
-    }
+/**
+ * Source de build reduite aux champs de son type
+ */
+function normalizeBuildSource(source: BuildSource): BuildSource {
+  switch (source.type) {
+    case 'dockerfile':
+      return {
+        type: 'dockerfile',
+        ...(source.dockerfilePath && { dockerfilePath: source.dockerfilePath }),
+        ...(source.context && { context: source.context }),
+      };
+    case 'compose':
+      return {
+        type: 'compose',
+        ...(source.composePath && { composePath: source.composePath }),
+        ...(source.service && { service: source.service }),
+      };
+    default:
+      return { type: 'template' };
+  }
+}
 
-    if (!ensureDirectoryExists(appPath)) {
-      throw new Error(`Impossible de creer le repertoire: ${appPath}`);
-    }
+/**
+ * docker-compose d'une application construite depuis le Dockerfile du repository
+ * Le chemin du Dockerfile est relatif au contexte pour compose
+ */
+function dockerfileCompose(source: BuildSource): string {
+  const context = source.context || '.';
+  const dockerfile = path.posix.relative(context, source.dockerfilePath || 'Dockerfile');
+
+  return `services:
+  app:
+    build:
+      context: ${context}
+      dockerfile: ${dockerfile}
+    container_name: \${APP_NAME}
+    restart: unless-stopped
+    ports:
+      - "\${EXTERNAL_PORT}:\${INTERNAL_PORT}"
+    env_file:
+      - .env
+    networks:
+      - ${DOCKER_NETWORK}
+
+networks:
+  ${DOCKER_NETWORK}:
+    external: true
+`;
+}
 
-    // Merge des variables d'environnement
-    const envVariables: EnvVariable[] = [
-      ...template.defaultEnvVariables,
-      ...(request.envVariables || []),
-      { key: 'APP_NAME', value: generateContainerName(request.name) },
-      { key: 'EXTERNAL_PORT', value: externalPort.toString() },
-      { key: 'INTERNAL_PORT', value: internalPort.toString() },
-    ];
+/**
+ * Fichier compose du repository (source compose)
+ */
+function repositoryComposeFile(app: AppConfig): string {
+  return path.join(app.path, app.buildSource?.composePath || 'docker-compose.yml');
+}
 
-    const app: AppConfig = {
-  id,
-  name: request.name,
-  type: request.type,
-  internalPort,
-  externalPort,
-  path: appPath,
-  ...(gitConfig && { git: gitConfig }),
-  ...(gitConfig && { gitUrl: gitConfig.url }),
-  ...(gitConfig && { gitBranch: gitConfig.branch }),
-  envVariables,
-   ...(request.dockerfile || template.dockerfile
-    ? { dockerfile: request.dockerfile ?? template.dockerfile }
-    : {}),
+/**
+ * Complement du docker-compose du repository: le service publie recoit le port externe,
+ * le .env et le reseau Docktor; les services construits recoivent l'image taguee
+ * Les chemins sont absolus: compose les resout depuis le repertoire du premier fichier
+ */
+function renderComposeOverride(app: AppConfig, repositoryCompose: string, imageTag?: string): string {
+  const services = parseComposeServices(repositoryCompose.split('\n'));
+  if (services.length === 0) {
+    throw new Error('Aucun service dans le fichier compose du repository');
+  }
 
-  ...(request.dockerCompose || template.dockerCompose
-    ? { dockerCompose: request.dockerCompose ?? template.dockerCompose }
-    : {}),
+  const requested = app.buildSource?.service;
+  const published = requested ? services.find(s => s.name === requested) : services[0];
+  if (!published) {
+    throw new Error(`Service "${requested}" absent du fichier compose du repository`);
+  }
 
-  ...(request.buildCommand || template.buildCommand
-    ? { buildCommand: request.buildCommand ?? template.buildCommand }
+  const lines = ['services:'];
+  for (const service of services) {
+    const entries: string[] = [];
+
+    if (service === published) {
+      entries.push(
+        `    container_name: ${app.containerName || app.name}`,
+        // !override (Compose 2.24+): les ports publies par le repository ne s'ajoutent pas au port externe
+        '    ports: !override',
+        `      - "${publishedPort(app, app.externalPort)}:${app.internalPort}"`,
+        '    env_file:',
+        `      - "${path.join(app.path, '.env')}"`,
+        '    networks:',
+        '      - default',
+        `      - ${DOCKER_NETWORK}`,
+        ...(app.resources ? resourceEntries(app.resources) : []).map(([key, value]) => `    ${key}: ${value}`),
+      );
+    }
+    if (imageTag && service.buildLine !== -1) {
+      entries.push(`    image: ${serviceImage(imageRepository(app), service.name, imageTag)}`);
+    }
+
+    if (entries.length > 0) lines.push(`  ${service.name}:`, ...entries);
+  }
+
+  lines.push('', 'networks:', `  ${DOCKER_NETWORK}:`, '    external: true', '');
+  return lines.join('\n');
+}
+
+/**
+ * Arguments compose du projet principal (hors slots blue/green)
+ * Source compose: fichier du repository puis complement Docktor, sous le nom de projet habituel
+ */
+function composeFileArgs(app: AppConfig): string[] {
+  if (app.buildSource?.type === 'compose') {
+    return [
+      '-p', path.basename(app.path),
+      '-f', repositoryComposeFile(app),
+      '-f', path.join(app.path, COMPOSE_OVERRIDE_FILE),
+    ];
+  }
+  return ['-f', path.join(app.path, 'docker-compose.yml')];
+}
+
+/**
+ * Fichiers attendus avant le build, relatifs au repertoire de l'application
+ */
+function requiredBuildFiles(app: AppConfig): string[] {
+  switch (app.buildSource?.type) {
+    case 'dockerfile':
+      return ['docker-compose.yml', app.buildSource.dockerfilePath || 'Dockerfile'];
+    case 'compose':
+      return [app.buildSource.composePath || 'docker-compose.yml', COMPOSE_OVERRIDE_FILE];
+    default:
+      return ['docker-compose.yml', 'Dockerfile'];
+  }
+}
+
+// ============================================
+// Limites de ressources
+// ============================================
+
+const RESTART_POLICIES: RestartPolicy[] = ['no', 'always', 'on-failure', 'unless-stopped'];
+
+/** Memoire minimale acceptee par Docker pour un container (Mo) */
+const MIN_MEMORY_MB = 6;
+
+const MB = 1024 * 1024;
+
+/**
+ * Valide le format des limites et ne conserve que les champs renseignes
+ * Retourne undefined si aucune limite n'est definie
+ */
+function normalizeResources(resources: ResourceLimits): ResourceLimits | undefined {
+  const { cpus, memoryLimit, memoryReservation, pidsLimit, restartPolicy } = resources;
+
+  if (cpus !== undefined && (!Number.isFinite(cpus) || cpus < 0.01)) {
+    throw new Error(`Quota CPU invalide: ${cpus} (minimum 0.01)`);
+  }
+  if (memoryLimit !== undefined && (!Number.isInteger(memoryLimit) || memoryLimit < MIN_MEMORY_MB)) {
+    throw new Error(`Memoire maximale invalide: ${memoryLimit} (entier, minimum ${MIN_MEMORY_MB} Mo)`);
+  }
+  if (memoryReservation !== undefined && (!Number.isInteger(memoryReservation) || memoryReservation < 1)) {
+    throw new Error(`Memoire reservee invalide: ${memoryReservation} (entier en Mo)`);
+  }
+  if (memoryLimit !== undefined && memoryReservation !== undefined && memoryReservation > memoryLimit) {
+    throw new Error('La memoire reservee ne peut pas depasser la memoire maximale');
+  }
+  if (pidsLimit !== undefined && (!Number.isInteger(pidsLimit) || pidsLimit < 1)) {
+    throw new Error(`Limite de processus invalide: ${pidsLimit}`);
+  }
+  if (restartPolicy !== undefined && !RESTART_POLICIES.includes(restartPolicy)) {
+    throw new Error(`Politique de redemarrage invalide: ${restartPolicy}`);
+  }
+
+  const normalized: ResourceLimits = {
+    ...(cpus !== undefined && { cpus: Math.round(cpus * 100) / 100 }),
+    ...(memoryLimit !== undefined && { memoryLimit }),
+    ...(memoryReservation !== undefined && { memoryReservation }),
+    ...(pidsLimit !== undefined && { pidsLimit }),
+    ...(restartPolicy && { restartPolicy }),
+  };
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+}
+
+/**
+ * Verifie les limites contre la capacite de l'hote
+ * La memoire reservee est garantie: son total sur les applications ne peut pas depasser la memoire de l'hote
+ */
+async function validateHostCapacity(resources: ResourceLimits, otherApps: AppConfig[]): Promise<void> {
+  const [cpu, memory] = await Promise.all([systemMonitorService.getCpuInfo(), systemMonitorService.getMemoryInfo()]);
+  const totalMemory = Math.floor(memory.total / MB);
+
+  if (resources.cpus !== undefined && resources.cpus > cpu.cores) {
+    throw new Error(`Quota CPU (${resources.cpus}) superieur au nombre de coeurs de l'hote (${cpu.cores})`);
+  }
+  if (resources.memoryLimit !== undefined && resources.memoryLimit > totalMemory) {
+    throw new Error(`Memoire maximale (${resources.memoryLimit} Mo) superieure a la memoire de l'hote (${totalMemory} Mo)`);
+  }
+  if (resources.memoryReservation !== undefined) {
+    const reserved = otherApps.reduce((sum, a) => sum + (a.resources?.memoryReservation ?? 0), 0);
+    if (reserved + resources.memoryReservation > totalMemory) {
+      throw new Error(
+        `Memoire reservee insuffisante sur l'hote: ${totalMemory - reserved} Mo disponibles ` +
+        `(${reserved} Mo deja reserves par les autres applications)`
+      );
+    }
+  }
+}
+
+/**
+ * Cles compose du service publie correspondant aux limites definies
+ */
+function resourceEntries(resources: ResourceLimits): [string, string][] {
+  const entries: [string, string][] = [];
+  if (resources.restartPolicy) {
+    // "no" doit rester une chaine pour YAML
+    entries.push(['restart', resources.restartPolicy === 'no' ? '"no"' : resources.restartPolicy]);
+  }
+  if (resources.cpus !== undefined) entries.push(['cpus', String(resources.cpus)]);
+  if (resources.memoryLimit !== undefined) entries.push(['mem_limit', `${resources.memoryLimit}m`]);
+  if (resources.memoryReservation !== undefined) entries.push(['mem_reservation', `${resources.memoryReservation}m`]);
+  if (resources.pidsLimit !== undefined) entries.push(['pids_limit', String(resources.pidsLimit)]);
+  return entries;
+}
+
+/**
+ * Ecrit les limites dans le premier service d'un docker-compose genere
+ * Les cles deja presentes (restart du template) sont remplacees
+ */
+function applyResourceLimits(compose: string, resources?: ResourceLimits): string {
+  const entries = resources ? resourceEntries(resources) : [];
+  const lines = compose.split('\n');
+  const service = parseComposeServices(lines)[0];
+  if (!service || entries.length === 0) return compose;
+
+  const indent = service.keyIndent !== -1
+    ? service.keyIndent
+    : (lines[service.start] ?? '').length - (lines[service.start] ?? '').trimStart().length + 2;
+  const keys = new Set(entries.map(([key]) => key));
+
+  for (let i = service.end - 1; i > service.start; i--) {
+    const match = /^(\s*)([\w.-]+):\s*\S/.exec(lines[i] ?? '');
+    if (match?.[1]?.length === indent && keys.has(match[2] ?? '')) lines.splice(i, 1);
+  }
+  lines.splice(service.start + 1, 0, ...entries.map(([key, value]) => `${' '.repeat(indent)}${key}: ${value}`));
+
+  return lines.join('\n');
+}
+
+// ============================================
+// Parametres des templates
+// ============================================
+
+/**
+ * Parametres declares par le template de l'application (dans la version utilisee a sa creation)
+ */
+function templateParameters(app: Pick<AppConfig, 'type' | 'templateVersion'>): TemplateParameter[] {
+  return templateService.getTemplate(app.type, app.templateVersion)?.parameters ?? [];
+}
+
+/**
+ * Verifie les parametres requis et les placeholders des fichiers avant enregistrement
+ */
+function validateTemplates(
+  parameters: TemplateParameter[],
+  values: TemplateParameterValues,
+  sources: (string | undefined)[]
+): void {
+  resolveParameters(parameters, values);
+  for (const source of sources) {
+    if (source) checkTemplate(source, parameters);
+  }
+}
+
+/**
+ * Valeurs des placeholders: parametres du template puis parametres fournis par Docktor
+ */
+function templateValues(app: AppConfig, appName: string, externalPort: number): TemplateParameterValues {
+  return {
+    ...resolveParameters(templateParameters(app), app.templateParameters ?? {}),
+    APP_NAME: appName,
+    EXTERNAL_PORT: externalPort.toString(),
+    INTERNAL_PORT: app.internalPort.toString(),
+    BUILD_CACHE_ID: imageRepository(app),
+  };
+}
+
+// ============================================
+// Blue/green
+// ============================================
+
+const DEPLOY_STRATEGIES: DeployStrategy[] = ['recreate', 'bluegreen'];
+
+/** Image du proxy qui publie le port externe d'une application blue/green */
+const PROXY_IMAGE = 'nginx:alpine';
+
+/** Port d'ecoute du proxy dans son container */
+const PROXY_LISTEN_PORT = 8080;
+
+function baseContainerName(app: AppConfig): string {
+  return app.containerName || generateContainerName(app.name);
+}
+
+function slotContainerName(app: AppConfig, slot: DeploymentSlot): string {
+  return `${baseContainerName(app)}-${slot}`;
+}
+
+function proxyContainerName(app: AppConfig): string {
+  return `${baseContainerName(app)}-proxy`;
+}
+
+// ============================================
+// Reverse proxy
+// ============================================
+
+/**
+ * Domaine normalise, refuse s'il sert deja une autre application
+ */
+function resolveDomain(domain: string, otherApps: AppConfig[]): string {
+  const normalized = normalizeDomain(domain);
+  const owner = otherApps.find(a => a.domain === normalized);
+  if (owner) {
+    throw new Error(`Domaine deja utilise par l'application ${owner.name}`);
+  }
+  return normalized;
+}
+
+/**
+ * Port publie sur l'hote: une application servie par un domaine n'est publiee que sur proxiedAppBindHost
+ */
+function publishedPort(app: AppConfig, port: number): string {
+  return app.domain ? `${config.proxiedAppBindHost}:${port}` : port.toString();
+}
+
+/**
+ * Applique l'adresse de publication au mapping du port externe ("<port>:<interne>")
+ */
+function bindPublishedPort(compose: string, app: AppConfig, port: number): string {
+  if (!app.domain) return compose;
+  return compose.replace(new RegExp(`^(\\s*-\\s*["']?)${port}:`, 'm'), `$1${publishedPort(app, port)}:`);
+}
+
+/**
+ * Route du domaine vers le container qui sert l'application (slot actif en blue/green)
+ * HTTPS des qu'un certificat est installe pour le domaine
+ */
+function proxyRoute(app: AppConfig & { domain: string }): ProxyRoute {
+  return {
+    domain: app.domain,
+    upstream: app.blueGreen ? slotContainerName(app, app.blueGreen.activeSlot) : app.containerName || app.name,
+    port: app.internalPort,
+    tls: certificateService.read(app.domain) !== null,
+  };
+}
+
+/**
+ * Etat du certificat a l'instant (valid, puis expiring, puis failed a l'expiration)
+ */
+function currentCertificate(certificate: AppCertificate): AppCertificate {
+  return certificate.notAfter ? { ...certificate, status: certificateStatus(certificate.notAfter) } : certificate;
+}
+
+/** Fichier compose d'un slot (a cote de docker-compose.yml pour garder les chemins relatifs) */
+function slotComposeFile(app: AppConfig, slot: DeploymentSlot): string {
+  return path.join(app.path, `docker-compose.${slot}.yml`);
+}
+
+/** Projet compose d'un slot (distinct du projet principal) */
+function slotProject(app: AppConfig, slot: DeploymentSlot): string {
+  return `${imageRepository(app)}-${slot}`;
+}
+
+// ============================================
+// Verification de sante
+// ============================================
+
+const HEALTH_CHECK_TYPES: HealthCheckType[] = ['http', 'tcp', 'container'];
+
+/** Lignes de logs du container jointes a un deploiement en echec */
+const HEALTH_FAILURE_LOG_LINES = 50;
+
+/** Sans configuration: le container doit rester demarre sur quelques verifications */
+const DEFAULT_RUNNING_CHECK = { retries: 3, interval: 2 };
+
+type ResolvedHealthCheck = Required<Omit<HealthCheckConfig, 'type'>> & { type: HealthCheckType | 'running' };
+
+interface ContainerState {
+  id: string;
+  status: string;
+
+  /** Statut du HEALTHCHECK de l'image (absent si non defini) */
+  health?: string;
+
+  /** Adresse sur docktor-network */
+  address?: string;
+
+  /** Ports publies sur l'hote (port hote -> port du container) */
+  publishedPorts: Map<number, number>;
+}
+
+interface ProbeResult {
+  ok: boolean;
+  message: string;
+
+  /** Echec definitif (inutile de reessayer) */
+  fatal?: boolean;
+}
+
+/** Journalisation d'un deploiement (niveau, message, etape) */
+type DeploymentLogger = (level: DeploymentLog['level'], message: string, step: string) => void;
+
+/** Deploiement en file d'attente ou en cours d'execution */
+interface DeploymentJob {
+  app: AppConfig;
+  deployment: Deployment;
+
+  /** Interrompt le processus en cours (git clone, build) */
+  controller: AbortController;
+
+  run: (signal: AbortSignal) => Promise<void>;
+}
+
+/**
+ * Valide une configuration de verification de sante
+ */
+function validateHealthCheck(check: HealthCheckConfig): void {
+  if (!HEALTH_CHECK_TYPES.includes(check.type)) {
+    throw new Error(`Type de verification de sante invalide: ${check.type}`);
+  }
+  if (check.path !== undefined && !check.path.startsWith('/')) {
+    throw new Error('Le chemin de verification doit commencer par /');
+  }
+  if (check.expectedStatus !== undefined && (check.expectedStatus < 100 || check.expectedStatus > 599)) {
+    throw new Error('Statut HTTP attendu invalide');
+  }
+  for (const key of ['timeout', 'interval', 'retries'] as const) {
+    const value = check[key];
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      throw new Error(`Valeur invalide pour ${key}: entier positif attendu`);
+    }
+  }
+}
+
+/**
+ * Applique les valeurs par defaut d'une verification de sante
+ */
+function resolveHealthCheck(check?: HealthCheckConfig): ResolvedHealthCheck {
+  return {
+    type: check?.type ?? 'running',
+    path: check?.path ?? '/',
+    expectedStatus: check?.expectedStatus ?? 200,
+    timeout: check?.timeout ?? 5,
+    interval: check?.interval ?? (check ? 3 : DEFAULT_RUNNING_CHECK.interval),
+    retries: check?.retries ?? (check ? 20 : DEFAULT_RUNNING_CHECK.retries),
+  };
+}
+
+/** Adresse sondee par la verification de sante */
+interface ProbeTarget {
+  host: string;
+  port: number;
+}
+
+function describeHealthCheck(check: ResolvedHealthCheck, { host, port }: ProbeTarget): string {
+  const budget = `${check.retries} tentative(s), toutes les ${check.interval}s`;
+  switch (check.type) {
+    case 'http': return `HTTP GET http://${host}:${port}${check.path} -> ${check.expectedStatus} (${budget})`;
+    case 'tcp': return `TCP ${host}:${port} (${budget})`;
+    case 'container': return `HEALTHCHECK du container (${budget})`;
+    default: return `container demarre (${budget})`;
+  }
+}
+
+/**
+ * Etat des containers (statut et HEALTHCHECK)
+ */
+async function inspectContainers(ids: string[]): Promise<ContainerState[]> {
+  if (ids.length === 0) return [];
+  const { stdout } = await execAsync(
+    `docker inspect --format '{{.Id}}|{{.State.Status}}|{{if .State.Health}}{{.State.Health.Status}}{{end}}|` +
+    `{{with index .NetworkSettings.Networks "${DOCKER_NETWORK}"}}{{.IPAddress}}{{end}}|{{json .NetworkSettings.Ports}}' ${ids.join(' ')}`
+  );
+  return stdout.split('\n').filter(Boolean).map(line => {
+    const [id = '', status = '', health = '', address = '', ...ports] = line.trim().split('|');
+    return { id, status, ...(health && { health }), ...(address && { address }), publishedPorts: parsePortBindings(ports.join('|')) };
+  });
+}
+
+/**
+ * Ports publies d'un container (JSON de NetworkSettings.Ports: {"3000/tcp": [{"HostPort": "40001"}]})
+ */
+function parsePortBindings(json: string): Map<number, number> {
+  const published = new Map<number, number>();
+  try {
+    const bindings = JSON.parse(json) as Record<string, Array<{ HostPort?: string }> | null> | null;
+    for (const [containerPort, hosts] of Object.entries(bindings ?? {})) {
+      for (const host of hosts ?? []) {
+        if (host.HostPort) published.set(parseInt(host.HostPort, 10), parseInt(containerPort, 10));
+      }
+    }
+  } catch {}
+  return published;
+}
+
+/**
+ * Adresse sondee: le container qui publie le port, joint sur docktor-network par son port interne
+ * quand le backend y est attache (backend en container), sinon le port publie sur deployProbeHost
+ */
+function resolveProbeTarget(containers: ContainerState[], port: number, overNetwork: boolean): ProbeTarget {
+  if (overNetwork) {
+    for (const container of containers) {
+      const containerPort = container.publishedPorts.get(port);
+      if (container.address && containerPort !== undefined) {
+        return { host: container.address, port: containerPort };
+      }
+    }
+  }
+  return { host: config.deployProbeHost, port };
+}
+
+function probeTcp(host: string, port: number, timeoutMs: number): Promise<ProbeResult> {
+  return new Promise(resolve => {
+    const socket = net.connect({ host, port });
+    socket.setTimeout(timeoutMs);
+    socket.once('connect', () => { socket.destroy(); resolve({ ok: true, message: 'connexion etablie' }); });
+    socket.once('timeout', () => { socket.destroy(); resolve({ ok: false, message: 'delai depasse' }); });
+    socket.once('error', (err: Error) => { socket.destroy(); resolve({ ok: false, message: err.message }); });
+  });
+}
+
+function probeHttp(url: string, expectedStatus: number, timeoutMs: number): Promise<ProbeResult> {
+  return new Promise(resolve => {
+    const request = http.get(url, { timeout: timeoutMs }, response => {
+      response.resume();
+      const status = response.statusCode ?? 0;
+      resolve(status === expectedStatus
+        ? { ok: true, message: `HTTP ${status}` }
+        : { ok: false, message: `HTTP ${status} (attendu ${expectedStatus})` });
+    });
+    request.once('timeout', () => request.destroy(new Error('delai depasse')));
+    request.once('error', (err: Error) => resolve({ ok: false, message: err.message }));
+  });
+}
+
+/**
+ * Execute une tentative de la verification de sante
+ */
+async function runHealthProbe(
+  check: ResolvedHealthCheck,
+  { host, port }: ProbeTarget,
+  containers: ContainerState[]
+): Promise<ProbeResult> {
+  switch (check.type) {
+    case 'http':
+      return probeHttp(`http://${host}:${port}${check.path}`, check.expectedStatus, check.timeout * 1000);
+
+    case 'tcp':
+      return probeTcp(host, port, check.timeout * 1000);
+
+    case 'container': {
+      const withHealth = containers.filter(c => c.health !== undefined);
+      if (withHealth.length === 0) {
+        return { ok: false, fatal: true, message: 'aucun HEALTHCHECK defini dans l\'image' };
+      }
+      const unhealthy = withHealth.find(c => c.health !== 'healthy');
+      return unhealthy
+        ? { ok: false, message: `HEALTHCHECK ${unhealthy.health}` }
+        : { ok: true, message: 'HEALTHCHECK healthy' };
+    }
+
+    default:
+      return { ok: true, message: 'container demarre' };
+  }
+}
+
+// ============================================
+// Secrets
+// ============================================
+
+/**
+ * Retourne une copie de la config Git avec les secrets dechiffres
+ * A n'utiliser qu'au moment du deploiement
+ */
+function revealGitConfig(git: GitConfig): GitConfig {
+  const revealed: GitConfig = { ...git };
+  for (const field of GIT_SECRET_FIELDS) {
+    const value = git[field];
+    if (value !== undefined) revealed[field] = secretService.unseal(value);
+  }
+  return revealed;
+}
+
+/**
+ * Chiffre les secrets d'une config Git
+ */
+function sealGitConfig(git: GitConfig): GitConfig {
+  const sealed: GitConfig = { ...git };
+  for (const field of GIT_SECRET_FIELDS) {
+    const value = git[field];
+    if (value) sealed[field] = secretService.seal(value);
+  }
+  return sealed;
+}
+
+/**
+ * Chiffre les variables marquees isSecret
+ * Une valeur egale au placeholder conserve le secret existant de meme cle
+ * (dechiffre si la variable n'est plus secrete)
+ */
+function sealEnvVariables(variables: EnvVariable[], previous: EnvVariable[] = []): EnvVariable[] {
+  return variables.map(v => {
+    const existing = v.value === SECRET_PLACEHOLDER
+      ? previous.find(p => p.key === v.key)
+      : undefined;
+
+    if (!v.isSecret) {
+      const { isSet: _isSet, ...variable } = v;
+      return existing?.isSecret ? { ...variable, value: secretService.unseal(existing.value) } : variable;
+    }
+
+    const value = v.value === SECRET_PLACEHOLDER ? existing?.value ?? '' : v.value;
+
+    return { key: v.key, value: value ? secretService.seal(value) : '', isSecret: true };
+  });
+}
+
+/**
+ * Indique si une application contient des secrets encore en clair
+ */
+function hasPlaintextSecrets(app: AppConfig): boolean {
+  const gitPlain = GIT_SECRET_FIELDS.some(field => {
+    const value = app.git?.[field];
+    return !!value && !secretService.isSealed(value);
+  });
+  const envPlain = app.envVariables.some(v => v.isSecret && !!v.value && !secretService.isSealed(v.value));
+  const webhookPlain = !!app.webhookSecret && !secretService.isSealed(app.webhookSecret);
+  return gitPlain || envPlain || webhookPlain;
+}
+
+/**
+ * Genere un secret de webhook
+ */
+function generateWebhookSecret(): string {
+  return randomBytes(24).toString('hex');
+}
+
+// ============================================
+// Utilitaires
+// ============================================
+
+function ensureDirectoryExists(dirPath: string): boolean {
+  try {
+    if (!fs.existsSync(dirPath)) {
+      fs.mkdirSync(dirPath, { recursive: true, mode: 0o755 });
+    }
+    return true;
+  } catch (error: any) {
+    if (error.code === 'EEXIST') return true;
+    console.error(`[AppDeployment] Erreur creation ${dirPath}:`, error.message);
+    return false;
+  }
+}
+
+function generateId(): string {
+  return `app-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Identifiant de deploiement, unique meme pour deux deploiements dans la meme milliseconde
+ */
+function generateDeploymentId(): string {
+  return `deploy-${Date.now()}-${randomBytes(3).toString('hex')}`;
+}
+
+function generateContainerName(appName: string): string {
+  return `docktor-${appName.toLowerCase().replace(/[^a-z0-9]/g, '-')}`;
+}
+
+// ============================================
+// Service Principal
+// ============================================
+
+class AppDeploymentService extends EventEmitter {
+  private static instance: AppDeploymentService | null = null;
+  private apps: Map<string, AppConfig> = new Map();
+  private deployments: Map<string, Deployment> = new Map();
+
+  /** File d'attente des deploiements (FIFO, un seul deploiement actif par application) */
+  private deploymentQueue: DeploymentJob[] = [];
+  private runningJobs: Map<string, DeploymentJob> = new Map();
+
+  /** Derniere minute de sauvegarde planifiee par application (evite les doublons) */
+  private lastScheduledBackup: Map<string, string> = new Map();
+
+  /** Emissions ACME en cours par application */
+  private certificateJobs: Map<string, Promise<AppCertificate>> = new Map();
+
+  /** Backend attache a docktor-network: les applications sont sondees sur leur port interne */
+  private networkAttached = false;
+
+  private constructor() {
+    super();
+    // Un abonnement par client SSE connecte a un deploiement
+    this.setMaxListeners(0);
+    this.initialize();
+  }
+
+  private initialize(): void {
+    console.log(`[AppDeployment] Config: ${CONFIG_DIR}`);
+    console.log(`[AppDeployment] Apps: ${APPS_ROOT}`);
+    ensureDirectoryExists(CONFIG_DIR);
+    ensureDirectoryExists(APPS_ROOT);
+    this.loadApps();
+    this.ensureNetworkExists()
+      .then(() => this.attachToNetwork())
+      .then(() => this.syncProxyRoutes())
+      .then(() => this.renewCertificates());
+
+    this.pruneDeploymentHistory();
+    setInterval(() => this.pruneDeploymentHistory(), RETENTION_INTERVAL).unref();
+    setInterval(() => this.runScheduledBackups(), BACKUP_SCHEDULER_INTERVAL).unref();
+    setInterval(() => this.renewCertificates(), CERTIFICATE_CHECK_INTERVAL).unref();
+  }
+
+  static getInstance(): AppDeploymentService {
+    if (!AppDeploymentService.instance) {
+      AppDeploymentService.instance = new AppDeploymentService();
+    }
+    return AppDeploymentService.instance;
+  }
+
+  private loadApps(): void {
+    try {
+      this.apps = new Map(appRepository.findAll().map(a => [a.id, a]));
+      console.log(`[AppDeployment] ${this.apps.size} application(s) chargee(s)`);
+
+      // Migration: chiffrement des secrets stockes en clair
+      const plaintextApps = Array.from(this.apps.values()).filter(hasPlaintextSecrets);
+      if (plaintextApps.length > 0) {
+        for (const app of plaintextApps) {
+          if (app.git) app.git = sealGitConfig(app.git);
+          app.envVariables = sealEnvVariables(app.envVariables);
+          if (app.webhookSecret) app.webhookSecret = secretService.seal(app.webhookSecret);
+        }
+        appRepository.saveMany(plaintextApps);
+        console.log(`[AppDeployment] Secrets chiffres pour ${plaintextApps.length} application(s)`);
+      }
+
+      // Deploiements interrompus par un arret du serveur
+      const interrupted = deploymentRepository.failInterrupted('Deploiement interrompu par un redemarrage du serveur');
+      if (interrupted > 0) {
+        console.warn(`[AppDeployment] ${interrupted} deploiement(s) interrompu(s) marque(s) en echec`);
+      }
+    } catch (error: any) {
+      console.error('[AppDeployment] Erreur chargement:', error.message);
+    }
+  }
+
+  /**
+   * Persiste une application
+   * Si la base refuse la modification (ex: nom deja utilise), l'etat en memoire est
+   * restaure depuis la base et l'erreur est relancee
+   */
+  private saveApp(app: AppConfig): void {
+    try {
+      appRepository.save(app);
+    } catch (error: any) {
+      console.error(`[AppDeployment] Erreur sauvegarde ${app.name}:`, error.message);
+
+      const stored = appRepository.findById(app.id);
+      if (stored) {
+        for (const key of Object.keys(app)) delete (app as unknown as Record<string, unknown>)[key];
+        Object.assign(app, stored);
+      }
+      throw new Error(`Sauvegarde de l'application impossible: ${error.message}`);
+    }
+  }
+
+  /**
+   * Persiste l'etat d'une application depuis un traitement de fond (deploiement, certificat)
+   * Aucun appelant ne peut recevoir l'erreur: elle est journalisee, l'etat en memoire reste la reference
+   */
+  private persistAppState(app: AppConfig): void {
+    try {
+      appRepository.save(app);
+    } catch (error: any) {
+      console.error(`[AppDeployment] Erreur sauvegarde ${app.name}:`, error.message);
+    }
+  }
+
+  /**
+   * Persiste l'etat d'un deploiement
+   */
+  private saveDeployment(deployment: Deployment): void {
+    try {
+      deploymentRepository.update(deployment);
+    } catch (error: any) {
+      console.error(`[AppDeployment] Erreur sauvegarde deploiement ${deployment.id}:`, error.message);
+    }
+  }
+
+  private async ensureNetworkExists(): Promise<void> {
+    try {
+      await execAsync(`docker network inspect ${DOCKER_NETWORK} 2>/dev/null || docker network create ${DOCKER_NETWORK}`);
+    } catch {}
+  }
+
+  /**
+   * Backend execute dans un container: les ports publies sur l'hote n'y sont pas joignables,
+   * il rejoint docktor-network pour sonder les applications directement
+   */
+  private async attachToNetwork(): Promise<void> {
+    if (!fs.existsSync('/.dockerenv')) return;
+
+    const self = os.hostname();
+    try {
+      const { stdout } = await execAsync(`docker inspect --format '{{json .NetworkSettings.Networks}}' ${self}`);
+      if (!(DOCKER_NETWORK in JSON.parse(stdout))) {
+        await execAsync(`docker network connect ${DOCKER_NETWORK} ${self}`);
+      }
+      this.networkAttached = true;
+      console.log(`[AppDeployment] Backend attache a ${DOCKER_NETWORK} (verification de sante sur le port interne)`);
+    } catch (error: any) {
+      console.warn(
+        `[AppDeployment] Attachement a ${DOCKER_NETWORK} impossible, verification de sante via ${config.deployProbeHost}:`,
+        error.stderr?.trim() || error.message
+      );
+    }
+  }
+
+  /**
+   * Regenere les routes du reverse proxy depuis les domaines des applications
+   * Erreur journalisee (false): les applications restent joignables par leur port
+   */
+  private syncProxyRoutes(): Promise<boolean> {
+    const routes = Array.from(this.apps.values())
+      .filter((app): app is AppConfig & { domain: string } => !!app.domain)
+      .map(proxyRoute);
+
+    return proxyService.sync(routes).then(() => true, (err: Error) => {
+      console.error('[Proxy] Erreur mise a jour des routes:', err.message);
+      return false;
+    });
+  }
+
+  // ============================================
+  // CRUD Applications
+  // ============================================
+
+  async createApp(request: CreateAppRequest): Promise<AppConfig> {
+    // Validation du nom
+    if (!request.name || request.name.length < 2) {
+      throw new Error('Le nom de l\'application doit contenir au moins 2 caracteres');
+    }
+
+    if (!/^[a-zA-Z0-9-_]+$/.test(request.name)) {
+      throw new Error('Le nom ne peut contenir que des lettres, chiffres, tirets et underscores');
+    }
+
+    // Validation du type
+    const template = templateService.getTemplate(request.type);
+    if (!template) {
+      throw new Error(`Type d'application non supporte: ${request.type}`);
+    }
+
+    if (request.deployStrategy !== undefined && !DEPLOY_STRATEGIES.includes(request.deployStrategy)) {
+      throw new Error(`Strategie de deploiement invalide: ${request.deployStrategy}`);
+    }
+    if (request.healthCheck) validateHealthCheck(request.healthCheck);
+    if (request.internalPort !== undefined) validateInternalPort(request.internalPort);
+    if (request.buildSource) validateBuildSource(request.buildSource);
+    validateStrategySource(request.deployStrategy, request.buildSource);
+    if (request.buildSource && request.buildSource.type !== 'template' && !request.git?.url && !request.gitUrl) {
+      throw new Error(BUILD_SOURCE_GIT_ERROR);
+    }
+
+    const parameterValues = normalizeParameters(template.parameters, request.parameters ?? {});
+    validateTemplates(template.parameters, parameterValues, [
+      request.dockerfile ?? template.dockerfile,
+      request.dockerCompose ?? template.dockerCompose,
+    ]);
+
+    const resources = request.resources ? normalizeResources(request.resources) : undefined;
+    if (resources) await validateHostCapacity(resources, Array.from(this.apps.values()));
+    const backupSchedule = request.backupSchedule ? normalizeBackupSchedule(request.backupSchedule) : undefined;
+    const domain = request.domain ? resolveDomain(request.domain, Array.from(this.apps.values())) : undefined;
+
+    // Construction de la config Git
+    let gitConfig: GitConfig | undefined;
+    
+    if (request.git?.url || request.gitUrl) {
+      const gitUrl = request.git?.url || request.gitUrl || '';
+      const gitBranch = request.git?.branch || request.gitBranch || 'main';
+      const isPrivate = request.git?.isPrivate ?? false;
+      const authMethod = request.git?.authMethod || (isPrivate ? 'token' : 'none');
+
+
+      gitConfig = {
+  url: gitUrl,
+  branch: gitBranch,
+  provider: detectGitProvider(gitUrl),
+  isPrivate,
+  authMethod,
+  ...(request.git?.accessToken && { accessToken: request.git.accessToken }),
+  ...(request.git?.username && { username: request.git.username }),
+  ...(request.git?.password && { password: request.git.password }),
+  ...(request.git?.sshPrivateKey && { sshPrivateKey: request.git.sshPrivateKey }),
+};
+
+      // gitConfig = {
+      //   url: gitUrl,
+      //   branch: gitBranch,
+      //   provider: detectGitProvider(gitUrl),
+      //   isPrivate,
+      //   authMethod,
+      //   accessToken: request.git?.accessToken,
+      //   username: request.git?.username,
+      //   password: request.git?.password,
+      //   sshPrivateKey: request.git?.sshPrivateKey,
+      // };
+
+      // Validation de la config Git
+      if (isPrivate) {
+        const validation = validateGitConfig(gitConfig);
+        if (!validation.valid) {
+          throw new Error(`Configuration Git invalide: ${validation.errors.join(', ')}`);
+        }
+      }
+
+      gitConfig = sealGitConfig(gitConfig);
+    }
+
+    // Allocation du port
+    const id = generateId();
+    const externalPort = await portManagerService.allocatePort(id, request.name);
+    const internalPort = request.internalPort ?? template.defaultInternalPort;
+
+    // Creation du repertoire
+    const appDirName = request.name.toLowerCase().replace(/[^a-z0-9]/g, '-');
+    const appPath = path.join(APPS_ROOT, appDirName);
+
+    // Verifier si le nom existe deja
+    const existing = Array.from(this.apps.values()).find(
+      a => a.name.toLowerCase() === request.name.toLowerCase()
+    );
+    if (existing) {
+      throw new Error(`Une application avec le nom "${request.name}" existe deja`);
+    }
+
+    if (!ensureDirectoryExists(appPath)) {
+      throw new Error(`Impossible de creer le repertoire: ${appPath}`);
+    }
+
+    // Merge des variables d'environnement
+    const envVariables: EnvVariable[] = [
+      ...template.defaultEnvVariables,
+      ...sealEnvVariables(request.envVariables || []),
+      { key: 'APP_NAME', value: generateContainerName(request.name) },
+      { key: 'EXTERNAL_PORT', value: externalPort.toString() },
+      { key: 'INTERNAL_PORT', value: internalPort.toString() },
+    ];
+
+    const app: AppConfig = {
+  id,
+  name: request.name,
+  type: request.type,
+  internalPort,
+  externalPort,
+  path: appPath,
+  ...(gitConfig && { git: gitConfig }),
+  ...(gitConfig && { gitUrl: gitConfig.url }),
+  ...(gitConfig && { gitBranch: gitConfig.branch }),
+  envVariables,
+   ...(request.dockerfile || template.dockerfile
+    ? { dockerfile: request.dockerfile ?? template.dockerfile }
+    : {}),
+
+  ...(request.dockerCompose || template.dockerCompose
+    ? { dockerCompose: request.dockerCompose ?? template.dockerCompose }
+    : {}),
+
+  ...(request.buildCommand || template.buildCommand
+    ? { buildCommand: request.buildCommand ?? template.buildCommand }
     : {}),
 
   ...(request.startCommand || template.startCommand
@@ -412,7 +1648,17 @@ class AppDeploymentService extends EventEmitter {
   createdAt: new Date().toISOString(),
   updatedAt: new Date().toISOString(),
   containerName: generateContainerName(request.name),
-  ...(request.domain && { domain: request.domain }),
+  ...(domain && { domain }),
+  ...(request.deployStrategy && { deployStrategy: request.deployStrategy }),
+  ...(request.buildSource && request.buildSource.type !== 'template' && {
+    buildSource: normalizeBuildSource(request.buildSource),
+  }),
+  ...(Object.keys(parameterValues).length > 0 && { templateParameters: parameterValues }),
+  ...(isUserTemplate(template) && { templateVersion: template.version }),
+  ...(request.healthCheck && { healthCheck: request.healthCheck }),
+  ...(resources && { resources }),
+  ...(backupSchedule && { backupSchedule }),
+  webhookSecret: secretService.seal(generateWebhookSecret()),
 };
 
     // const app: AppConfig = {
@@ -440,50 +1686,95 @@ class AppDeploymentService extends EventEmitter {
     // Ecriture des fichiers
     await this.writeAppFiles(app);
 
+    appRepository.save(app);
     this.apps.set(id, app);
-    this.saveApps();
 
-    console.log(`[AppDeployment] Application creee: ${app.name} (${app.id})`);
-    return app;
+    console.log(`[AppDeployment] Application creee: ${app.name} (${app.id})`);
+    if (app.domain && acmeIneligibility(app.domain) === null) this.scheduleCertificate(app);
+    else if (app.domain) this.syncProxyRoutes();
+    return app;
+  }
+
+  /**
+   * Rend le docker-compose de l'application (nom du container et port externe du slot)
+   */
+  private renderCompose(app: AppConfig, appName: string, externalPort: number, imageTag?: string): string {
+    const source = app.buildSource?.type === 'dockerfile' ? dockerfileCompose(app.buildSource) : app.dockerCompose ?? '';
+    const compose = bindPublishedPort(
+      applyResourceLimits(renderTemplate(source, templateValues(app, appName, externalPort), 'compose'), app.resources),
+      app,
+      externalPort
+    );
+
+    return imageTag ? pinServiceImages(compose, imageRepository(app), imageTag) : compose;
   }
 
-  private async writeAppFiles(app: AppConfig): Promise<void> {
+  /**
+   * Ecrit Dockerfile, docker-compose.yml et .env dans le dossier de l'application
+   * imageTag fixe l'image des services construits (par defaut: l'image en cours)
+   */
+  private async writeAppFiles(app: AppConfig, imageTag = app.imageTag): Promise<void> {
     ensureDirectoryExists(app.path);
+    const sourceType = app.buildSource?.type ?? 'template';
 
-    if (app.dockerfile) {
-      fs.writeFileSync(path.join(app.path, 'Dockerfile'), app.dockerfile);
+    // Le Dockerfile du repository n'est jamais remplace
+    if (sourceType === 'template' && app.dockerfile) {
+      const values = templateValues(app, app.containerName || app.name, app.externalPort);
+      fs.writeFileSync(path.join(app.path, 'Dockerfile'), renderTemplate(app.dockerfile, values, 'dockerfile'));
     }
 
-    if (app.dockerCompose) {
-      // Remplacer les variables dans docker-compose
-      let compose = app.dockerCompose
-        .replace(/\$\{EXTERNAL_PORT\}/g, app.externalPort.toString())
-        .replace(/\$\{INTERNAL_PORT\}/g, app.internalPort.toString())
-        .replace(/\$\{APP_NAME\}/g, app.containerName || app.name);
-      
+    if (sourceType === 'compose') {
+      // Le fichier du repository n'existe qu'apres le premier checkout
+      const repositoryCompose = repositoryComposeFile(app);
+      if (fs.existsSync(repositoryCompose)) {
+        ensureDirectoryExists(path.join(app.path, '.docktor'));
+        fs.writeFileSync(
+          path.join(app.path, COMPOSE_OVERRIDE_FILE),
+          renderComposeOverride(app, fs.readFileSync(repositoryCompose, 'utf-8'), imageTag)
+        );
+      }
+    } else if (sourceType === 'dockerfile' || app.dockerCompose) {
+      const compose = this.renderCompose(app, app.containerName || app.name, app.externalPort, imageTag);
       fs.writeFileSync(path.join(app.path, 'docker-compose.yml'), compose);
     }
 
-    const envContent = app.envVariables.map(v => `${v.key}=${v.value}`).join('\n');
+    const envContent = app.envVariables
+      .map(v => `${v.key}=${v.isSecret ? secretService.unseal(v.value) : v.value}`)
+      .join('\n');
     fs.writeFileSync(path.join(app.path, '.env'), envContent);
+
+    // Le .dockerignore du repository est conserve et complete
+    const dockerIgnoreFile = path.join(app.path, '.dockerignore');
+    const dockerIgnore = fs.existsSync(dockerIgnoreFile) ? fs.readFileSync(dockerIgnoreFile, 'utf-8') : '';
+    const entries = new Set(dockerIgnore.split('\n').map(l => l.trim()));
+    const missing = DOCKER_IGNORE_ENTRIES.filter(e => !entries.has(e) && !entries.has(`/${e}`));
+    if (missing.length > 0) {
+      const prefix = dockerIgnore && !dockerIgnore.endsWith('\n') ? `${dockerIgnore}\n` : dockerIgnore;
+      fs.writeFileSync(dockerIgnoreFile, `${prefix}${missing.join('\n')}\n`);
+    }
   }
 
   async updateApp(appId: string, request: UpdateAppRequest): Promise<AppConfig> {
     const app = this.apps.get(appId);
     if (!app) throw new Error(`Application non trouvee: ${appId}`);
 
-    if (request.name !== undefined) app.name = request.name;
-    if (request.envVariables !== undefined) app.envVariables = request.envVariables;
-    if (request.dockerfile !== undefined) app.dockerfile = request.dockerfile;
-    if (request.dockerCompose !== undefined) app.dockerCompose = request.dockerCompose;
-    if (request.buildCommand !== undefined) app.buildCommand = request.buildCommand;
-    if (request.startCommand !== undefined) app.startCommand = request.startCommand;
-    if (request.domain !== undefined) app.domain = request.domain;
+    // Toutes les validations precedent la premiere modification de l'application
+    if (request.internalPort !== undefined) validateInternalPort(request.internalPort);
+    if (request.buildSource !== undefined) validateBuildSource(request.buildSource);
+    if (request.deployStrategy !== undefined && !DEPLOY_STRATEGIES.includes(request.deployStrategy)) {
+      throw new Error(`Strategie de deploiement invalide: ${request.deployStrategy}`);
+    }
+    validateStrategySource(request.deployStrategy ?? app.deployStrategy, request.buildSource ?? app.buildSource);
+    if (request.buildSource && request.buildSource.type !== 'template' && !app.git && !request.git?.url) {
+      throw new Error(BUILD_SOURCE_GIT_ERROR);
+    }
+    if (request.healthCheck) validateHealthCheck(request.healthCheck);
 
     // Mise a jour Git
+    let git: GitConfig | undefined;
     if (request.git) {
       const currentGit = app.git || {} as GitConfig;
-      app.git = {
+      git = {
   ...currentGit,
   url: request.git.url ?? currentGit.url,
   branch: request.git.branch ?? currentGit.branch ?? 'main',
@@ -493,16 +1784,17 @@ class AppDeploymentService extends EventEmitter {
   isPrivate: request.git.isPrivate ?? currentGit.isPrivate ?? false,
   authMethod: request.git.authMethod ?? currentGit.authMethod ?? 'none',
 
-  ...(request.git.accessToken !== undefined && {
+  // Le placeholder renvoye par l'API conserve le secret existant
+  ...(request.git.accessToken !== undefined && request.git.accessToken !== SECRET_PLACEHOLDER && {
     accessToken: request.git.accessToken,
   }),
   ...(request.git.username !== undefined && {
     username: request.git.username,
   }),
-  ...(request.git.password !== undefined && {
+  ...(request.git.password !== undefined && request.git.password !== SECRET_PLACEHOLDER && {
     password: request.git.password,
   }),
-  ...(request.git.sshPrivateKey !== undefined && {
+  ...(request.git.sshPrivateKey !== undefined && request.git.sshPrivateKey !== SECRET_PLACEHOLDER && {
     sshPrivateKey: request.git.sshPrivateKey,
   }),
 };
@@ -521,13 +1813,95 @@ class AppDeploymentService extends EventEmitter {
       // };
 
       // Validation si prive
-      if (app.git?.isPrivate) {
+      if (git.isPrivate) {
         
-        const validation = validateGitConfig(app.git ?? {});
+        const validation = validateGitConfig(git);
         if (!validation.valid) {
           throw new Error(`Configuration Git invalide: ${validation.errors.join(', ')}`);
         }
       }
+    }
+
+    const parameterValues = request.parameters !== undefined
+      ? normalizeParameters(templateParameters(app), request.parameters)
+      : app.templateParameters ?? {};
+    if (request.parameters !== undefined || request.dockerfile !== undefined || request.dockerCompose !== undefined) {
+      validateTemplates(templateParameters(app), parameterValues, [
+        request.dockerfile ?? app.dockerfile,
+        request.dockerCompose ?? app.dockerCompose,
+      ]);
+    }
+
+    // null supprime les limites, la planification; un domaine vide supprime le domaine
+    const resources = request.resources ? normalizeResources(request.resources) : undefined;
+    const backupSchedule = request.backupSchedule ? normalizeBackupSchedule(request.backupSchedule) : undefined;
+    const domain = request.domain
+      ? resolveDomain(request.domain, Array.from(this.apps.values()).filter(a => a.id !== app.id))
+      : undefined;
+    const previousDomain = app.domain;
+    const domainChanged = request.domain !== undefined && domain !== previousDomain;
+    if (domainChanged && this.certificateJobs.has(app.id)) {
+      throw new Error(CERTIFICATE_BUSY_ERROR);
+    }
+    if (resources) {
+      await validateHostCapacity(resources, Array.from(this.apps.values()).filter(a => a.id !== app.id));
+    }
+    if (request.name !== undefined) {
+      const name = request.name;
+      const existing = Array.from(this.apps.values()).find(
+        a => a.id !== app.id && a.name.toLowerCase() === name.toLowerCase()
+      );
+      if (existing) {
+        throw new Error(`Une application avec le nom "${name}" existe deja`);
+      }
+    }
+
+    if (request.name !== undefined) app.name = request.name;
+    if (request.envVariables !== undefined) {
+      app.envVariables = sealEnvVariables(request.envVariables, app.envVariables);
+    }
+    if (request.internalPort !== undefined) {
+      const internalPort = request.internalPort.toString();
+      app.internalPort = request.internalPort;
+      app.envVariables = app.envVariables.map(v => (v.key === 'INTERNAL_PORT' ? { ...v, value: internalPort } : v));
+    }
+    if (request.buildSource !== undefined) {
+      if (request.buildSource.type === 'template') delete app.buildSource;
+      else app.buildSource = normalizeBuildSource(request.buildSource);
+    }
+    if (request.parameters !== undefined) {
+      if (Object.keys(parameterValues).length === 0) delete app.templateParameters;
+      else app.templateParameters = parameterValues;
+    }
+    if (request.resources !== undefined) {
+      if (resources) app.resources = resources;
+      else delete app.resources;
+    }
+    if (request.backupSchedule !== undefined) {
+      if (backupSchedule) app.backupSchedule = backupSchedule;
+      else delete app.backupSchedule;
+    }
+    if (request.dockerfile !== undefined) app.dockerfile = request.dockerfile;
+    if (request.dockerCompose !== undefined) app.dockerCompose = request.dockerCompose;
+    if (request.buildCommand !== undefined) app.buildCommand = request.buildCommand;
+    if (request.startCommand !== undefined) app.startCommand = request.startCommand;
+    if (domainChanged) {
+      delete app.certificate;
+
+      if (domain) app.domain = domain;
+      else delete app.domain;
+    }
+    if (request.deployStrategy !== undefined) app.deployStrategy = request.deployStrategy;
+
+    // null supprime la verification configuree
+    if (request.healthCheck === null) {
+      delete app.healthCheck;
+    } else if (request.healthCheck !== undefined) {
+      app.healthCheck = request.healthCheck;
+    }
+
+    if (git) {
+      app.git = sealGitConfig(git);
 
       // Legacy
       app.gitUrl = app.git.url;
@@ -535,8 +1909,16 @@ class AppDeploymentService extends EventEmitter {
     }
 
     app.updatedAt = new Date().toISOString();
+    this.saveApp(app);
     await this.writeAppFiles(app);
-    this.saveApps();
+
+    if (previousDomain || app.domain) {
+      const synced = await this.syncProxyRoutes();
+
+      // Le certificat de l'ancien domaine n'est retire qu'une fois plus reference par le proxy
+      if (domainChanged && previousDomain && synced) certificateService.remove(previousDomain);
+    }
+    if (app.domain && !app.certificate && acmeIneligibility(app.domain) === null) this.scheduleCertificate(app);
 
     return app;
   }
@@ -545,30 +1927,326 @@ class AppDeploymentService extends EventEmitter {
     const app = this.apps.get(appId);
     if (!app) throw new Error(`Application non trouvee: ${appId}`);
 
+    if (Array.from(this.deployments.values()).some(d => d.appId === appId)) {
+      throw new Error('Un deploiement est en cours ou en attente: annulez-le avant de supprimer l\'application');
+    }
+    if (this.certificateJobs.has(appId)) throw new Error(CERTIFICATE_BUSY_ERROR);
+
     if (app.status === 'running') {
       await this.stopApp(appId);
     }
 
+    if (app.blueGreen) {
+      await this.teardownBlueGreen(app);
+    }
+
     try {
-      await execDockerCompose(['-f', path.join(app.path, 'docker-compose.yml'), 'down', '--rmi', 'local', '-v'], { cwd: app.path });
+      await execDockerCompose([...composeFileArgs(app), 'down', '--rmi', 'local', '-v'], { cwd: app.path });
     } catch {}
 
+    for (const addon of app.addons ?? []) {
+      await addonService.remove(addon, false);
+    }
+
+    // Images conservees pour le rollback
+    for (const tag of deploymentRepository.findRetainedTags(appId)) {
+      await this.removeImages(app, tag);
+    }
+
     portManagerService.releasePort(appId);
 
     if (fs.existsSync(app.path)) {
       fs.rmSync(app.path, { recursive: true, force: true });
     }
 
+    transaction(() => {
+      appRepository.delete(appId);
+      deploymentRepository.deleteByApp(appId);
+    });
     this.apps.delete(appId);
-    this.saveApps();
+    if (app.domain) {
+      certificateService.remove(app.domain);
+      this.syncProxyRoutes();
+    }
     console.log(`[AppDeployment] Application supprimee: ${app.name}`);
+    if (backupService.listBackups(appId).length > 0) {
+      console.log(`[AppDeployment] Sauvegardes de ${app.name} conservees (${appId})`);
+    }
+  }
+
+  // ============================================
+  // Add-ons
+  // ============================================
+
+  getAddons(appId: string): AppAddon[] {
+    const app = this.apps.get(appId);
+    if (!app) throw new Error(`Application non trouvee: ${appId}`);
+    return app.addons ?? [];
+  }
+
+  /**
+   * Provisionne une base de donnees et injecte ses variables de connexion
+   * Les variables de meme nom deja definies sont remplacees; effectif au prochain demarrage
+   */
+  async addAddon(appId: string, request: CreateAddonRequest): Promise<AppAddon> {
+    const app = this.apps.get(appId);
+    if (!app) throw new Error(`Application non trouvee: ${appId}`);
+
+    const { addon, envVariables } = await addonService.provision(app, request);
+
+    app.envVariables = [
+      ...app.envVariables.filter(v => !addon.envKeys.includes(v.key)),
+      ...sealEnvVariables(envVariables),
+    ];
+    app.addons = [...(app.addons ?? []), addon];
+    app.updatedAt = new Date().toISOString();
+    this.saveApp(app);
+    await this.writeAppFiles(app);
+
+    return addon;
+  }
+
+  /**
+   * Supprime un add-on et ses variables; keepData conserve le volume des donnees
+   */
+  async removeAddon(appId: string, addonId: string, keepData = false): Promise<void> {
+    const app = this.apps.get(appId);
+    if (!app) throw new Error(`Application non trouvee: ${appId}`);
+
+    const addon = app.addons?.find(a => a.id === addonId);
+    if (!addon) throw new Error(`Add-on non trouve: ${addonId}`);
+
+    await addonService.remove(addon, keepData);
+
+    app.envVariables = app.envVariables.filter(v => !addon.envKeys.includes(v.key));
+    const addons = (app.addons ?? []).filter(a => a.id !== addonId);
+    if (addons.length > 0) app.addons = addons;
+    else delete app.addons;
+    app.updatedAt = new Date().toISOString();
+    this.saveApp(app);
+    await this.writeAppFiles(app);
+  }
+
+  // ============================================
+  // Sauvegardes
+  // ============================================
+
+  getBackups(appId: string): Backup[] {
+    if (!this.apps.has(appId)) throw new Error(`Application non trouvee: ${appId}`);
+    return backupService.listBackups(appId);
+  }
+
+  /**
+   * Sauvegarde les volumes de l'application (principal et slots blue/green) et les bases de ses add-ons
+   */
+  async createBackup(appId: string, trigger: Backup['trigger'] = 'manual'): Promise<Backup> {
+    const app = this.apps.get(appId);
+    if (!app) throw new Error(`Application non trouvee: ${appId}`);
+
+    const projects = [path.basename(app.path), slotProject(app, 'blue'), slotProject(app, 'green')];
+    const backup = await backupService.createBackup(app, projects, trigger);
+
+    if (trigger === 'scheduled' && app.backupSchedule?.retention) {
+      backupService.pruneBackups(appId, app.backupSchedule.retention);
+    }
+    return backup;
+  }
+
+  /**
+   * Restaure une sauvegarde, application arretee puis redemarree si elle tournait
+   * Apres un echec (restauration partielle), l'application reste arretee
+   */
+  async restoreBackup(appId: string, backupId: string): Promise<void> {
+    const app = this.apps.get(appId);
+    if (!app) throw new Error(`Application non trouvee: ${appId}`);
+
+    if (Array.from(this.deployments.values()).some(d => d.appId === appId)) {
+      throw new Error('Un deploiement est en cours ou en attente: annulez-le avant de restaurer');
+    }
+
+    const backup = backupService.getBackup(appId, backupId);
+    const wasRunning = app.status === 'running';
+    if (wasRunning) await this.stopApp(appId);
+
+    try {
+      await backupService.restoreBackup(app, backup);
+    } catch (error: any) {
+      console.error(`[AppDeployment] Restauration ${backupId} echouee pour ${app.name}:`, error.message);
+      throw new Error(wasRunning
+        ? `${error.message} (l'application reste arretee)`
+        : error.message);
+    }
+
+    if (wasRunning) await this.startApp(appId);
+  }
+
+  deleteBackup(appId: string, backupId: string): void {
+    if (!this.apps.has(appId)) throw new Error(`Application non trouvee: ${appId}`);
+    backupService.deleteBackup(appId, backupId);
+  }
+
+  /**
+   * Lance les sauvegardes dont l'expression cron correspond a la minute courante
+   */
+  private runScheduledBackups(): void {
+    const now = new Date();
+    const minute = now.toISOString().slice(0, 16);
+
+    for (const app of this.apps.values()) {
+      if (!app.backupSchedule || this.lastScheduledBackup.get(app.id) === minute) continue;
+      if (!cronMatches(app.backupSchedule.cron, now)) continue;
+
+      this.lastScheduledBackup.set(app.id, minute);
+      this.createBackup(app.id, 'scheduled').catch(err => {
+        console.error(`[AppDeployment] Sauvegarde planifiee de ${app.name} echouee: ${err.message}`);
+      });
+    }
+  }
+
+  // ============================================
+  // Certificats TLS
+  // ============================================
+
+  /**
+   * Emission ou renouvellement immediat du certificat ACME du domaine
+   */
+  async renewCertificate(appId: string): Promise<AppCertificate> {
+    const app = this.apps.get(appId);
+    if (!app) throw new Error(`Application non trouvee: ${appId}`);
+    if (!app.domain) throw new Error('Aucun domaine configure pour cette application');
+    if (app.certificate?.source === 'custom') {
+      throw new Error('Certificat importe: supprimez-le pour revenir a l\'emission automatique');
+    }
+    const ineligible = acmeIneligibility(app.domain);
+    if (ineligible) throw new Error(ineligible);
+
+    const certificate = await this.issueCertificate(app);
+    if (certificate.lastError) throw new Error(`Emission du certificat echouee: ${certificate.lastError}`);
+    return currentCertificate(certificate);
+  }
+
+  /**
+   * Importe un certificat pour le domaine (jamais renouvele par Docktor)
+   */
+  async uploadCertificate(appId: string, request: UploadCertificateRequest): Promise<AppCertificate> {
+    const app = this.apps.get(appId);
+    if (!app) throw new Error(`Application non trouvee: ${appId}`);
+    if (!app.domain) throw new Error('Aucun domaine configure pour cette application');
+    if (this.certificateJobs.has(appId)) throw new Error(CERTIFICATE_BUSY_ERROR);
+    if (!request.certificate || !request.privateKey) throw new Error('Certificat et cle privee requis');
+
+    const details = certificateService.install(app.domain, request.certificate, request.privateKey);
+    app.certificate = { domain: app.domain, source: 'custom', status: certificateStatus(details.notAfter), ...details };
+    app.updatedAt = new Date().toISOString();
+    this.saveApp(app);
+    await this.syncProxyRoutes();
+
+    return app.certificate;
+  }
+
+  /**
+   * Supprime le certificat installe; le domaine repasse en emission ACME
+   */
+  async deleteCertificate(appId: string): Promise<void> {
+    const app = this.apps.get(appId);
+    if (!app) throw new Error(`Application non trouvee: ${appId}`);
+    if (!app.domain || !app.certificate) throw new Error('Aucun certificat pour cette application');
+    if (this.certificateJobs.has(appId)) throw new Error(CERTIFICATE_BUSY_ERROR);
+
+    delete app.certificate;
+    app.updatedAt = new Date().toISOString();
+    this.saveApp(app);
+    certificateService.remove(app.domain);
+    if (acmeIneligibility(app.domain) === null) this.scheduleCertificate(app);
+    else await this.syncProxyRoutes();
+  }
+
+  /**
+   * Renouvelle les certificats ACME qui expirent bientot, reessaie les emissions echouees
+   */
+  private renewCertificates(): void {
+    for (const app of this.apps.values()) {
+      if (!app.domain || app.certificate?.source === 'custom' || acmeIneligibility(app.domain) !== null) continue;
+
+      const certificate = app.certificate && currentCertificate(app.certificate);
+      if (certificate?.status === 'valid') continue;
+
+      // Echec recent: le certificat precedent (s'il existe) reste servi jusqu'a la prochaine tentative
+      const lastAttempt = certificate?.lastAttemptAt ? new Date(certificate.lastAttemptAt).getTime() : 0;
+      if (certificate?.lastError && Date.now() - lastAttempt < CERTIFICATE_RETRY_DELAY) continue;
+
+      this.scheduleCertificate(app);
+    }
+  }
+
+  private scheduleCertificate(app: AppConfig): void {
+    this.issueCertificate(app).catch((err: Error) => {
+      console.error(`[Certificates] Erreur emission ${app.name}:`, err.message);
+    });
+  }
+
+  /**
+   * Emet le certificat ACME du domaine (une emission en cours est partagee)
+   * Le challenge HTTP-01 est servi par le proxy: la route est en place avant la demande
+   */
+  private issueCertificate(app: AppConfig): Promise<AppCertificate> {
+    const running = this.certificateJobs.get(app.id);
+    if (running) return running;
+
+    const job = this.runCertificateIssuance(app).finally(() => this.certificateJobs.delete(app.id));
+    this.certificateJobs.set(app.id, job);
+    return job;
+  }
+
+  private async runCertificateIssuance(app: AppConfig): Promise<AppCertificate> {
+    const domain = app.domain;
+    if (!domain) throw new Error('Aucun domaine configure pour cette application');
+
+    const attemptedAt = new Date().toISOString();
+    if (!app.certificate) {
+      app.certificate = { domain, source: 'acme', status: 'pending' };
+      this.persistAppState(app);
+    }
+
+    await this.syncProxyRoutes();
+
+    try {
+      const details = await certificateService.issue(domain);
+      app.certificate = {
+        domain,
+        source: 'acme',
+        status: certificateStatus(details.notAfter),
+        ...details,
+        lastAttemptAt: attemptedAt,
+      };
+    } catch (err: any) {
+      const installed = certificateService.read(domain);
+      app.certificate = {
+        domain,
+        source: 'acme',
+        status: installed ? certificateStatus(installed.notAfter) : 'failed',
+        ...installed,
+        lastAttemptAt: attemptedAt,
+        lastError: err.message,
+      };
+      console.error(`[Certificates] Emission echouee pour ${domain}:`, err.message);
+    }
+
+    this.persistAppState(app);
+    await this.syncProxyRoutes();
+    return app.certificate;
   }
 
   // ============================================
   // Deploiement
   // ============================================
 
-  async deployApp(appId: string, force = false): Promise<Deployment> {
+  /**
+   * Met un deploiement en file d'attente
+   * Le build reutilise le cache Docker sauf avec force (nettoyage complet) ou noCache
+   * ref (branche, tag, SHA, refs/pull/N/head) est verifiee sur le remote avant la mise en file
+   */
+  async deployApp(appId: string, force = false, noCache = false, ref?: string): Promise<Deployment> {
     const app = this.apps.get(appId);
     if (!app) throw new Error(`Application non trouvee: ${appId}`);
 
@@ -580,28 +2258,126 @@ class AppDeploymentService extends EventEmitter {
       }
     }
 
+    let resolvedRef: string | null = null;
+    if (ref !== undefined) {
+      if (!app.git) throw new Error('Aucun repository Git configure pour cette application');
+      if (!GIT_REF_PATTERN.test(ref)) throw new Error(`Ref invalide: ${ref}`);
+
+      resolvedRef = resolveGitRef(await listRemoteRefs(revealGitConfig(app.git)), ref);
+      if (resolvedRef === null) throw new Error(`Ref "${ref}" non trouvee dans le repository`);
+    }
+
     const deployment: Deployment = {
-      id: `deploy-${Date.now()}`,
+      id: generateDeploymentId(),
       appId,
-      status: 'pending',
+      status: 'queued',
       startedAt: new Date().toISOString(),
       logs: [],
+      ...(resolvedRef !== null && { ref: resolvedRef }),
     };
 
+    deploymentRepository.create(deployment);
     this.deployments.set(deployment.id, deployment);
-    app.status = 'building';
-    // app.lastError = undefined;
-    this.saveApps();
 
-
-    this.executeDeployment(app, deployment, force);
+    this.enqueueDeployment(app, deployment, signal => this.executeDeployment(app, deployment, { force, noCache }, signal));
     return deployment;
   }
 
-  private async executeDeployment(app: AppConfig, deployment: Deployment, force: boolean): Promise<void> {
+  /**
+   * Branches et tags du repository de l'application (selection de la ref a deployer)
+   */
+  async listGitRefs(appId: string): Promise<GitRefs> {
+    const app = this.apps.get(appId);
+    if (!app) throw new Error(`Application non trouvee: ${appId}`);
+    if (!app.git) throw new Error('Aucun repository Git configure pour cette application');
+
+    return toGitRefs(await listRemoteRefs(revealGitConfig(app.git)));
+  }
+
+  // ============================================
+  // File d'attente
+  // ============================================
+
+  /**
+   * Ajoute un deploiement a la file d'attente
+   * Il demarre des qu'un emplacement est libre et qu'aucun autre deploiement de l'application n'est actif
+   */
+  private enqueueDeployment(app: AppConfig, deployment: Deployment, run: DeploymentJob['run']): void {
+    this.deploymentQueue.push({ app, deployment, controller: new AbortController(), run });
+    this.runQueue();
+
+    if (deployment.status === 'queued') {
+      const position = this.deploymentQueue.findIndex(j => j.deployment.id === deployment.id) + 1;
+      console.log(`[AppDeployment] ${deployment.id} en file d'attente (position ${position})`);
+    }
+  }
+
+  /**
+   * Demarre les deploiements en attente dans la limite de concurrence
+   */
+  private runQueue(): void {
+    while (this.runningJobs.size < config.deployConcurrency) {
+      const busyApps = new Set(Array.from(this.runningJobs.values(), j => j.app.id));
+      const index = this.deploymentQueue.findIndex(j => !busyApps.has(j.app.id));
+      if (index === -1) return;
+
+      const [job] = this.deploymentQueue.splice(index, 1);
+      if (!job) return;
+
+      this.runningJobs.set(job.deployment.id, job);
+      job.deployment.status = 'pending';
+      this.saveDeployment(job.deployment);
+      this.emit('deployment:status', { deploymentId: job.deployment.id, status: 'pending' });
+
+      job.run(job.controller.signal)
+        .catch((error: Error) => console.error(`[AppDeployment] Erreur deploiement ${job.deployment.id}:`, error.message))
+        .finally(() => {
+          this.runningJobs.delete(job.deployment.id);
+          this.runQueue();
+        });
+    }
+  }
+
+  /**
+   * Annule un deploiement en attente ou en cours
+   * Le processus en cours (git clone, build) est interrompu; le demarrage n'est plus annulable
+   */
+  cancelDeployment(deploymentId: string): Deployment {
+    const queuedIndex = this.deploymentQueue.findIndex(j => j.deployment.id === deploymentId);
+    if (queuedIndex !== -1) {
+      const [job] = this.deploymentQueue.splice(queuedIndex, 1);
+      if (job) {
+        this.createDeploymentTracker(job.app, job.deployment).setCancelled();
+        return job.deployment;
+      }
+    }
+
+    const job = this.runningJobs.get(deploymentId);
+    if (!job) throw new Error('Ce deploiement n\'est pas en cours');
+
+    if (job.deployment.status === 'starting') {
+      throw new Error('Le deploiement est en phase de demarrage et ne peut plus etre annule');
+    }
+
+    job.controller.abort();
+    return job.deployment;
+  }
+
+  /**
+   * Callbacks de suivi d'un deploiement: logs, changements d'etape, fin
+   */
+  private createDeploymentTracker(app: AppConfig, deployment: Deployment) {
+    const previousAppStatus = app.status;
+
     const addLog = (level: DeploymentLog['level'], message: string, step: string) => {
       const log: DeploymentLog = { timestamp: new Date().toISOString(), level, message, step };
       deployment.logs.push(log);
+
+      try {
+        deploymentRepository.appendLog(deployment.id, log);
+      } catch (err: any) {
+        console.error(`[AppDeployment] Erreur sauvegarde log ${deployment.id}:`, err.message);
+      }
       
       const prefix = `[Deploy:${app.name}]`;
       if (level === 'error') console.error(prefix, message);
@@ -611,16 +2387,87 @@ class AppDeploymentService extends EventEmitter {
       this.emit('deployment:log', { deploymentId: deployment.id, log });
     };
 
+    const setStatus = (status: DeploymentStatus) => {
+      deployment.status = status;
+      this.saveDeployment(deployment);
+      this.emit('deployment:status', { deploymentId: deployment.id, status });
+    };
+
     const setError = (message: string) => {
       deployment.status = 'failed';
       deployment.finishedAt = new Date().toISOString();
       deployment.error = message;
-      app.status = 'failed';
+      // En blue/green l'ancien slot continue de servir le trafic
+      app.status = app.deployStrategy === 'bluegreen' && app.blueGreen ? 'running' : 'failed';
       app.lastError = message;
-      this.saveApps();
+      this.saveDeployment(deployment);
+      this.deployments.delete(deployment.id);
+      this.persistAppState(app);
+      this.pruneDeploymentHistory(app.id);
       this.emit('deployment:failed', { deploymentId: deployment.id, error: message });
+      discardRelease();
     };
 
+    // Les fichiers reprennent l'image en cours, l'image construite est abandonnee
+    const discardRelease = () => {
+      this.writeAppFiles(app).catch(() => {});
+      if (!deployment.rollbackOf && deployment.imageRetained && deployment.imageTag && deployment.imageTag !== app.imageTag) {
+        this.releaseImage(app, deployment.imageTag).catch(() => {});
+      }
+    };
+
+    const setCancelled = () => {
+      const started = deployment.status !== 'queued';
+      if (started) addLog('warn', '✗ Deploiement annule', 'cancel');
+
+      deployment.status = 'cancelled';
+      deployment.finishedAt = new Date().toISOString();
+      deployment.error = 'Deploiement annule';
+      app.status = previousAppStatus;
+      this.saveDeployment(deployment);
+      this.deployments.delete(deployment.id);
+      this.persistAppState(app);
+      this.pruneDeploymentHistory(app.id);
+      this.emit('deployment:cancelled', { deploymentId: deployment.id });
+
+      // Un deploiement encore en attente n'a rien modifie
+      if (started) discardRelease();
+    };
+
+    const setSuccess = () => {
+      deployment.status = 'success';
+      deployment.finishedAt = new Date().toISOString();
+      app.status = 'running';
+      if (deployment.imageTag) app.imageTag = deployment.imageTag;
+      this.saveDeployment(deployment);
+      this.deployments.delete(deployment.id);
+      this.persistAppState(app);
+      this.pruneDeploymentHistory(app.id);
+      this.pruneImages(app).catch((err: Error) => {
+        console.error(`[AppDeployment] Erreur nettoyage images ${app.name}:`, err.message);
+      });
+      // Slot actif en blue/green
+      if (app.domain) this.syncProxyRoutes();
+      this.emit('deployment:success', { deploymentId: deployment.id, app });
+    };
+
+    return { addLog, setStatus, setError, setSuccess, setCancelled };
+  }
+
+  private async executeDeployment(
+    app: AppConfig,
+    deployment: Deployment,
+    { force, noCache }: { force: boolean; noCache: boolean },
+    signal: AbortSignal
+  ): Promise<void> {
+    const { addLog, setStatus, setError, setSuccess, setCancelled } = this.createDeploymentTracker(app, deployment);
+
+    // Un echec provoque par l'annulation termine le deploiement en annule
+    const fail = (message: string) => (signal.aborted ? setCancelled() : setError(message));
+
+    app.status = 'building';
+    this.persistAppState(app);
+
     try {
       addLog('info', '═══════════════════════════════════════', 'init');
       addLog('info', `Deploiement: ${app.name}`, 'init');
@@ -637,158 +2484,145 @@ class AppDeploymentService extends EventEmitter {
         addLog('info', `✓ Compose: ${compose.cmd}${compose.args.length ? ' ' + compose.args.join(' ') : ''}`, 'init');
       } catch (err: any) {
         addLog('error', `✗ Docker non accessible: ${err.message}`, 'init');
-        setError('Docker n\'est pas accessible. Verifiez que le socket Docker est monte.');
+        fail('Docker n\'est pas accessible. Verifiez que le socket Docker est monte.');
         return;
       }
 
-      // ===== CLONE GIT =====
+      // ===== CHECKOUT GIT =====
       if (app.git?.url || app.gitUrl) {
-        deployment.status = 'cloning';
+        setStatus('cloning');
         const gitUrl = app.git?.url || app.gitUrl || '';
         const gitBranch = app.git?.branch || app.gitBranch || 'main';
+        const gitRef = deployment.ref ?? gitBranch;
         const isPrivate = app.git?.isPrivate ?? false;
 
         addLog('info', '───────────────────────────────────────', 'clone');
-        addLog('info', 'Clonage du repository', 'clone');
+        addLog('info', 'Mise a jour du repository', 'clone');
         addLog('info', `URL: ${gitUrl.replace(/\/\/[^@]+@/, '//***@')}`, 'clone'); // Masquer les credentials
-        addLog('info', `Branche: ${gitBranch}`, 'clone');
+        addLog('info', deployment.ref ? `Ref: ${deployment.ref}` : `Branche: ${gitBranch}`, 'clone');
         addLog('info', `Prive: ${isPrivate ? 'Oui' : 'Non'}`, 'clone');
         if (app.git?.provider) addLog('info', `Provider: ${app.git.provider}`, 'clone');
 
-        // Nettoyage si force
+        // Nettoyage si force (le checkout est recree depuis zero)
         if (force && fs.existsSync(app.path)) {
           addLog('info', 'Nettoyage du repertoire (mode force)...', 'clone');
           const files = fs.readdirSync(app.path);
           for (const file of files) {
-            if (!['Dockerfile', 'docker-compose.yml', '.env'].includes(file)) {
+            if (!DOCKTOR_FILES.includes(file)) {
               fs.rmSync(path.join(app.path, file), { recursive: true, force: true });
             }
           }
         }
 
+        let sshKeyPath: string | null = null;
+
         try {
           // Configurer SSH si necessaire
-          let sshKeyPath: string | null = null;
           let gitEnv = { ...process.env };
 
           if (app.git?.authMethod === 'ssh' && app.git.sshPrivateKey) {
             addLog('info', 'Configuration SSH...', 'clone');
-            sshKeyPath = await setupSshForClone(app.git, app.path);
+            sshKeyPath = await setupSshForClone(revealGitConfig(app.git), app.path);
             if (sshKeyPath) {
               gitEnv.GIT_SSH_COMMAND = `ssh -i ${sshKeyPath} -o StrictHostKeyChecking=no -o UserKnownHostsFile=/dev/null`;
               addLog('info', '✓ Cle SSH configuree', 'clone');
             }
           }
 
-          // Construire l'URL avec auth
-          const cloneUrl = app.git ? buildGitCloneUrl(app.git) : gitUrl;
-          const sourceDir = path.join(app.path, 'source');
-
-          // Supprimer le dossier source s'il existe
-          if (fs.existsSync(sourceDir)) {
-            fs.rmSync(sourceDir, { recursive: true, force: true });
-          }
-
-          addLog('info', 'Clonage en cours...', 'clone');
-          
-          const cloneCmd = `git clone --depth 1 --branch ${gitBranch} "${cloneUrl}" "${sourceDir}"`;
-          
-          try {
-            await execAsync(cloneCmd, { 
-              timeout: 180000, // 3 minutes
-              env: gitEnv,
-              cwd: app.path
-            });
-          } catch (cloneErr: any) {
-            // Analyser l'erreur
-            const errMsg = cloneErr.message || cloneErr.stderr || '';
-            
-            if (errMsg.includes('Authentication failed') || errMsg.includes('could not read Username')) {
-              throw new Error('Echec d\'authentification. Verifiez vos identifiants (token, username/password, ou cle SSH).');
-            } else if (errMsg.includes('Repository not found') || errMsg.includes('does not exist')) {
-              throw new Error('Repository non trouve. Verifiez l\'URL et vos permissions d\'acces.');
-            } else if (errMsg.includes('Permission denied')) {
-              throw new Error('Permission refusee. Verifiez que le token/credentials a les droits de lecture sur le repository.');
-            } else if (errMsg.includes('Host key verification failed')) {
-              throw new Error('Verification de la cle SSH echouee. Verifiez votre cle privee.');
-            } else if (errMsg.includes('Could not resolve host')) {
-              throw new Error(`Impossible de resoudre l'hote. Verifiez l'URL du repository.`);
-            } else if (errMsg.includes('branch') && errMsg.includes('not found')) {
-              throw new Error(`Branche "${gitBranch}" non trouvee dans le repository.`);
-            }
-            
-            throw new Error(`Erreur de clonage: ${errMsg}`);
-          }
-
-          // Deplacer les fichiers
-          if (fs.existsSync(sourceDir)) {
-            const files = fs.readdirSync(sourceDir);
-            addLog('info', `${files.length} fichiers clones`, 'clone');
-            
-            for (const file of files) {
-              if (file !== '.git') {
-                const src = path.join(sourceDir, file);
-                const dest = path.join(app.path, file);
-                if (fs.existsSync(dest)) {
-                  fs.rmSync(dest, { recursive: true, force: true });
-                }
-                fs.renameSync(src, dest);
-              }
-            }
-            fs.rmSync(sourceDir, { recursive: true, force: true });
+          // Construire l'URL avec auth (passee a chaque fetch, jamais enregistree dans .git/config)
+          const fetchUrl = app.git ? buildGitCloneUrl(revealGitConfig(app.git)) : gitUrl;
+          const gitOptions = { timeout: 180000, env: gitEnv, cwd: app.path, signal }; // 3 minutes
+
+          // Checkout persistant: le repertoire de l'application est le depot Git
+          if (!fs.existsSync(path.join(app.path, '.git'))) {
+            addLog('info', 'Initialisation du checkout...', 'clone');
+            await execAsync('git init -q', gitOptions);
           }
 
-          // Nettoyer SSH
-          if (sshKeyPath) {
-            cleanupSshFiles(app.path);
+          addLog('info', 'Recuperation des changements...', 'clone');
+
+          try {
+            await execFileAsync('git', ['fetch', '--depth', '1', '--', fetchUrl, gitRef], gitOptions);
+          } catch (fetchErr: any) {
+            if (signal.aborted) throw new Error('Clonage interrompu');
+
+            throw new Error(describeGitError(fetchErr.message || fetchErr.stderr || '', fetchUrl, gitUrl, gitRef));
           }
 
-          addLog('success', '✓ Repository clone avec succes', 'clone');
+          // Alignement sur la ref: tout fichier absent du commit est supprime, y compris les fichiers
+          // ignores par le depot et les depots imbriques (-ff); seuls ceux de Docktor sont conserves
+          await execAsync('git reset -q --hard FETCH_HEAD', gitOptions);
+          const { stdout: removed } = await execAsync(
+            `git clean -ffdx ${[...DOCKTOR_FILES, '.ssh'].map(f => `-e "${f}"`).join(' ')}`,
+            gitOptions
+          );
+          const removedCount = removed.split('\n').filter(l => l.startsWith('Removing')).length;
+          if (removedCount > 0) addLog('info', `${removedCount} fichier(s) obsolete(s) supprime(s)`, 'clone');
+
+          // Commit deploye
+          const { stdout: commitInfo } = await execAsync('git log -1 --format="%H%n%an <%ae>%n%s"', gitOptions);
+          const [sha = '', author = '', ...subject] = commitInfo.trim().split('\n');
+          deployment.commitSha = sha;
+          deployment.commitAuthor = author;
+          deployment.commitMessage = subject.join('\n');
+          this.saveDeployment(deployment);
+
+          addLog('info', `Commit: ${sha.slice(0, 7)} - ${deployment.commitMessage}`, 'clone');
+          addLog('info', `Auteur: ${author}`, 'clone');
+          addLog('success', '✓ Repository a jour', 'clone');
 
         } catch (cloneError: any) {
           addLog('error', `✗ ${cloneError.message}`, 'clone');
-          setError(cloneError.message);
+          fail(cloneError.message);
           return;
+        } finally {
+          // Nettoyer SSH
+          if (sshKeyPath) {
+            cleanupSshFiles(app.path);
+          }
         }
       }
 
       // Reecrire les fichiers Docker (peuvent etre ecrases par le clone)
-      await this.writeAppFiles(app);
+      // avec le tag de la nouvelle image
+      deployment.imageTag = generateImageTag(deployment.commitSha);
+      this.saveDeployment(deployment);
+      await this.writeAppFiles(app, deployment.imageTag);
 
       // ===== VERIFICATION FICHIERS =====
       addLog('info', '───────────────────────────────────────', 'config');
       addLog('info', 'Verification des fichiers...', 'config');
       
-      const composeFile = path.join(app.path, 'docker-compose.yml');
-      const dockerFile = path.join(app.path, 'Dockerfile');
-
-      if (!fs.existsSync(composeFile)) {
-        addLog('error', '✗ docker-compose.yml manquant', 'config');
-        setError('Fichier docker-compose.yml manquant');
-        return;
-      }
-      addLog('info', '✓ docker-compose.yml', 'config');
-
-      if (!fs.existsSync(dockerFile)) {
-        addLog('error', '✗ Dockerfile manquant', 'config');
-        setError('Fichier Dockerfile manquant');
-        return;
+      for (const file of requiredBuildFiles(app)) {
+        if (!fs.existsSync(path.join(app.path, file))) {
+          addLog('error', `✗ ${file} manquant`, 'config');
+          fail(`Fichier ${file} manquant`);
+          return;
+        }
+        addLog('info', `✓ ${file}`, 'config');
       }
-      addLog('info', '✓ Dockerfile', 'config');
 
       // ===== BUILD =====
-      deployment.status = 'building';
+      setStatus('building');
       addLog('info', '───────────────────────────────────────', 'build');
       addLog('info', 'Construction de l\'image Docker...', 'build');
 
       const compose = await detectDockerCompose();
-      const buildArgs = [...compose.args, '-f', composeFile, 'build', '--no-cache'];
+      if (app.buildSource?.type === 'compose') assertComposeOverrideSupport(compose);
+      const skipCache = force || noCache;
+      const buildArgs = [...compose.args, ...composeFileArgs(app), 'build', ...(skipCache ? ['--no-cache'] : [])];
       
       addLog('info', `Commande: ${compose.cmd} ${buildArgs.join(' ')}`, 'build');
+      addLog('info', skipCache ? 'Cache: desactive (reconstruction complete)' : 'Cache: active', 'build');
 
+      signal.throwIfAborted();
+      const buildStartedAt = Date.now();
+      const cacheTracker = new BuildCacheTracker();
       const buildProcess = spawn(compose.cmd, buildArgs, {
         cwd: app.path,
-        env: { ...process.env, DOCKER_BUILDKIT: '1' }
+        // Sortie plain: une ligne par etape, avec les etapes reprises du cache (CACHED)
+        env: { ...process.env, DOCKER_BUILDKIT: '1', COMPOSE_DOCKER_CLI_BUILD: '1', BUILDKIT_PROGRESS: 'plain' },
+        signal,
       });
 
       let buildOutput = '';
@@ -798,6 +2632,7 @@ class AppDeploymentService extends EventEmitter {
           const lines = data.toString().split('\n').filter((l: string) => l.trim());
           lines.forEach((line: string) => {
             buildOutput += line + '\n';
+            cacheTracker.track(line);
             addLog('info', line, 'build');
           });
         });
@@ -806,12 +2641,13 @@ class AppDeploymentService extends EventEmitter {
           const lines = data.toString().split('\n').filter((l: string) => l.trim());
           lines.forEach((line: string) => {
             buildOutput += line + '\n';
+            cacheTracker.track(line);
             addLog('info', line, 'build');
           });
         });
 
         buildProcess.on('error', (err) => {
-          reject(new Error(`Erreur d'execution: ${err.message}`));
+          reject(new Error(signal.aborted ? 'Build interrompu' : `Erreur d'execution: ${err.message}`));
         });
 
         buildProcess.on('close', (code) => {
@@ -835,48 +2671,451 @@ class AppDeploymentService extends EventEmitter {
         });
       });
 
+      deployment.build = {
+        durationMs: Date.now() - buildStartedAt,
+        noCache: skipCache,
+        cachedSteps: cacheTracker.cachedSteps,
+        totalSteps: cacheTracker.totalSteps,
+      };
+      addLog(
+        'info',
+        `Duree du build: ${(deployment.build.durationMs / 1000).toFixed(1)}s` +
+        ` | Cache: ${deployment.build.cachedSteps}/${deployment.build.totalSteps} etape(s)`,
+        'build'
+      );
+
+      // Image disponible pour un futur rollback
+      deployment.imageRetained = true;
+      addLog('info', `Image: ${imageRepository(app)}-*:${deployment.imageTag}`, 'build');
+
       // ===== DEMARRAGE =====
-      deployment.status = 'starting';
+      // Derniere occasion d'annuler: le demarrage remplace la version en cours
+      signal.throwIfAborted();
+      setStatus('starting');
       addLog('info', '───────────────────────────────────────', 'start');
       addLog('info', 'Demarrage du container...', 'start');
 
-      // Arreter l'ancien container
-      try {
-        addLog('info', 'Arret des anciens containers...', 'start');
-        await execDockerCompose(['-f', composeFile, 'down'], { cwd: app.path });
-      } catch {}
-
-      // Demarrer
-      addLog('info', 'Lancement du nouveau container...', 'start');
-      await execDockerCompose(['-f', composeFile, 'up', '-d'], { cwd: app.path });
-
-      // Recuperer l'ID
-      const { stdout: containerId } = await execDockerCompose(['-f', composeFile, 'ps', '-q'], { cwd: app.path });
-      app.containerId = containerId.trim();
+      await this.activateRelease(app, deployment.imageTag, addLog);
 
       addLog('success', '✓ Container demarre', 'start');
       addLog('info', `Container ID: ${app.containerId || 'N/A'}`, 'start');
       addLog('info', `Accessible sur le port: ${app.externalPort}`, 'start');
+      if (app.domain) addLog('info', `Domaine: http://${app.domain}`, 'start');
 
       // ===== SUCCES =====
       addLog('info', '═══════════════════════════════════════', 'done');
       addLog('success', '✓ DEPLOIEMENT REUSSI', 'done');
       addLog('info', '═══════════════════════════════════════', 'done');
 
-      deployment.status = 'success';
-      deployment.finishedAt = new Date().toISOString();
-      app.status = 'running';
-      // app.lastError = undefined;
-      this.saveApps();
+      setSuccess();
 
-      this.emit('deployment:success', { deploymentId: deployment.id, app });
+    } catch (error: any) {
+      if (!signal.aborted) addLog('error', `✗ Erreur: ${error.message}`, 'error');
+      fail(error.message);
+    }
+  }
+
+  // ============================================
+  // Strategies de demarrage
+  // ============================================
+
+  /**
+   * Demarre une version construite selon la strategie de l'application
+   * La version n'est consideree deployee qu'apres la verification de sante (etape verify)
+   */
+  private async activateRelease(app: AppConfig, imageTag: string | undefined, addLog: DeploymentLogger): Promise<void> {
+    if (app.deployStrategy === 'bluegreen' && imageTag) {
+      await this.activateBlueGreen(app, imageTag, addLog);
+    } else {
+      await this.activateRecreate(app, imageTag, addLog);
+    }
+  }
+
+  /**
+   * Strategie recreate: arret de l'ancien container puis demarrage du nouveau
+   */
+  private async activateRecreate(app: AppConfig, imageTag: string | undefined, addLog: DeploymentLogger): Promise<void> {
+    const composeArgs = composeFileArgs(app);
+
+    // Retour depuis blue/green: le proxy libere le port externe
+    if (app.blueGreen) {
+      addLog('info', 'Suppression des slots blue/green...', 'start');
+      await this.teardownBlueGreen(app);
+    }
+
+    await this.writeAppFiles(app, imageTag);
+
+    try {
+      addLog('info', 'Arret des anciens containers...', 'start');
+      // --remove-orphans: services d'une precedente source de build
+      await execDockerCompose([...composeArgs, 'down', '--remove-orphans'], { cwd: app.path });
+    } catch {}
+
+    addLog('info', 'Lancement du nouveau container...', 'start');
+    await execDockerCompose([...composeArgs, 'up', '-d', '--no-build'], { cwd: app.path });
+
+    const { stdout: containerId } = await execDockerCompose([...composeArgs, 'ps', '-q'], { cwd: app.path });
+    app.containerId = containerId.trim();
+
+    if (!(await this.verifyHealth(app, composeArgs, app.externalPort, addLog))) {
+      throw new Error('L\'application ne repond pas apres le demarrage');
+    }
+  }
+
+  /**
+   * Strategie blue/green
+   * Le nouveau slot demarre sur un port temporaire a cote de l'ancien, puis le proxy
+   * qui publie le port externe bascule dessus (rechargement sans coupure) une fois la sante verifiee
+   */
+  private async activateBlueGreen(app: AppConfig, imageTag: string, addLog: DeploymentLogger): Promise<void> {
+    const previous = app.blueGreen;
+    const slot: DeploymentSlot = previous?.activeSlot === 'blue' ? 'green' : 'blue';
+    const slotFile = slotComposeFile(app, slot);
+    const slotArgs = ['-p', slotProject(app, slot), '-f', slotFile];
+    const slotPort = await portManagerService.reservePort(app.id, app.name);
+
+    // Jusqu'a la bascule du trafic, un echec rend le port reserve
+    try {
+      await this.writeAppFiles(app, imageTag);
+      fs.writeFileSync(slotFile, this.renderCompose(app, slotContainerName(app, slot), slotPort, imageTag));
+
+      // Reste eventuel d'un deploiement interrompu sur ce slot
+      try {
+        await execDockerCompose([...slotArgs, 'down'], { cwd: app.path });
+      } catch {}
+
+      addLog('info', `Lancement du slot ${slot} sur le port temporaire ${slotPort}...`, 'start');
+      await execDockerCompose([...slotArgs, 'up', '-d', '--no-build'], { cwd: app.path });
+
+      if (!(await this.verifyHealth(app, slotArgs, slotPort, addLog))) {
+        try {
+          await execDockerCompose([...slotArgs, 'down'], { cwd: app.path });
+        } catch {}
+        throw new Error(previous
+          ? `Le slot ${slot} ne repond pas, la version en cours (${previous.activeSlot}) est conservee`
+          : `Le slot ${slot} ne repond pas, la version en cours est conservee`);
+      }
+
+      // Premier deploiement blue/green: le container classique libere le port externe
+      if (!previous) {
+        try {
+          addLog('info', 'Arret du container publie sur le port externe...', 'start');
+          await execDockerCompose([...composeFileArgs(app), 'down'], { cwd: app.path });
+        } catch {}
+      }
+
+      addLog('info', `Bascule du trafic vers le slot ${slot}...`, 'start');
+      await this.switchProxy(app, slot);
+    } catch (error) {
+      portManagerService.releaseAppPort(app.id, slotPort);
+      throw error;
+    }
+
+    if (previous) {
+      addLog('info', `Arret de l'ancien slot ${previous.activeSlot}...`, 'start');
+      try {
+        await execDockerCompose(
+          ['-p', slotProject(app, previous.activeSlot), '-f', slotComposeFile(app, previous.activeSlot), 'down'],
+          { cwd: app.path }
+        );
+      } catch {}
+      portManagerService.releaseAppPort(app.id, previous.slotPort);
+    }
+
+    app.blueGreen = { activeSlot: slot, slotPort };
+
+    const { stdout: containerId } = await execDockerCompose([...slotArgs, 'ps', '-q'], { cwd: app.path });
+    app.containerId = containerId.trim();
+  }
+
+  // ============================================
+  // Verification de sante
+  // ============================================
+
+  /**
+   * Sonde une version demarree jusqu'a ce qu'elle soit operationnelle (etape verify)
+   * Un container arrete fait echouer immediatement; en cas d'echec, ses logs sont joints
+   */
+  private async verifyHealth(
+    app: AppConfig,
+    composeArgs: string[],
+    port: number,
+    addLog: DeploymentLogger
+  ): Promise<boolean> {
+    const check = resolveHealthCheck(app.healthCheck);
+
+    addLog('info', '───────────────────────────────────────', 'verify');
+
+    let healthy = false;
+    let described = false;
+
+    for (let attempt = 1; attempt <= check.retries; attempt++) {
+      const { stdout } = await execDockerCompose([...composeArgs, 'ps', '-q'], { cwd: app.path });
+      const states = await inspectContainers(stdout.split('\n').map(l => l.trim()).filter(Boolean));
+
+      const stopped = states.find(c => c.status !== 'running');
+      if (states.length === 0 || stopped) {
+        addLog('error', `✗ Container arrete (${stopped?.status ?? 'absent'})`, 'verify');
+        break;
+      }
+
+      const target = resolveProbeTarget(states, port, this.networkAttached);
+      if (!described) {
+        addLog('info', `Verification de sante: ${describeHealthCheck(check, target)}`, 'verify');
+        described = true;
+      }
+
+      const result = await runHealthProbe(check, target, states);
+      addLog(result.ok ? 'success' : 'warn', `Tentative ${attempt}/${check.retries}: ${result.message}`, 'verify');
+
+      if (result.ok) {
+        healthy = true;
+        break;
+      }
+      if (result.fatal) break;
+
+      if (attempt < check.retries) {
+        await new Promise(resolve => setTimeout(resolve, check.interval * 1000));
+      }
+    }
+
+    if (healthy) {
+      addLog('success', '✓ Application operationnelle', 'verify');
+      return true;
+    }
+
+    // Logs du container pour diagnostiquer l'echec
+    try {
+      const { stdout: logs } = await execDockerCompose(
+        [...composeArgs, 'logs', '--no-color', `--tail=${HEALTH_FAILURE_LOG_LINES}`],
+        { cwd: app.path }
+      );
+      addLog('error', '✗ Application non operationnelle, logs du container:', 'verify');
+      for (const line of logs.split('\n').filter(l => l.trim())) {
+        addLog('error', line, 'verify');
+      }
+    } catch {}
+
+    return false;
+  }
+
+  /**
+   * Pointe le proxy du port externe vers un slot
+   * Le proxy est cree au premier passage, puis recharge a chaud
+   */
+  private async switchProxy(app: AppConfig, slot: DeploymentSlot): Promise<void> {
+    const proxyDir = path.join(app.path, '.docktor', 'proxy');
+    ensureDirectoryExists(proxyDir);
+
+    fs.writeFileSync(path.join(proxyDir, 'nginx.conf'), [
+      'events {}',
+      'stream {',
+      '  server {',
+      `    listen ${PROXY_LISTEN_PORT};`,
+      `    proxy_pass ${slotContainerName(app, slot)}:${app.internalPort};`,
+      '  }',
+      '}',
+      '',
+    ].join('\n'));
+
+    const proxy = proxyContainerName(app);
+    const { stdout } = await execAsync(
+      `docker inspect --format='{{.State.Running}}' ${proxy} 2>/dev/null || echo "missing"`
+    );
+
+    if (stdout.trim() === 'true') {
+      await execAsync(`docker exec ${proxy} nginx -s reload`);
+      return;
+    }
+
+    if (stdout.trim() === 'false') {
+      await execAsync(`docker start ${proxy}`);
+      return;
+    }
+
+    const hostProxyDir = await resolveHostPath(proxyDir);
+    await execAsync([
+      'docker run -d',
+      `--name ${proxy}`,
+      `--network ${DOCKER_NETWORK}`,
+      `-p ${publishedPort(app, app.externalPort)}:${PROXY_LISTEN_PORT}`,
+      `-v "${hostProxyDir}:/etc/nginx/docktor:ro"`,
+      '--restart unless-stopped',
+      PROXY_IMAGE,
+      'nginx -c /etc/nginx/docktor/nginx.conf -g "daemon off;"',
+    ].join(' '));
+  }
+
+  /**
+   * Supprime les slots et le proxy d'une application blue/green
+   */
+  private async teardownBlueGreen(app: AppConfig): Promise<void> {
+    for (const slot of ['blue', 'green'] as DeploymentSlot[]) {
+      const slotFile = slotComposeFile(app, slot);
+      if (!fs.existsSync(slotFile)) continue;
+      try {
+        await execDockerCompose(['-p', slotProject(app, slot), '-f', slotFile, 'down'], { cwd: app.path });
+      } catch {}
+    }
+
+    try {
+      await execAsync(`docker rm -f ${proxyContainerName(app)}`);
+    } catch {}
+
+    if (app.blueGreen) portManagerService.releaseAppPort(app.id, app.blueGreen.slotPort);
+    delete app.blueGreen;
+  }
+
+  /**
+   * Arguments compose ciblant les containers qui servent l'application
+   */
+  private composeTarget(app: AppConfig): string[] {
+    if (app.blueGreen) {
+      const slot = app.blueGreen.activeSlot;
+      return ['-p', slotProject(app, slot), '-f', slotComposeFile(app, slot)];
+    }
+    return composeFileArgs(app);
+  }
+
+  // ============================================
+  // Rollback
+  // ============================================
+
+  /**
+   * Redemarre l'application sur l'image d'un deploiement precedent, sans rebuild
+   * Sans deploymentId: le dernier deploiement reussi dont l'image differe de l'image en cours
+   */
+  async rollbackApp(appId: string, deploymentId?: string): Promise<Deployment> {
+    const app = this.apps.get(appId);
+    if (!app) throw new Error(`Application non trouvee: ${appId}`);
+
+    if (Array.from(this.deployments.values()).some(d => d.appId === appId)) {
+      throw new Error('Un deploiement est deja en cours pour cette application');
+    }
+
+    const target = deploymentId !== undefined
+      ? deploymentRepository.findById(deploymentId)
+      : deploymentRepository.findLatestRetained(appId, app.imageTag);
+
+    if (!target || target.appId !== appId) {
+      throw new Error(deploymentId !== undefined
+        ? `Deploiement non trouve: ${deploymentId}`
+        : 'Aucune version precedente disponible pour le rollback');
+    }
+    if (target.status !== 'success' || !target.imageTag || !target.imageRetained) {
+      throw new Error('Ce deploiement n\'a plus d\'image disponible pour le rollback');
+    }
+
+    const deployment: Deployment = {
+      id: generateDeploymentId(),
+      appId,
+      status: 'queued',
+      startedAt: new Date().toISOString(),
+      logs: [],
+      imageTag: target.imageTag,
+      imageRetained: true,
+      rollbackOf: target.id,
+      ...(target.commitSha && { commitSha: target.commitSha }),
+      ...(target.commitAuthor && { commitAuthor: target.commitAuthor }),
+      ...(target.commitMessage && { commitMessage: target.commitMessage }),
+      ...(target.ref && { ref: target.ref }),
+    };
+
+    deploymentRepository.create(deployment);
+    this.deployments.set(deployment.id, deployment);
+
+    this.enqueueDeployment(app, deployment, signal => this.executeRollback(app, deployment, signal));
+    return deployment;
+  }
+
+  private async executeRollback(app: AppConfig, deployment: Deployment, signal: AbortSignal): Promise<void> {
+    const { addLog, setStatus, setError, setSuccess, setCancelled } = this.createDeploymentTracker(app, deployment);
+    const imageTag = deployment.imageTag ?? '';
+
+    try {
+      addLog('info', '═══════════════════════════════════════', 'init');
+      addLog('info', `Rollback: ${app.name}`, 'init');
+      addLog('info', `Deploiement cible: ${deployment.rollbackOf}`, 'init');
+      if (deployment.commitSha) addLog('info', `Commit: ${deployment.commitSha.slice(0, 7)}`, 'init');
+      addLog('info', `Image: ${imageRepository(app)}-*:${imageTag}`, 'init');
+      addLog('info', '═══════════════════════════════════════', 'init');
+
+      // L'image a pu etre supprimee manuellement
+      const images = await this.listImages(app, imageTag);
+      if (images.length === 0) {
+        deploymentRepository.releaseImage(app.id, imageTag);
+        addLog('error', '✗ Image introuvable sur l\'hote', 'init');
+        setError(`Image ${imageTag} introuvable, rollback impossible`);
+        return;
+      }
+      addLog('info', `✓ ${images.join(', ')}`, 'init');
+
+      if (signal.aborted) {
+        setCancelled();
+        return;
+      }
+
+      // ===== DEMARRAGE =====
+      setStatus('starting');
+      addLog('info', '───────────────────────────────────────', 'start');
+      addLog('info', 'Redemarrage sur l\'image conservee...', 'start');
+
+      await this.activateRelease(app, imageTag, addLog);
+
+      addLog('success', '✓ Container demarre', 'start');
+      addLog('info', `Container ID: ${app.containerId || 'N/A'}`, 'start');
+
+      addLog('info', '═══════════════════════════════════════', 'done');
+      addLog('success', '✓ ROLLBACK REUSSI', 'done');
+      addLog('info', '═══════════════════════════════════════', 'done');
 
+      setSuccess();
     } catch (error: any) {
       addLog('error', `✗ Erreur: ${error.message}`, 'error');
       setError(error.message);
     }
   }
 
+  /**
+   * Images d'une application pour un tag donne
+   */
+  private async listImages(app: AppConfig, imageTag: string): Promise<string[]> {
+    const { stdout } = await execAsync(
+      `docker images --filter "reference=${imageRepository(app)}-*:${imageTag}" --format "{{.Repository}}:{{.Tag}}"`
+    );
+    return stdout.split('\n').map(l => l.trim()).filter(Boolean);
+  }
+
+  private async removeImages(app: AppConfig, imageTag: string): Promise<void> {
+    try {
+      const images = await this.listImages(app, imageTag);
+      if (images.length > 0) {
+        await execAsync(`docker rmi ${images.join(' ')}`);
+        console.log(`[AppDeployment] Images supprimees: ${images.join(', ')}`);
+      }
+    } catch (error: any) {
+      console.error(`[AppDeployment] Erreur suppression images ${imageTag}:`, error.message);
+    }
+  }
+
+  /**
+   * Supprime une image et la retire des cibles de rollback
+   */
+  private async releaseImage(app: AppConfig, imageTag: string): Promise<void> {
+    await this.removeImages(app, imageTag);
+    deploymentRepository.releaseImage(app.id, imageTag);
+  }
+
+  /**
+   * Ne conserve que les N images les plus recentes (jamais l'image en cours)
+   */
+  private async pruneImages(app: AppConfig): Promise<void> {
+    const tags = deploymentRepository.findRetainedTags(app.id);
+    for (const tag of tags.slice(config.deploymentImageRetention)) {
+      if (tag !== app.imageTag) await this.releaseImage(app, tag);
+    }
+  }
+
   // ============================================
   // Gestion du cycle de vie
   // ============================================
@@ -885,27 +3124,29 @@ class AppDeploymentService extends EventEmitter {
     const app = this.apps.get(appId);
     if (!app) throw new Error(`Application non trouvee: ${appId}`);
 
-    await execDockerCompose(['-f', path.join(app.path, 'docker-compose.yml'), 'stop'], { cwd: app.path });
+    await execDockerCompose([...this.composeTarget(app), 'stop'], { cwd: app.path });
+    if (app.blueGreen) await execAsync(`docker stop ${proxyContainerName(app)}`).catch(() => {});
     app.status = 'stopped';
-    this.saveApps();
+    this.saveApp(app);
   }
 
   async startApp(appId: string): Promise<void> {
     const app = this.apps.get(appId);
     if (!app) throw new Error(`Application non trouvee: ${appId}`);
 
-    await execDockerCompose(['-f', path.join(app.path, 'docker-compose.yml'), 'start'], { cwd: app.path });
+    await execDockerCompose([...this.composeTarget(app), 'start'], { cwd: app.path });
+    if (app.blueGreen) await execAsync(`docker start ${proxyContainerName(app)}`).catch(() => {});
     app.status = 'running';
-    this.saveApps();
+    this.saveApp(app);
   }
 
   async restartApp(appId: string): Promise<void> {
     const app = this.apps.get(appId);
     if (!app) throw new Error(`Application non trouvee: ${appId}`);
 
-    await execDockerCompose(['-f', path.join(app.path, 'docker-compose.yml'), 'restart'], { cwd: app.path });
+    await execDockerCompose([...this.composeTarget(app), 'restart'], { cwd: app.path });
     app.status = 'running';
-    this.saveApps();
+    this.saveApp(app);
   }
 
   async getAppLogs(appId: string, tail = 100): Promise<string> {
@@ -913,7 +3154,7 @@ class AppDeploymentService extends EventEmitter {
     if (!app) throw new Error(`Application non trouvee: ${appId}`);
 
     const { stdout } = await execDockerCompose(
-      ['-f', path.join(app.path, 'docker-compose.yml'), 'logs', `--tail=${tail}`],
+      [...this.composeTarget(app), 'logs', `--tail=${tail}`],
       { cwd: app.path }
     );
     return stdout;
@@ -931,32 +3172,151 @@ class AppDeploymentService extends EventEmitter {
     return Array.from(this.apps.values());
   }
 
+  /**
+   * Version d'une application exposable par l'API
+   * Les secrets sont remplaces par un placeholder et un indicateur de presence
+   */
+  toPublicApp(app: AppConfig): AppConfig {
+    const { webhookSecret: _webhookSecret, ...publicApp } = app;
+    const envVariables = app.envVariables.map(v =>
+      v.isSecret ? { key: v.key, value: v.value ? SECRET_PLACEHOLDER : '', isSecret: true, isSet: !!v.value } : v
+    );
+
+    const certificate = app.certificate && { certificate: currentCertificate(app.certificate) };
+    if (!app.git) return { ...publicApp, ...certificate, envVariables };
+
+    const git: GitConfig = { ...app.git };
+    for (const field of GIT_SECRET_FIELDS) {
+      const isSet = !!git[field];
+      if (isSet) git[field] = SECRET_PLACEHOLDER;
+      git[`${field}Set`] = isSet;
+    }
+
+    return { ...publicApp, ...certificate, git, envVariables };
+  }
+
+  /**
+   * Secret des webhooks d'une application (dechiffre)
+   * Genere a la demande pour les applications creees avant les webhooks
+   */
+  getWebhookSecret(appId: string): string {
+    const app = this.apps.get(appId);
+    if (!app) throw new Error(`Application non trouvee: ${appId}`);
+
+    if (!app.webhookSecret) return this.regenerateWebhookSecret(appId);
+    return secretService.unseal(app.webhookSecret);
+  }
+
+  /**
+   * Secret des webhooks s'il existe deja (verification des webhooks entrants)
+   * Contrairement a getWebhookSecret, n'en genere jamais: un appel non authentifie ne modifie rien
+   */
+  findWebhookSecret(appId: string): string | undefined {
+    const app = this.apps.get(appId);
+    if (!app?.webhookSecret) return undefined;
+    return secretService.unseal(app.webhookSecret);
+  }
+
+  /**
+   * Remplace le secret des webhooks (l'ancien secret est immediatement invalide)
+   */
+  regenerateWebhookSecret(appId: string): string {
+    const app = this.apps.get(appId);
+    if (!app) throw new Error(`Application non trouvee: ${appId}`);
+
+    const secret = generateWebhookSecret();
+    app.webhookSecret = secretService.seal(secret);
+    app.updatedAt = new Date().toISOString();
+    this.saveApp(app);
+    return secret;
+  }
+
+  /**
+   * Deploiement en cours (memoire) ou termine (base)
+   */
   getDeployment(deploymentId: string): Deployment | undefined {
-    return this.deployments.get(deploymentId);
+    return this.deployments.get(deploymentId) ?? deploymentRepository.findById(deploymentId);
+  }
+
+  /**
+   * Abonnement aux evenements d'un deploiement (logs, statut, fin)
+   * Retourne la fonction de desabonnement
+   */
+  subscribeToDeployment(deploymentId: string, handlers: DeploymentStreamHandlers): () => void {
+    const onLog = (e: { deploymentId: string; log: DeploymentLog }) => {
+      if (e.deploymentId === deploymentId) handlers.onLog(e.log);
+    };
+    const onStatus = (e: { deploymentId: string; status: DeploymentStatus }) => {
+      if (e.deploymentId === deploymentId) handlers.onStatus(e.status);
+    };
+    const onEnd = (e: { deploymentId: string }) => {
+      if (e.deploymentId !== deploymentId) return;
+      const deployment = this.getDeployment(deploymentId);
+      if (deployment) handlers.onEnd(deployment);
+    };
+
+    this.on('deployment:log', onLog);
+    this.on('deployment:status', onStatus);
+    this.on('deployment:success', onEnd);
+    this.on('deployment:failed', onEnd);
+    this.on('deployment:cancelled', onEnd);
+
+    return () => {
+      this.off('deployment:log', onLog);
+      this.off('deployment:status', onStatus);
+      this.off('deployment:success', onEnd);
+      this.off('deployment:failed', onEnd);
+      this.off('deployment:cancelled', onEnd);
+    };
   }
 
-  getAppDeployments(appId: string): Deployment[] {
-    return Array.from(this.deployments.values())
-      .filter(d => d.appId === appId)
-      .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime());
+  /**
+   * Historique pagine des deploiements d'une application
+   */
+  getAppDeployments(appId: string, limit = DEFAULT_HISTORY_PAGE_SIZE, cursor?: string): DeploymentHistory {
+    const page = deploymentRepository.findPageByApp(appId, limit, cursor);
+
+    // Les deploiements en cours sont pris en memoire (statut et nombre de logs a jour)
+    return {
+      ...page,
+      deployments: page.deployments.map(d => {
+        const live = this.deployments.get(d.id);
+        if (!live) return d;
+        const { logs, ...summary } = live;
+        return { ...summary, logCount: logs.length };
+      }),
+    };
   }
 
-  getTemplates() {
-    return getAllTemplates();
+  /**
+   * Applique la politique de retention de l'historique
+   */
+  pruneDeploymentHistory(appId?: string): void {
+    try {
+      const removed = deploymentRepository.prune({
+        keepPerApp: config.deploymentRetentionCount,
+        maxAgeDays: config.deploymentRetentionDays,
+      }, appId);
+      if (removed > 0) {
+        console.log(`[AppDeployment] Retention: ${removed} deploiement(s) supprime(s)`);
+      }
+    } catch (error: any) {
+      console.error('[AppDeployment] Erreur retention:', error.message);
+    }
   }
 
   async syncAppStatuses(): Promise<void> {
     for (const app of this.apps.values()) {
       try {
         const { stdout } = await execAsync(
-          `docker inspect --format='{{.State.Running}}' ${app.containerName} 2>/dev/null || echo "false"`
+          `docker inspect --format='{{.State.Running}}' ${app.blueGreen ? slotContainerName(app, app.blueGreen.activeSlot) : app.containerName} 2>/dev/null || echo "false"`
         );
         app.status = stdout.trim() === 'true' ? 'running' : 'stopped';
       } catch {
         app.status = 'stopped';
       }
     }
-    this.saveApps();
+    appRepository.saveMany(Array.from(this.apps.values()));
   }
 
   /**
@@ -965,6 +3325,43 @@ class AppDeploymentService extends EventEmitter {
   validateGitConfiguration(git: Partial<GitConfig>): { valid: boolean; errors: string[] } {
     return validateGitConfig(git);
   }
+
+  /**
+   * Contacte un repository distant avec les identifiants fournis (assistant de creation)
+   * Une configuration incomplete leve une erreur, un remote injoignable est signale par reachable: false
+   */
+  async browseGitRemote(git: Partial<GitConfig>): Promise<GitRemoteInfo> {
+    const validation = validateGitConfig(git);
+    if (!validation.valid) {
+      throw new Error(`Configuration Git invalide: ${validation.errors.join(', ')}`);
+    }
+
+    try {
+      return { reachable: true, ...toGitRefs(await listRemoteRefs(toRemoteGitConfig(git))) };
+    } catch (error) {
+      return {
+        reachable: false,
+        error: error instanceof Error ? error.message : 'Erreur inconnue',
+        branches: [],
+        tags: [],
+      };
+    }
+  }
+
+  /**
+   * Suggere le type d'application a partir du contenu du repository (assistant de creation)
+   */
+  async detectAppType(git: Partial<GitConfig>): Promise<AppDetection> {
+    const validation = validateGitConfig(git);
+    if (!validation.valid) {
+      throw new Error(`Configuration Git invalide: ${validation.errors.join(', ')}`);
+    }
+    if (git.branch !== undefined && !GIT_REF_PATTERN.test(git.branch)) {
+      throw new Error(`Branche invalide: ${git.branch}`);
+    }
+
+    return detectionService.detect(await fetchRepositoryFiles(toRemoteGitConfig(git)));
+  }
 }
 
 export const appDeploymentService = AppDeploymentService.getInstance();
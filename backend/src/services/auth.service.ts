@@ -0,0 +1,535 @@
+/**
+ * Service d'authentification
+ * Gestion des utilisateurs locaux, des sessions et des tokens d'API
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomBytes, scrypt, createHash, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { config } from '../config';
+import {
+  User,
+  UserRecord,
+  SessionRecord,
+  ApiToken,
+  ApiTokenRecord,
+  AuthContext,
+  TokenScope,
+  Role,
+} from '../types';
+import { permissionService } from './permission.service';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// ============================================
+// Configuration
+// ============================================
+
+const CONFIG_DIR = process.env.DOCKTOR_CONFIG_DIR || '/var/app/.docktor';
+const AUTH_FILE = path.join(CONFIG_DIR, 'auth.json');
+
+/** Prefixe des tokens d'API (permet de les distinguer des sessions) */
+const API_TOKEN_PREFIX = 'dkt_';
+
+/** Longueur minimale d'un mot de passe */
+const MIN_PASSWORD_LENGTH = 8;
+
+const ALL_SCOPES: TokenScope[] = ['read', 'write'];
+
+/** Fenetre de comptage des echecs de connexion */
+const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+
+/**
+ * Echecs toleres par fenetre, par couple utilisateur/adresse IP et par adresse IP
+ * Le compte n'est jamais verrouille globalement: un tiers ne peut pas bloquer son titulaire
+ */
+const MAX_LOGIN_FAILURES_PER_USER = 5;
+const MAX_LOGIN_FAILURES_PER_IP = 20;
+
+// ============================================
+// Utilitaires
+// ============================================
+
+function ensureDirectoryExists(dirPath: string): boolean {
+  try {
+    if (!fs.existsSync(dirPath)) {
+      fs.mkdirSync(dirPath, { recursive: true, mode: 0o755 });
+    }
+    return true;
+  } catch (error: any) {
+    if (error.code === 'EEXIST') return true;
+    console.error(`[Auth] Erreur creation ${dirPath}:`, error.message);
+    return false;
+  }
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${randomBytes(6).toString('hex')}`;
+}
+
+/**
+ * Hash d'un token (session ou API)
+ * Les tokens sont aleatoires et longs, un SHA-256 suffit
+ */
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Hash d'un mot de passe avec scrypt et un sel aleatoire
+ */
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+/**
+ * Verifie un mot de passe contre son hash (comparaison a temps constant)
+ */
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [algorithm, saltHex, hashHex] = stored.split('$');
+  if (algorithm !== 'scrypt' || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function toPublicUser(record: UserRecord): User {
+  return {
+    id: record.id,
+    username: record.username,
+    role: record.role,
+    ...(record.appRoles && Object.keys(record.appRoles).length > 0 && { appRoles: { ...record.appRoles } }),
+    createdAt: record.createdAt,
+    ...(record.lastLoginAt && { lastLoginAt: record.lastLoginAt }),
+  };
+}
+
+function toPublicToken(record: ApiTokenRecord): ApiToken {
+  const { tokenHash: _tokenHash, ...token } = record;
+  return token;
+}
+
+/** Cle du compteur d'echecs d'un utilisateur depuis une adresse IP */
+function loginUserKey(username: string, ip: string): string {
+  return `user:${(username || '').toLowerCase()}@${ip}`;
+}
+
+function validatePassword(password: string): void {
+  if (!password || password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Le mot de passe doit contenir au moins ${MIN_PASSWORD_LENGTH} caracteres`);
+  }
+}
+
+// ============================================
+// Service Principal
+// ============================================
+
+class AuthService {
+  private static instance: AuthService | null = null;
+  private users: Map<string, UserRecord> = new Map();
+  private sessions: Map<string, SessionRecord> = new Map();
+  private apiTokens: Map<string, ApiTokenRecord> = new Map();
+
+  /** Echecs de connexion recents, par cle 'user:<nom>@<adresse>' ou 'ip:<adresse>' (en memoire) */
+  private loginFailures: Map<string, { count: number; windowStart: number }> = new Map();
+
+  private constructor() {
+    this.loadStore();
+  }
+
+  static getInstance(): AuthService {
+    if (AuthService.instance === null) {
+      AuthService.instance = new AuthService();
+    }
+    return AuthService.instance;
+  }
+
+  private loadStore(): void {
+    try {
+      if (fs.existsSync(AUTH_FILE)) {
+        const data = JSON.parse(fs.readFileSync(AUTH_FILE, 'utf-8'));
+        // Les utilisateurs crees avant l'introduction des roles etaient administrateurs
+        this.users = new Map((data.users || []).map((u: UserRecord) => [u.id, { ...u, role: u.role ?? 'admin' }]));
+        this.sessions = new Map((data.sessions || []).map((s: SessionRecord) => [s.id, s]));
+        this.apiTokens = new Map((data.apiTokens || []).map((t: ApiTokenRecord) => [t.id, t]));
+        console.log(`[Auth] ${this.users.size} utilisateur(s) charge(s)`);
+      }
+    } catch (error: any) {
+      console.error('[Auth] Erreur chargement:', error.message);
+    }
+  }
+
+  private saveStore(): void {
+    try {
+      ensureDirectoryExists(CONFIG_DIR);
+      const data = {
+        users: Array.from(this.users.values()),
+        sessions: Array.from(this.sessions.values()),
+        apiTokens: Array.from(this.apiTokens.values()),
+      };
+      fs.writeFileSync(AUTH_FILE, JSON.stringify(data, null, 2), { mode: 0o600 });
+    } catch (error: any) {
+      console.error('[Auth] Erreur sauvegarde:', error.message);
+    }
+  }
+
+  /**
+   * Cree le compte administrateur initial si aucun utilisateur n'existe
+   * Le mot de passe vient de DOCKTOR_ADMIN_PASSWORD: sans lui, le demarrage est refuse
+   */
+  async ensureAdminUser(): Promise<void> {
+    if (this.users.size > 0) return;
+
+    const username = config.adminUsername;
+    const password = config.adminPassword;
+    if (!password) {
+      throw new Error('DOCKTOR_ADMIN_PASSWORD est requis pour creer le compte administrateur initial');
+    }
+
+    await this.createUser(username, password, 'admin');
+
+    console.log(`[Auth] Utilisateur administrateur cree: ${username}`);
+  }
+
+  // ============================================
+  // Utilisateurs
+  // ============================================
+
+  async createUser(
+    username: string,
+    password: string,
+    role: Role = 'viewer',
+    appRoles?: Record<string, Role>
+  ): Promise<User> {
+    if (!username || !/^[a-zA-Z0-9._-]{2,64}$/.test(username)) {
+      throw new Error('Nom d\'utilisateur invalide (2 a 64 caracteres: lettres, chiffres, . _ -)');
+    }
+    validatePassword(password);
+    this.validateRoles(role, appRoles);
+
+    const existing = Array.from(this.users.values()).find(
+      u => u.username.toLowerCase() === username.toLowerCase()
+    );
+    if (existing) {
+      throw new Error(`L'utilisateur "${username}" existe deja`);
+    }
+
+    const user: UserRecord = {
+      id: generateId('user'),
+      username,
+      passwordHash: await hashPassword(password),
+      role,
+      ...(appRoles && Object.keys(appRoles).length > 0 && { appRoles }),
+      createdAt: new Date().toISOString(),
+    };
+
+    this.users.set(user.id, user);
+    this.saveStore();
+    return toPublicUser(user);
+  }
+
+  deleteUser(userId: string): void {
+    if (!this.users.has(userId)) {
+      throw new Error(`Utilisateur non trouve: ${userId}`);
+    }
+    if (this.isLastAdmin(userId)) {
+      throw new Error('Impossible de supprimer le dernier administrateur');
+    }
+
+    this.users.delete(userId);
+    for (const [id, session] of this.sessions) {
+      if (session.userId === userId) this.sessions.delete(id);
+    }
+    for (const [id, token] of this.apiTokens) {
+      if (token.userId === userId) this.apiTokens.delete(id);
+    }
+    this.saveStore();
+  }
+
+  /**
+   * Modifie le role global et/ou les roles par application
+   */
+  updateUserRole(userId: string, role?: Role, appRoles?: Record<string, Role>): User {
+    const user = this.users.get(userId);
+    if (!user) throw new Error(`Utilisateur non trouve: ${userId}`);
+
+    this.validateRoles(role ?? user.role, appRoles);
+
+    if (role !== undefined && role !== 'admin' && this.isLastAdmin(userId)) {
+      throw new Error('Impossible de retirer le role du dernier administrateur');
+    }
+
+    if (role !== undefined) user.role = role;
+    if (appRoles !== undefined) {
+      if (Object.keys(appRoles).length > 0) {
+        user.appRoles = { ...appRoles };
+      } else {
+        delete user.appRoles;
+      }
+    }
+
+    this.saveStore();
+    return toPublicUser(user);
+  }
+
+  private validateRoles(role: Role, appRoles?: Record<string, Role>): void {
+    if (!permissionService.isRole(role)) {
+      throw new Error(`Role invalide: ${role}`);
+    }
+    for (const [appId, appRole] of Object.entries(appRoles ?? {})) {
+      if (!permissionService.isRole(appRole)) {
+        throw new Error(`Role invalide pour l'application ${appId}: ${appRole}`);
+      }
+    }
+  }
+
+  private isLastAdmin(userId: string): boolean {
+    const admins = Array.from(this.users.values()).filter(u => u.role === 'admin');
+    return admins.length === 1 && admins[0]?.id === userId;
+  }
+
+  async changePassword(userId: string, currentPassword: string, newPassword: string): Promise<void> {
+    const user = this.users.get(userId);
+    if (!user) throw new Error(`Utilisateur non trouve: ${userId}`);
+
+    if (!(await verifyPassword(currentPassword, user.passwordHash))) {
+      throw new Error('Mot de passe actuel incorrect');
+    }
+    validatePassword(newPassword);
+
+    user.passwordHash = await hashPassword(newPassword);
+
+    // Invalide les autres sessions de l'utilisateur
+    for (const [id, session] of this.sessions) {
+      if (session.userId === userId) this.sessions.delete(id);
+    }
+    this.saveStore();
+  }
+
+  getUser(userId: string): User | undefined {
+    const user = this.users.get(userId);
+    return user ? toPublicUser(user) : undefined;
+  }
+
+  getAllUsers(): User[] {
+    return Array.from(this.users.values()).map(toPublicUser);
+  }
+
+  // ============================================
+  // Sessions
+  // ============================================
+
+  /**
+   * Secondes avant une nouvelle tentative de connexion, 0 si autorisee
+   * Limite les essais par utilisateur depuis une adresse IP, et par adresse IP
+   */
+  loginRetryAfter(username: string, ip: string): number {
+    const now = Date.now();
+    const limits: Array<[string, number]> = [
+      [loginUserKey(username, ip), MAX_LOGIN_FAILURES_PER_USER],
+      [`ip:${ip}`, MAX_LOGIN_FAILURES_PER_IP],
+    ];
+
+    let retryAfter = 0;
+    for (const [key, max] of limits) {
+      const entry = this.loginFailures.get(key);
+      if (!entry || entry.count < max) continue;
+      const remaining = entry.windowStart + LOGIN_WINDOW_MS - now;
+      if (remaining > 0) {
+        retryAfter = Math.max(retryAfter, Math.ceil(remaining / 1000));
+      }
+    }
+    return retryAfter;
+  }
+
+  private recordLoginFailure(username: string, ip: string): void {
+    const now = Date.now();
+
+    // Purge des fenetres expirees
+    for (const [key, entry] of this.loginFailures) {
+      if (entry.windowStart + LOGIN_WINDOW_MS <= now) {
+        this.loginFailures.delete(key);
+      }
+    }
+
+    for (const key of [loginUserKey(username, ip), `ip:${ip}`]) {
+      const entry = this.loginFailures.get(key);
+      if (entry) {
+        entry.count++;
+      } else {
+        this.loginFailures.set(key, { count: 1, windowStart: now });
+      }
+    }
+  }
+
+  /**
+   * Verifie les identifiants et ouvre une session
+   * Retourne null si les identifiants sont invalides
+   */
+  async login(
+    username: string,
+    password: string,
+    ip: string
+  ): Promise<{ token: string; expiresAt: string; user: User } | null> {
+    const user = Array.from(this.users.values()).find(
+      u => u.username.toLowerCase() === (username || '').toLowerCase()
+    );
+
+    if (!user || !(await verifyPassword(password || '', user.passwordHash))) {
+      console.warn(`[Auth] Echec de connexion pour "${username}" depuis ${ip}`);
+      this.recordLoginFailure(username, ip);
+      return null;
+    }
+
+    // Connexion reussie: le compteur de l'utilisateur depuis cette adresse repart de zero
+    this.loginFailures.delete(loginUserKey(username, ip));
+
+    this.purgeExpiredSessions();
+
+    const token = randomBytes(32).toString('hex');
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + config.sessionTtlHours * 3600 * 1000).toISOString();
+
+    const session: SessionRecord = {
+      id: generateId('session'),
+      userId: user.id,
+      tokenHash: hashToken(token),
+      createdAt: now.toISOString(),
+      expiresAt,
+    };
+
+    this.sessions.set(session.id, session);
+    user.lastLoginAt = now.toISOString();
+    this.saveStore();
+
+    return { token, expiresAt, user: toPublicUser(user) };
+  }
+
+  logout(sessionId: string): void {
+    if (this.sessions.delete(sessionId)) {
+      this.saveStore();
+    }
+  }
+
+  private purgeExpiredSessions(): void {
+    const now = Date.now();
+    for (const [id, session] of this.sessions) {
+      if (new Date(session.expiresAt).getTime() <= now) {
+        this.sessions.delete(id);
+      }
+    }
+  }
+
+  // ============================================
+  // Tokens d'API
+  // ============================================
+
+  createApiToken(
+    userId: string,
+    name: string,
+    scopes: TokenScope[] = ALL_SCOPES,
+    expiresInDays?: number
+  ): { token: string; apiToken: ApiToken } {
+    if (!this.users.has(userId)) throw new Error(`Utilisateur non trouve: ${userId}`);
+    if (!name || name.trim().length === 0) throw new Error('Le nom du token est requis');
+
+    const invalidScopes = scopes.filter(s => !ALL_SCOPES.includes(s));
+    if (scopes.length === 0 || invalidScopes.length > 0) {
+      throw new Error(`Portees invalides: ${invalidScopes.join(', ') || 'aucune'}`);
+    }
+
+    const token = `${API_TOKEN_PREFIX}${randomBytes(24).toString('hex')}`;
+    const record: ApiTokenRecord = {
+      id: generateId('token'),
+      userId,
+      name: name.trim(),
+      prefix: token.slice(0, API_TOKEN_PREFIX.length + 6),
+      scopes: Array.from(new Set(scopes)),
+      tokenHash: hashToken(token),
+      createdAt: new Date().toISOString(),
+      ...(expiresInDays !== undefined && expiresInDays > 0 && {
+        expiresAt: new Date(Date.now() + expiresInDays * 24 * 3600 * 1000).toISOString(),
+      }),
+    };
+
+    this.apiTokens.set(record.id, record);
+    this.saveStore();
+
+    return { token, apiToken: toPublicToken(record) };
+  }
+
+  getUserApiTokens(userId: string): ApiToken[] {
+    return Array.from(this.apiTokens.values())
+      .filter(t => t.userId === userId)
+      .map(toPublicToken);
+  }
+
+  revokeApiToken(userId: string, tokenId: string): void {
+    const token = this.apiTokens.get(tokenId);
+    if (!token || token.userId !== userId) {
+      throw new Error(`Token non trouve: ${tokenId}`);
+    }
+    this.apiTokens.delete(tokenId);
+    this.saveStore();
+  }
+
+  // ============================================
+  // Verification des credentials
+  // ============================================
+
+  /**
+   * Resout un credential (token de session ou token d'API)
+   * Retourne null si le credential est inconnu ou expire
+   */
+  authenticate(credential: string): AuthContext | null {
+    const tokenHash = hashToken(credential);
+    const now = Date.now();
+
+    if (credential.startsWith(API_TOKEN_PREFIX)) {
+      const token = Array.from(this.apiTokens.values()).find(t => t.tokenHash === tokenHash);
+      if (!token) return null;
+      if (token.expiresAt && new Date(token.expiresAt).getTime() <= now) return null;
+
+      const user = this.users.get(token.userId);
+      if (!user) return null;
+
+      // Evite une ecriture disque a chaque requete
+      if (!token.lastUsedAt || now - new Date(token.lastUsedAt).getTime() > 60000) {
+        token.lastUsedAt = new Date(now).toISOString();
+        this.saveStore();
+      }
+
+      return {
+        user: toPublicUser(user),
+        method: 'token',
+        scopes: token.scopes,
+        credentialId: token.id,
+      };
+    }
+
+    const session = Array.from(this.sessions.values()).find(s => s.tokenHash === tokenHash);
+    if (!session) return null;
+
+    if (new Date(session.expiresAt).getTime() <= now) {
+      this.sessions.delete(session.id);
+      this.saveStore();
+      return null;
+    }
+
+    const user = this.users.get(session.userId);
+    if (!user) return null;
+
+    return {
+      user: toPublicUser(user),
+      method: 'session',
+      scopes: ALL_SCOPES,
+      credentialId: session.id,
+    };
+  }
+}
+
+export const authService = AuthService.getInstance();
@@ -0,0 +1,424 @@
+/**
+ * Service de sauvegarde des applications
+ * Archives des volumes nommes et exports logiques des bases des add-ons,
+ * compresses (gzip) et verifies par empreinte SHA-256
+ *
+ * Chaque sauvegarde est un repertoire <BACKUP_ROOT>/<appId>/<backupId> contenant
+ * les fichiers et un manifest.json: elle reste exploitable apres suppression de l'application
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { exec, spawn } from 'child_process';
+import { promisify } from 'util';
+import { createHash, randomBytes } from 'crypto';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { AddonType, AppAddon, AppConfig, Backup, BackupItem, BackupSchedule, BackupTrigger } from '../types';
+
+const execAsync = promisify(exec);
+
+// ============================================
+// Configuration
+// ============================================
+
+const CONFIG_DIR = process.env.DOCKTOR_CONFIG_DIR || '/var/app/.docktor';
+const BACKUP_ROOT = process.env.DOCKTOR_BACKUP_DIR || path.join(CONFIG_DIR, 'backups');
+
+const MANIFEST_FILE = 'manifest.json';
+
+/** Image utilisee pour lire et ecrire les volumes */
+const VOLUME_IMAGE = 'alpine:3.19';
+
+const DEFAULT_RETENTION = 7;
+
+// ============================================
+// Planification (cron)
+// ============================================
+
+/** Bornes des champs: minute, heure, jour du mois, mois, jour de la semaine (0 et 7: dimanche) */
+const CRON_FIELDS: [number, number][] = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+
+const CRON_MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+interface CronExpression {
+  fields: Set<number>[];
+
+  /** Jour du mois et jour de la semaine restreints (ne commencent pas par *): l'un ou l'autre suffit */
+  dayOr: boolean;
+}
+
+/**
+ * Valeurs d'un champ cron (*, 5, 1-5, *\/15, 1-10/2, listes separees par des virgules)
+ */
+function parseCronField(field: string, [min, max]: [number, number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) throw new Error(`Champ cron invalide: ${part}`);
+
+    const start = match[1] === '*' ? min : parseInt(match[2]!, 10);
+    const end = match[1] === '*' ? max : match[3] !== undefined ? parseInt(match[3], 10) : match[4] ? max : start;
+    const step = match[4] ? parseInt(match[4], 10) : 1;
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Champ cron hors limites: ${part} (${min}-${max})`);
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronExpression {
+  const source = CRON_MACROS[expression.trim()] ?? expression.trim();
+  const parts = source.split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`Expression cron invalide: "${expression}" (minute heure jour mois jour-semaine)`);
+  }
+
+  const fields = parts.map((part, i) => parseCronField(part, CRON_FIELDS[i]!));
+  // 7 et 0 designent le dimanche
+  if (fields[4]!.has(7)) fields[4]!.add(0);
+
+  return { fields, dayOr: !parts[2]!.startsWith('*') && !parts[4]!.startsWith('*') };
+}
+
+/**
+ * La date (a la minute) correspond-elle a l'expression
+ */
+export function cronMatches(expression: string, date: Date): boolean {
+  const { fields, dayOr } = parseCron(expression);
+  const [minutes, hours, days, months, weekdays] = fields as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  const dayMatch = dayOr
+    ? days.has(date.getDate()) || weekdays.has(date.getDay())
+    : days.has(date.getDate()) && weekdays.has(date.getDay());
+
+  return minutes.has(date.getMinutes()) && hours.has(date.getHours()) && months.has(date.getMonth() + 1) && dayMatch;
+}
+
+/**
+ * Valide et normalise une planification
+ */
+export function normalizeBackupSchedule(schedule: BackupSchedule): BackupSchedule {
+  if (typeof schedule.cron !== 'string') throw new Error('Expression cron requise');
+  parseCron(schedule.cron);
+
+  const retention = schedule.retention ?? DEFAULT_RETENTION;
+  if (!Number.isInteger(retention) || retention < 1 || retention > 365) {
+    throw new Error(`Retention invalide: ${schedule.retention} (1 a 365 sauvegardes)`);
+  }
+
+  return { cron: schedule.cron.trim(), retention };
+}
+
+// ============================================
+// Exports logiques des add-ons
+// ============================================
+
+interface DumpCommand {
+  extension: string;
+
+  /** Commande executee dans le container de l'add-on (variables d'environnement du container) */
+  dump: string;
+  restore: string;
+}
+
+/** Add-ons exportes logiquement; les autres (redis) sont sauvegardes par leur volume */
+const DUMP_COMMANDS: Partial<Record<AddonType, DumpCommand>> = {
+  postgres: {
+    extension: 'sql',
+    dump: 'exec pg_dump --clean --if-exists -U "$POSTGRES_USER" "$POSTGRES_DB"',
+    restore: 'exec psql -q -v ON_ERROR_STOP=1 -U "$POSTGRES_USER" "$POSTGRES_DB"',
+  },
+  mysql: {
+    extension: 'sql',
+    dump: 'exec mysqldump --single-transaction --no-tablespaces -u"$MYSQL_USER" -p"$MYSQL_PASSWORD" "$MYSQL_DATABASE"',
+    restore: 'exec mysql -u"$MYSQL_USER" -p"$MYSQL_PASSWORD" "$MYSQL_DATABASE"',
+  },
+  mongodb: {
+    extension: 'archive',
+    dump: 'exec mongodump --quiet --archive --db "$MONGO_INITDB_DATABASE" '
+      + '-u "$MONGO_INITDB_ROOT_USERNAME" -p "$MONGO_INITDB_ROOT_PASSWORD" --authenticationDatabase admin',
+    restore: 'exec mongorestore --quiet --archive --drop '
+      + '-u "$MONGO_INITDB_ROOT_USERNAME" -p "$MONGO_INITDB_ROOT_PASSWORD" --authenticationDatabase admin',
+  },
+};
+
+// ============================================
+// Utilitaires
+// ============================================
+
+function ensureDirectoryExists(dirPath: string): void {
+  fs.mkdirSync(dirPath, { recursive: true, mode: 0o700 });
+}
+
+function appBackupDir(appId: string): string {
+  return path.join(BACKUP_ROOT, appId);
+}
+
+/**
+ * Identifiant date UTC + suffixe aleatoire (ordre chronologique = ordre alphabetique)
+ */
+function generateBackupId(): string {
+  const date = new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').replace(/\..*$/, '');
+  return `backup-${date}-${randomBytes(2).toString('hex')}`;
+}
+
+/**
+ * Execute une commande et ecrit sa sortie compressee dans un fichier
+ * Retourne la taille et l'empreinte du fichier ecrit
+ */
+async function captureToFile(args: string[], file: string): Promise<Pick<BackupItem, 'size' | 'sha256'>> {
+  const child = spawn('docker', args, { stdio: ['ignore', 'pipe', 'pipe'] });
+  const exited = new Promise<number | null>((resolve, reject) => {
+    child.on('error', reject);
+    child.on('close', resolve);
+  });
+
+  let stderr = '';
+  child.stderr.on('data', (data: Buffer) => { stderr += data.toString(); });
+
+  const hash = createHash('sha256');
+  let size = 0;
+  const measure = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      size += chunk.length;
+      callback(null, chunk);
+    },
+  });
+
+  await pipeline(child.stdout, zlib.createGzip(), measure, fs.createWriteStream(file, { mode: 0o600 }));
+  const code = await exited;
+  if (code !== 0) {
+    throw new Error(stderr.trim() || `docker ${args[0]} termine avec le code ${code}`);
+  }
+
+  return { size, sha256: hash.digest('hex') };
+}
+
+/**
+ * Decompresse un fichier vers l'entree standard d'une commande
+ */
+async function restoreFromFile(args: string[], file: string): Promise<void> {
+  const child = spawn('docker', args, { stdio: ['pipe', 'ignore', 'pipe'] });
+  const exited = new Promise<number | null>((resolve, reject) => {
+    child.on('error', reject);
+    child.on('close', resolve);
+  });
+
+  let stderr = '';
+  child.stderr.on('data', (data: Buffer) => { stderr += data.toString(); });
+
+  // Une commande qui se termine sans lire son entree ferme le pipe: l'erreur de docker prime
+  const piped = pipeline(fs.createReadStream(file), zlib.createGunzip(), child.stdin).catch((err: Error) => err);
+  const code = await exited;
+  if (code !== 0) {
+    throw new Error(stderr.trim() || `docker ${args[0]} termine avec le code ${code}`);
+  }
+
+  const error = await piped;
+  if (error) throw error;
+}
+
+async function fileChecksum(file: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of fs.createReadStream(file)) hash.update(chunk as Buffer);
+  return hash.digest('hex');
+}
+
+// ============================================
+// Service Principal
+// ============================================
+
+class BackupService {
+  private static instance: BackupService | null = null;
+
+  /** Applications en cours de sauvegarde ou de restauration */
+  private busy = new Set<string>();
+
+  private constructor() {}
+
+  static getInstance(): BackupService {
+    if (BackupService.instance === null) {
+      BackupService.instance = new BackupService();
+    }
+    return BackupService.instance;
+  }
+
+  /**
+   * Sauvegardes d'une application, la plus recente en premier
+   */
+  listBackups(appId: string): Backup[] {
+    const dir = appBackupDir(appId);
+    if (!fs.existsSync(dir)) return [];
+
+    return fs.readdirSync(dir)
+      .filter(name => fs.existsSync(path.join(dir, name, MANIFEST_FILE)))
+      .map(name => JSON.parse(fs.readFileSync(path.join(dir, name, MANIFEST_FILE), 'utf-8')) as Backup)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  getBackup(appId: string, backupId: string): Backup {
+    const backup = /^[\w-]+$/.test(backupId) ? this.listBackups(appId).find(b => b.id === backupId) : undefined;
+    if (!backup) throw new Error(`Sauvegarde non trouvee: ${backupId}`);
+    return backup;
+  }
+
+  /**
+   * Sauvegarde les volumes des projets compose de l'application et les bases de ses add-ons
+   * projects: projets compose de l'application (principal et slots blue/green)
+   */
+  async createBackup(app: AppConfig, projects: string[], trigger: BackupTrigger): Promise<Backup> {
+    this.acquire(app.id);
+
+    const id = generateBackupId();
+    const dir = path.join(appBackupDir(app.id), id);
+
+    try {
+      ensureDirectoryExists(dir);
+      const items: BackupItem[] = [];
+
+      for (const volume of await this.listProjectVolumes(projects)) {
+        items.push(await this.backupVolume(dir, volume));
+      }
+      for (const addon of app.addons ?? []) {
+        items.push(DUMP_COMMANDS[addon.type] ? await this.dumpAddon(dir, addon) : await this.backupVolume(dir, addon.volume));
+      }
+      if (items.length === 0) {
+        throw new Error('Aucun volume ni add-on a sauvegarder');
+      }
+
+      const backup: Backup = {
+        id,
+        appId: app.id,
+        appName: app.name,
+        trigger,
+        createdAt: new Date().toISOString(),
+        size: items.reduce((sum, item) => sum + item.size, 0),
+        items,
+      };
+      fs.writeFileSync(path.join(dir, MANIFEST_FILE), JSON.stringify(backup, null, 2), { mode: 0o600 });
+
+      console.log(`[Backups] Sauvegarde ${id} de ${app.name}: ${items.length} element(s), ${backup.size} octets`);
+      return backup;
+    } catch (err) {
+      fs.rmSync(dir, { recursive: true, force: true });
+      throw err;
+    } finally {
+      this.busy.delete(app.id);
+    }
+  }
+
+  /**
+   * Restaure une sauvegarde: volumes remplaces, bases reimportees
+   * Les empreintes sont verifiees et les add-ons recherches avant toute ecriture
+   * L'application doit etre arretee par l'appelant
+   */
+  async restoreBackup(app: AppConfig, backup: Backup): Promise<void> {
+    this.acquire(app.id);
+
+    try {
+      const dir = path.join(appBackupDir(backup.appId), backup.id);
+      const plan: { item: BackupItem; addon?: AppAddon }[] = [];
+
+      for (const item of backup.items) {
+        const file = path.join(dir, item.file);
+        if (!fs.existsSync(file) || await fileChecksum(file) !== item.sha256) {
+          throw new Error(`Fichier ${item.file} absent ou corrompu (empreinte SHA-256 differente)`);
+        }
+        if (item.kind === 'dump') {
+          const addon = app.addons?.find(a => a.type === item.source);
+          if (!addon) throw new Error(`Add-on ${item.source} absent de l'application: ajoutez-le avant de restaurer`);
+          plan.push({ item, addon });
+        } else {
+          plan.push({ item });
+        }
+      }
+
+      for (const { item, addon } of plan) {
+        const file = path.join(dir, item.file);
+        if (addon) {
+          await restoreFromFile(['exec', '-i', addon.containerName, 'sh', '-c', DUMP_COMMANDS[addon.type]!.restore], file);
+        } else {
+          // Volume d'un add-on (redis): un add-on recree porte un nouveau volume, son container est arrete le temps de l'ecriture
+          const owner = app.addons?.find(a => item.source.startsWith(`${a.containerName}-data-`));
+          if (owner) await execAsync(`docker stop ${owner.containerName}`);
+          try {
+            await restoreFromFile([
+              'run', '--rm', '-i', '-v', `${owner?.volume ?? item.source}:/data`, VOLUME_IMAGE,
+              'sh', '-c', 'find /data -mindepth 1 -delete && tar xf - -C /data',
+            ], file);
+          } finally {
+            if (owner) await execAsync(`docker start ${owner.containerName}`);
+          }
+        }
+      }
+
+      console.log(`[Backups] Sauvegarde ${backup.id} restauree pour ${app.name}`);
+    } finally {
+      this.busy.delete(app.id);
+    }
+  }
+
+  deleteBackup(appId: string, backupId: string): void {
+    const backup = this.getBackup(appId, backupId);
+    fs.rmSync(path.join(appBackupDir(appId), backup.id), { recursive: true, force: true });
+    console.log(`[Backups] Sauvegarde ${backup.id} supprimee`);
+  }
+
+  /**
+   * Ne conserve que les retention dernieres sauvegardes planifiees (les manuelles sont conservees)
+   */
+  pruneBackups(appId: string, retention: number): void {
+    const scheduled = this.listBackups(appId).filter(b => b.trigger === 'scheduled');
+    for (const backup of scheduled.slice(retention)) {
+      this.deleteBackup(appId, backup.id);
+    }
+  }
+
+  private acquire(appId: string): void {
+    if (this.busy.has(appId)) {
+      throw new Error('Une sauvegarde ou une restauration est deja en cours pour cette application');
+    }
+    this.busy.add(appId);
+  }
+
+  /**
+   * Volumes nommes crees par compose pour les projets de l'application
+   */
+  private async listProjectVolumes(projects: string[]): Promise<string[]> {
+    const volumes = new Set<string>();
+    for (const project of projects) {
+      const { stdout } = await execAsync(`docker volume ls -q --filter label=com.docker.compose.project=${project}`);
+      stdout.split('\n').map(v => v.trim()).filter(Boolean).forEach(v => volumes.add(v));
+    }
+    return [...volumes];
+  }
+
+  private async backupVolume(dir: string, volume: string): Promise<BackupItem> {
+    const file = `volume-${volume}.tar.gz`;
+    const result = await captureToFile(
+      ['run', '--rm', '-v', `${volume}:/data:ro`, VOLUME_IMAGE, 'tar', 'cf', '-', '-C', '/data', '.'],
+      path.join(dir, file)
+    );
+    return { kind: 'volume', source: volume, file, ...result };
+  }
+
+  private async dumpAddon(dir: string, addon: AppAddon): Promise<BackupItem> {
+    const command = DUMP_COMMANDS[addon.type]!;
+    const file = `${addon.type}.${command.extension}.gz`;
+    const result = await captureToFile(['exec', addon.containerName, 'sh', '-c', command.dump], path.join(dir, file));
+    return { kind: 'dump', source: addon.type, file, ...result };
+  }
+}
+
+export const backupService = BackupService.getInstance();
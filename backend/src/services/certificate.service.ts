@@ -0,0 +1,515 @@
+/**
+ * Service des certificats TLS
+ * Client ACME (RFC 8555) avec challenge HTTP-01 servi par le reverse proxy, et import de certificats
+ * Les certificats sont ecrits dans le repertoire monte par le proxy (<domaine>.crt, <domaine>.key)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as http from 'http';
+import * as https from 'https';
+import { rootCertificates } from 'tls';
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  KeyObject,
+  sign,
+  X509Certificate,
+} from 'crypto';
+import { config } from '../config';
+import { CertificateStatus } from '../types';
+import { ACME_CHALLENGE_DIR, PROXY_CERTS_DIR } from './proxy.service';
+
+// ============================================
+// Types
+// ============================================
+
+/** Informations d'un certificat installe */
+export interface CertificateDetails {
+  issuer: string;
+  notBefore: string;
+  notAfter: string;
+}
+
+interface HttpResponse {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+interface AcmeDirectory {
+  newNonce: string;
+  newAccount: string;
+  newOrder: string;
+}
+
+interface AcmeProblem {
+  type?: string;
+  detail?: string;
+}
+
+interface AcmeChallenge {
+  type: string;
+  url: string;
+  token: string;
+  status: string;
+  error?: AcmeProblem;
+}
+
+interface AcmeResource {
+  status: string;
+  error?: AcmeProblem;
+
+  /** Commande */
+  authorizations?: string[];
+  finalize?: string;
+  certificate?: string;
+
+  /** Autorisation */
+  challenges?: AcmeChallenge[];
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+const CONFIG_DIR = process.env.DOCKTOR_CONFIG_DIR || '/var/app/.docktor';
+
+/** Cles des comptes ACME (une par annuaire) */
+const ACME_ACCOUNTS_DIR = path.join(CONFIG_DIR, 'acme');
+
+const REQUEST_TIMEOUT = 30 * 1000;
+const POLL_INTERVAL = 2 * 1000;
+const POLL_TIMEOUT = 3 * 60 * 1000;
+const DAY = 24 * 60 * 60 * 1000;
+
+const ACME_ERROR_PREFIX = 'urn:ietf:params:acme:error:';
+
+/** Suffixes reserves ou prives: aucune CA publique n'y emet de certificat */
+const NON_PUBLIC_SUFFIXES = [
+  'localhost', 'local', 'localdomain', 'internal', 'test', 'example', 'invalid',
+  'lan', 'home', 'corp', 'intranet', 'home.arpa',
+];
+
+// ============================================
+// Utilitaires
+// ============================================
+
+function base64url(data: Buffer | string): string {
+  return Buffer.from(data).toString('base64url');
+}
+
+function certificateFiles(domain: string): { certificate: string; privateKey: string } {
+  return {
+    certificate: path.join(PROXY_CERTS_DIR, `${domain}.crt`),
+    privateKey: path.join(PROXY_CERTS_DIR, `${domain}.key`),
+  };
+}
+
+/**
+ * Etat d'un certificat selon sa date d'expiration
+ */
+export function certificateStatus(notAfter: string): CertificateStatus {
+  const remaining = new Date(notAfter).getTime() - Date.now();
+  if (remaining <= 0) return 'failed';
+  return remaining < config.certRenewDays * DAY ? 'expiring' : 'valid';
+}
+
+/**
+ * Raison pour laquelle un domaine n'obtient pas de certificat ACME, null s'il y est eligible
+ */
+export function acmeIneligibility(domain: string): string | null {
+  if (!config.acmeDirectoryUrl) {
+    return 'Emission ACME desactivee (ACME_DIRECTORY_URL non configure): importez un certificat';
+  }
+  if (/^[\d.]+$/.test(domain) || NON_PUBLIC_SUFFIXES.some(suffix => domain === suffix || domain.endsWith(`.${suffix}`))) {
+    return `Domaine non public (${domain}): importez un certificat`;
+  }
+  return null;
+}
+
+function certificateDetails(certificate: X509Certificate): CertificateDetails {
+  const issuer = certificate.issuer.split('\n');
+  return {
+    issuer: (issuer.find(l => l.startsWith('O=')) ?? issuer.find(l => l.startsWith('CN=')) ?? '').replace(/^\w+=/, ''),
+    notBefore: new Date(certificate.validFrom).toISOString(),
+    notAfter: new Date(certificate.validTo).toISOString(),
+  };
+}
+
+// ============================================
+// Encodage DER (demande de certificat PKCS#10)
+// ============================================
+
+const DER_SEQUENCE = 0x30;
+const DER_SET = 0x31;
+
+function derLength(length: number): Buffer {
+  if (length < 0x80) return Buffer.from([length]);
+  const bytes: number[] = [];
+  for (let n = length; n > 0; n >>= 8) bytes.unshift(n & 0xff);
+  return Buffer.from([0x80 | bytes.length, ...bytes]);
+}
+
+function der(tag: number, ...content: Buffer[]): Buffer {
+  const body = Buffer.concat(content);
+  return Buffer.concat([Buffer.from([tag]), derLength(body.length), body]);
+}
+
+function derOid(oid: string): Buffer {
+  const [first = 0, second = 0, ...arcs] = oid.split('.').map(Number);
+  const bytes = [first * 40 + second];
+  for (const arc of arcs) {
+    // Base 128, bit de poids fort sur tous les octets sauf le dernier
+    const encoded = [arc & 0x7f];
+    for (let n = Math.floor(arc / 128); n > 0; n = Math.floor(n / 128)) encoded.unshift((n & 0x7f) | 0x80);
+    bytes.push(...encoded);
+  }
+  return der(0x06, Buffer.from(bytes));
+}
+
+/**
+ * Demande de certificat pour un domaine (CN et subjectAltName), signee ECDSA SHA-256
+ */
+function createCsr(domain: string, key: KeyObject): Buffer {
+  const name = Buffer.from(domain);
+
+  // Le CN est limite a 64 caracteres, le subjectAltName suffit aux CA
+  const subject = domain.length <= 64
+    ? der(DER_SEQUENCE, der(DER_SET, der(DER_SEQUENCE, derOid('2.5.4.3'), der(0x0c, name))))
+    : der(DER_SEQUENCE);
+  const subjectAltName = der(DER_SEQUENCE, der(0x82, name));
+  const extensions = der(DER_SEQUENCE, der(DER_SEQUENCE, derOid('2.5.29.17'), der(0x04, subjectAltName)));
+  const attributes = der(0xa0, der(DER_SEQUENCE, derOid('1.2.840.113549.1.9.14'), der(DER_SET, extensions)));
+
+  const info = der(
+    DER_SEQUENCE,
+    der(0x02, Buffer.from([0])),
+    subject,
+    createPublicKey(key).export({ type: 'spki', format: 'der' }),
+    attributes
+  );
+
+  return der(
+    DER_SEQUENCE,
+    info,
+    der(DER_SEQUENCE, derOid('1.2.840.10045.4.3.2')),
+    der(0x03, Buffer.from([0]), sign('sha256', info, key))
+  );
+}
+
+// ============================================
+// Client ACME
+// ============================================
+
+let trustedCertificates: string[] | null = null;
+
+/**
+ * Autorites de confiance: racines de Node et bundle configure (CA de test)
+ */
+function acmeTrust(): string[] | undefined {
+  if (!config.acmeCaBundle) return undefined;
+  trustedCertificates ??= [...rootCertificates, fs.readFileSync(config.acmeCaBundle, 'utf-8')];
+  return trustedCertificates;
+}
+
+function httpRequest(url: string, method: string, body?: string): Promise<HttpResponse> {
+  const target = new URL(url);
+  const ca = target.protocol === 'https:' ? acmeTrust() : undefined;
+
+  return new Promise((resolve, reject) => {
+    const request = (target.protocol === 'http:' ? http : https).request(target, {
+      method,
+      timeout: REQUEST_TIMEOUT,
+      headers: {
+        'User-Agent': 'docktor-acme',
+        ...(body !== undefined && { 'Content-Type': 'application/jose+json' }),
+      },
+      ...(ca && { ca }),
+    }, response => {
+      const chunks: Buffer[] = [];
+      response.on('data', (chunk: Buffer) => chunks.push(chunk));
+      response.on('end', () => resolve({ status: response.statusCode ?? 0, headers: response.headers, body: Buffer.concat(chunks) }));
+      response.on('error', reject);
+    });
+
+    request.on('timeout', () => request.destroy(new Error(`Delai depasse: ${url}`)));
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+function problemMessage(problem: AcmeProblem | undefined, fallback: string): string {
+  if (!problem) return fallback;
+  const type = problem.type?.replace(ACME_ERROR_PREFIX, '');
+  return [type, problem.detail].filter(Boolean).join(': ') || fallback;
+}
+
+/**
+ * Cle du compte ACME de l'annuaire configure (creee au premier usage)
+ */
+function accountKey(directoryUrl: string): KeyObject {
+  const file = path.join(
+    ACME_ACCOUNTS_DIR,
+    `account-${createHash('sha256').update(directoryUrl).digest('hex').slice(0, 16)}.pem`
+  );
+  if (fs.existsSync(file)) return createPrivateKey(fs.readFileSync(file, 'utf-8'));
+
+  fs.mkdirSync(ACME_ACCOUNTS_DIR, { recursive: true, mode: 0o700 });
+  const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  fs.writeFileSync(file, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+  return privateKey;
+}
+
+/**
+ * Session ACME: requetes signees (JWS ES256) avec le compte de l'annuaire
+ */
+class AcmeSession {
+  private nonce: string | null = null;
+  private kid: string | null = null;
+  private readonly jwk: Record<string, string>;
+
+  /** Empreinte de la cle du compte (reponse aux challenges HTTP-01) */
+  readonly thumbprint: string;
+
+  private constructor(readonly directory: AcmeDirectory, private readonly key: KeyObject) {
+    const { crv, kty, x, y } = createPublicKey(key).export({ format: 'jwk' });
+    this.jwk = { crv: crv ?? '', kty: kty ?? '', x: x ?? '', y: y ?? '' };
+    // RFC 7638: membres requis dans l'ordre lexicographique
+    this.thumbprint = base64url(createHash('sha256').update(JSON.stringify(this.jwk)).digest());
+  }
+
+  /**
+   * Charge l'annuaire et enregistre (ou retrouve) le compte
+   */
+  static async open(directoryUrl: string): Promise<AcmeSession> {
+    const response = await httpRequest(directoryUrl, 'GET');
+    if (response.status !== 200) {
+      throw new Error(`Annuaire ACME injoignable (${response.status}): ${directoryUrl}`);
+    }
+
+    const session = new AcmeSession(JSON.parse(response.body.toString()) as AcmeDirectory, accountKey(directoryUrl));
+    const account = await session.post(session.directory.newAccount, {
+      termsOfServiceAgreed: true,
+      ...(config.acmeEmail && { contact: [`mailto:${config.acmeEmail}`] }),
+    });
+
+    const location = account.headers.location;
+    if (!location) throw new Error('Compte ACME sans identifiant');
+    session.kid = location;
+    return session;
+  }
+
+  private async newNonce(): Promise<string> {
+    const response = await httpRequest(this.directory.newNonce, 'HEAD');
+    const nonce = response.headers['replay-nonce'];
+    if (typeof nonce !== 'string') throw new Error('Nonce ACME absent');
+    return nonce;
+  }
+
+  /**
+   * Requete signee; payload null pour un POST-as-GET
+   * Un nonce refuse (badNonce) est renouvele
+   */
+  async post(url: string, payload: object | null): Promise<HttpResponse> {
+    for (let attempt = 1; ; attempt++) {
+      const nonce = this.nonce ?? await this.newNonce();
+      this.nonce = null;
+
+      const header = base64url(JSON.stringify({
+        alg: 'ES256',
+        nonce,
+        url,
+        ...(this.kid ? { kid: this.kid } : { jwk: this.jwk }),
+      }));
+      const body = payload === null ? '' : base64url(JSON.stringify(payload));
+      const signature = sign('sha256', Buffer.from(`${header}.${body}`), { key: this.key, dsaEncoding: 'ieee-p1363' });
+
+      const response = await httpRequest(url, 'POST', JSON.stringify({
+        protected: header,
+        payload: body,
+        signature: base64url(signature),
+      }));
+
+      const replayNonce = response.headers['replay-nonce'];
+      if (typeof replayNonce === 'string') this.nonce = replayNonce;
+
+      if (response.status < 400) return response;
+
+      let problem: AcmeProblem = {};
+      try {
+        problem = JSON.parse(response.body.toString()) as AcmeProblem;
+      } catch {}
+      if (problem.type === `${ACME_ERROR_PREFIX}badNonce` && attempt < 3) continue;
+      throw new Error(problemMessage(problem, `Erreur ACME ${response.status}`));
+    }
+  }
+
+  async fetch(url: string): Promise<AcmeResource> {
+    return JSON.parse((await this.post(url, null)).body.toString()) as AcmeResource;
+  }
+
+  /**
+   * Attend qu'une ressource (autorisation, commande) atteigne l'etat attendu
+   */
+  async waitFor(url: string, status: string): Promise<AcmeResource> {
+    const deadline = Date.now() + POLL_TIMEOUT;
+
+    while (true) {
+      const resource = await this.fetch(url);
+      if (resource.status === status) return resource;
+
+      if (resource.status === 'invalid') {
+        const challengeError = resource.challenges?.find(c => c.error)?.error;
+        throw new Error(problemMessage(resource.error ?? challengeError, 'Validation refusee par la CA'));
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Delai depasse en attente de l'etat ${status} (etat: ${resource.status})`);
+      }
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+    }
+  }
+}
+
+// ============================================
+// Service Principal
+// ============================================
+
+class CertificateService {
+  private static instance: CertificateService | null = null;
+
+  private constructor() {}
+
+  static getInstance(): CertificateService {
+    if (CertificateService.instance === null) {
+      CertificateService.instance = new CertificateService();
+    }
+    return CertificateService.instance;
+  }
+
+  /**
+   * Certificat installe pour un domaine (null si absent ou illisible)
+   */
+  read(domain: string): CertificateDetails | null {
+    const files = certificateFiles(domain);
+    if (!fs.existsSync(files.certificate) || !fs.existsSync(files.privateKey)) return null;
+
+    try {
+      return certificateDetails(new X509Certificate(fs.readFileSync(files.certificate)));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Emet un certificat via ACME (challenge HTTP-01)
+   * Le domaine doit deja etre route par le proxy vers lequel pointe son DNS
+   */
+  async issue(domain: string): Promise<CertificateDetails> {
+    const ineligible = acmeIneligibility(domain);
+    if (ineligible || !config.acmeDirectoryUrl) throw new Error(ineligible ?? 'Emission ACME desactivee');
+
+    const session = await AcmeSession.open(config.acmeDirectoryUrl);
+
+    const created = await session.post(session.directory.newOrder, { identifiers: [{ type: 'dns', value: domain }] });
+    const orderUrl = created.headers.location;
+    if (!orderUrl) throw new Error('Commande ACME sans adresse');
+    const order = JSON.parse(created.body.toString()) as AcmeResource;
+
+    for (const authorizationUrl of order.authorizations ?? []) {
+      const authorization = await session.fetch(authorizationUrl);
+      if (authorization.status === 'valid') continue;
+
+      const challenge = authorization.challenges?.find(c => c.type === 'http-01');
+      if (!challenge) throw new Error('La CA ne propose pas de challenge HTTP-01');
+      if (!/^[\w-]+$/.test(challenge.token)) throw new Error('Jeton de challenge invalide');
+
+      const file = path.join(ACME_CHALLENGE_DIR, challenge.token);
+      fs.mkdirSync(ACME_CHALLENGE_DIR, { recursive: true });
+      fs.writeFileSync(file, `${challenge.token}.${session.thumbprint}`, { mode: 0o644 });
+
+      try {
+        await session.post(challenge.url, {});
+        await session.waitFor(authorizationUrl, 'valid');
+      } finally {
+        fs.rmSync(file, { force: true });
+      }
+    }
+
+    const ready = await session.waitFor(orderUrl, 'ready');
+    if (!ready.finalize) throw new Error('Commande ACME sans adresse de finalisation');
+
+    const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+    await session.post(ready.finalize, { csr: base64url(createCsr(domain, privateKey)) });
+
+    const issued = await session.waitFor(orderUrl, 'valid');
+    if (!issued.certificate) throw new Error('Commande ACME sans certificat');
+    const chain = (await session.post(issued.certificate, null)).body.toString();
+
+    const details = this.write(domain, chain, privateKey);
+    console.log(`[Certificates] Certificat emis pour ${domain} (${details.issuer}, expire le ${details.notAfter})`);
+    return details;
+  }
+
+  /**
+   * Installe un certificat importe (chaine PEM, certificat du domaine en premier)
+   */
+  install(domain: string, certificate: string, privateKey: string): CertificateDetails {
+    let x509: X509Certificate;
+    let key: KeyObject;
+    try {
+      x509 = new X509Certificate(certificate);
+    } catch {
+      throw new Error('Certificat invalide (PEM attendu)');
+    }
+    try {
+      key = createPrivateKey(privateKey);
+    } catch {
+      throw new Error('Cle privee invalide (PEM non chiffre attendu)');
+    }
+
+    if (!x509.checkPrivateKey(key)) {
+      throw new Error('La cle privee ne correspond pas au certificat');
+    }
+    if (!x509.checkHost(domain)) {
+      throw new Error(`Le certificat ne couvre pas le domaine ${domain}`);
+    }
+    if (new Date(x509.validTo).getTime() <= Date.now()) {
+      throw new Error(`Certificat expire le ${new Date(x509.validTo).toISOString()}`);
+    }
+
+    const details = this.write(domain, certificate, key);
+    console.log(`[Certificates] Certificat importe pour ${domain} (${details.issuer}, expire le ${details.notAfter})`);
+    return details;
+  }
+
+  remove(domain: string): void {
+    const files = certificateFiles(domain);
+    fs.rmSync(files.certificate, { force: true });
+    fs.rmSync(files.privateKey, { force: true });
+  }
+
+  /**
+   * Ecrit le certificat et sa cle (remplacement atomique: le proxy ne lit jamais un fichier partiel)
+   */
+  private write(domain: string, certificate: string, key: KeyObject): CertificateDetails {
+    const details = certificateDetails(new X509Certificate(certificate));
+    const files = certificateFiles(domain);
+    fs.mkdirSync(PROXY_CERTS_DIR, { recursive: true, mode: 0o700 });
+
+    const contents: [string, string, number][] = [
+      [files.privateKey, key.export({ type: 'pkcs8', format: 'pem' }).toString(), 0o600],
+      [files.certificate, `${certificate.trim()}\n`, 0o644],
+    ];
+    for (const [file, content, mode] of contents) {
+      fs.writeFileSync(`${file}.tmp`, content, { mode });
+      fs.renameSync(`${file}.tmp`, file);
+    }
+
+    return details;
+  }
+}
+
+export const certificateService = CertificateService.getInstance();
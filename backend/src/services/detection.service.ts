@@ -0,0 +1,332 @@
+/**
+ * Service de detection du type d'application
+ * Analyse les fichiers d'un repository pour suggerer un template, un port et des commandes
+ */
+
+import { AppDetection, AppType, DetectionConfidence, TemplateParameterValues } from '../types';
+import { getTemplate } from '../templates/app.templates';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Fichiers d'un repository soumis a la detection
+ * files: fichiers et dossiers a la racine, contents: contenu des fichiers lus (DETECTION_FILES)
+ */
+export interface RepositoryFiles {
+  files: string[];
+  contents: Map<string, string>;
+}
+
+/** Suggestion avant completion par les valeurs du template */
+interface Candidate {
+  type: AppType;
+  confidence: DetectionConfidence;
+  reasons: string[];
+  internalPort?: number;
+  buildCommand?: string;
+  startCommand?: string;
+  parameters?: TemplateParameterValues;
+}
+
+// ============================================
+// Constantes
+// ============================================
+
+/** Fichiers dont le contenu est lu pour la detection */
+export const DETECTION_FILES = [
+  'package.json',
+  'composer.json',
+  'requirements.txt',
+  'pyproject.toml',
+  'manage.py',
+  'Gemfile',
+  'go.mod',
+  'Cargo.toml',
+  'pom.xml',
+  'build.gradle',
+  'build.gradle.kts',
+  'Dockerfile',
+  'docker-compose.yml',
+  'docker-compose.yaml',
+  'compose.yml',
+  'compose.yaml',
+];
+
+const COMPOSE_FILES = ['docker-compose.yml', 'docker-compose.yaml', 'compose.yml', 'compose.yaml'];
+
+/** Points d'entree Python usuels, par ordre de preference */
+const PYTHON_ENTRYPOINTS = ['main.py', 'app.py', 'server.py', 'wsgi.py'];
+
+// ============================================
+// Utilitaires
+// ============================================
+
+function parseJson(content: string | undefined): any {
+  if (content === undefined) return null;
+  try {
+    return JSON.parse(content);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Premier port EXPOSE d'un Dockerfile
+ */
+function exposedPort(dockerfile: string | undefined): number | undefined {
+  const match = dockerfile?.match(/^\s*EXPOSE\s+(\d+)/im);
+  return match?.[1] ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * Port du container du premier mapping "hote:container" d'un docker-compose
+ */
+function composeContainerPort(compose: string | undefined): number | undefined {
+  const match = compose?.match(/^\s*-\s*["']?(?:[\w.${}:-]+:)?[\w${}-]+:(\d+)(?:\/\w+)?["']?\s*$/m);
+  return match?.[1] ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * Port explicite dans une commande (--port 4000, -p 4000, PORT=4000)
+ */
+function commandPort(command: string | undefined): number | undefined {
+  const match = command?.match(/(?:--port[= ]|-p |PORT=)(\d{2,5})\b/);
+  return match?.[1] ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * Le fichier de dependances Python mentionne-t-il un paquet
+ */
+function hasPythonPackage(content: string, name: string): boolean {
+  return new RegExp(`^\\s*["']?${name}\\b`, 'im').test(content);
+}
+
+// ============================================
+// Detecteurs
+// ============================================
+
+function detectPhp(repo: RepositoryFiles): Candidate | null {
+  const composer = parseJson(repo.contents.get('composer.json'));
+
+  if (composer?.require?.['laravel/framework'] || repo.files.includes('artisan')) {
+    return { type: 'laravel', confidence: 'high', reasons: ['Dependance laravel/framework dans composer.json'] };
+  }
+  if (composer) {
+    return { type: 'php', confidence: 'medium', reasons: ['composer.json present'] };
+  }
+  if (repo.files.includes('index.php')) {
+    return { type: 'php', confidence: 'medium', reasons: ['index.php a la racine'] };
+  }
+  return null;
+}
+
+function detectNode(repo: RepositoryFiles): Candidate | null {
+  const pkg = parseJson(repo.contents.get('package.json'));
+  if (!pkg) return null;
+
+  const dependencies = { ...pkg.dependencies, ...pkg.devDependencies };
+  const scripts: Record<string, string> = pkg.scripts ?? {};
+  const buildCommand = scripts['build'] ? 'npm ci && npm run build' : undefined;
+  const startCommand = scripts['start'] ? 'npm start' : typeof pkg.main === 'string' ? `node ${pkg.main}` : undefined;
+  const internalPort = commandPort(scripts['start']);
+
+  const candidate = (type: AppType, confidence: DetectionConfidence, reason: string): Candidate => ({
+    type,
+    confidence,
+    reasons: [reason],
+    ...(internalPort !== undefined && { internalPort }),
+    ...(buildCommand && { buildCommand }),
+    ...(startCommand && { startCommand }),
+  });
+
+  if (dependencies['next']) {
+    return candidate('nextjs', 'high', 'Dependance next dans package.json');
+  }
+  if (dependencies['typescript'] || repo.files.includes('tsconfig.json')) {
+    return candidate('nodejs-typescript', 'medium', 'TypeScript dans package.json');
+  }
+
+  // Projet front sans serveur: le build produit un site statique
+  if (!scripts['start'] && dependencies['vite'] && repo.files.includes('index.html')) {
+    return { type: 'static', confidence: 'low', reasons: ['Projet Vite sans script start (site statique a construire)'] };
+  }
+
+  return candidate('nodejs', 'medium', 'package.json present');
+}
+
+function detectPython(repo: RepositoryFiles): Candidate | null {
+  const requirements = repo.contents.get('requirements.txt');
+  const pyproject = repo.contents.get('pyproject.toml');
+  if (requirements === undefined && pyproject === undefined) return null;
+
+  const dependencies = `${requirements ?? ''}\n${pyproject ?? ''}`;
+  const entrypoint = PYTHON_ENTRYPOINTS.find(file => repo.files.includes(file));
+  const module = entrypoint?.replace(/\.py$/, '') ?? 'main';
+  const reasons = [requirements !== undefined ? 'requirements.txt present' : 'pyproject.toml present'];
+
+  let startCommand = entrypoint ? `python ${entrypoint}` : undefined;
+  if (hasPythonPackage(dependencies, 'fastapi')) {
+    reasons.push('Framework FastAPI');
+    startCommand = `uvicorn ${module}:app --host 0.0.0.0 --port 8000`;
+  } else if (hasPythonPackage(dependencies, 'flask')) {
+    reasons.push('Framework Flask');
+    startCommand = `gunicorn --bind 0.0.0.0:8000 ${module}:app`;
+  } else if (hasPythonPackage(dependencies, 'django') || repo.files.includes('manage.py')) {
+    // manage.py: os.environ.setdefault('DJANGO_SETTINGS_MODULE', 'monprojet.settings')
+    const project = repo.contents.get('manage.py')?.match(/DJANGO_SETTINGS_MODULE['"],\s*['"]([\w]+)\./)?.[1];
+    return {
+      type: 'django',
+      confidence: 'high',
+      reasons: [...reasons, 'Framework Django'],
+      ...(project && {
+        startCommand: `gunicorn --bind 0.0.0.0:8000 ${project}.wsgi`,
+        parameters: { DJANGO_PROJECT: project },
+      }),
+    };
+  }
+
+  return {
+    type: 'python',
+    confidence: reasons.length > 1 ? 'high' : 'medium',
+    reasons,
+    ...(requirements !== undefined && { buildCommand: 'pip install -r requirements.txt' }),
+    ...(startCommand && { startCommand }),
+  };
+}
+
+function detectRails(repo: RepositoryFiles): Candidate | null {
+  const gemfile = repo.contents.get('Gemfile');
+  if (gemfile === undefined || !/^\s*gem\s+["']rails["']/m.test(gemfile)) return null;
+  return { type: 'rails', confidence: 'high', reasons: ['Gem rails dans le Gemfile'] };
+}
+
+function detectGo(repo: RepositoryFiles): Candidate | null {
+  if (!repo.contents.has('go.mod')) return null;
+  return { type: 'go', confidence: 'high', reasons: ['go.mod present'] };
+}
+
+function detectRust(repo: RepositoryFiles): Candidate | null {
+  const cargo = repo.contents.get('Cargo.toml');
+  if (cargo === undefined) return null;
+
+  // Premier name = du fichier: celui de la section [package]
+  const binary = cargo.match(/^\s*name\s*=\s*["']([\w-]+)["']/m)?.[1];
+  return {
+    type: 'rust',
+    confidence: 'high',
+    reasons: ['Cargo.toml present'],
+    ...(binary && { startCommand: `./target/release/${binary}`, parameters: { BINARY_NAME: binary } }),
+  };
+}
+
+function detectSpringBoot(repo: RepositoryFiles): Candidate | null {
+  const build = ['pom.xml', 'build.gradle', 'build.gradle.kts']
+    .map(file => repo.contents.get(file))
+    .find(content => content?.includes('spring-boot'));
+  if (build === undefined) return null;
+
+  const gradle = !repo.contents.has('pom.xml') || repo.files.includes('gradlew');
+  return {
+    type: 'spring-boot',
+    confidence: 'high',
+    reasons: ['Dependance spring-boot dans le fichier de build'],
+    buildCommand: gradle ? './gradlew bootJar' : './mvnw package -DskipTests',
+  };
+}
+
+function detectDotnet(repo: RepositoryFiles): Candidate | null {
+  const project = repo.files.find(file => file.endsWith('.csproj'));
+  if (!project) return null;
+
+  const assembly = project.replace(/\.csproj$/, '');
+  return {
+    type: 'dotnet',
+    confidence: 'high',
+    reasons: [`Projet ${project} a la racine`],
+    startCommand: `dotnet ${assembly}.dll`,
+    ...(/^[\w.-]+$/.test(assembly) && { parameters: { ASSEMBLY_NAME: assembly } }),
+  };
+}
+
+function detectStatic(repo: RepositoryFiles): Candidate | null {
+  if (!repo.files.includes('index.html')) return null;
+  return { type: 'static', confidence: 'medium', reasons: ['index.html a la racine'] };
+}
+
+/**
+ * Repository fournissant uniquement son Dockerfile ou son docker-compose
+ */
+function detectDocker(repo: RepositoryFiles): Candidate | null {
+  const dockerfile = repo.contents.get('Dockerfile');
+  const compose = COMPOSE_FILES.map(file => repo.contents.get(file)).find(content => content !== undefined);
+  if (dockerfile === undefined && compose === undefined) return null;
+
+  const internalPort = exposedPort(dockerfile) ?? composeContainerPort(compose);
+  return {
+    type: 'custom',
+    confidence: 'medium',
+    reasons: [dockerfile !== undefined ? 'Dockerfile present' : 'docker-compose present'],
+    ...(internalPort !== undefined && { internalPort }),
+  };
+}
+
+/** Detecteurs par ordre de priorite: le premier resultat l'emporte */
+const DETECTORS = [
+  detectPhp,
+  detectNode,
+  detectPython,
+  detectRails,
+  detectGo,
+  detectRust,
+  detectSpringBoot,
+  detectDotnet,
+  detectStatic,
+  detectDocker,
+];
+
+// ============================================
+// Service Principal
+// ============================================
+
+class DetectionService {
+  private static instance: DetectionService | null = null;
+
+  private constructor() {}
+
+  static getInstance(): DetectionService {
+    if (DetectionService.instance === null) {
+      DetectionService.instance = new DetectionService();
+    }
+    return DetectionService.instance;
+  }
+
+  /**
+   * Suggere un template a partir des fichiers du repository
+   * Les valeurs non detectees sont celles du template suggere
+   */
+  detect(repo: RepositoryFiles): AppDetection {
+    const candidate: Candidate = DETECTORS.reduce<Candidate | null>((found, detector) => found ?? detector(repo), null)
+      ?? { type: 'custom', confidence: 'low', reasons: ['Aucun fichier reconnu'] };
+
+    const template = getTemplate(candidate.type);
+    const dockerfile = repo.contents.get('Dockerfile');
+    const buildCommand = candidate.buildCommand ?? template?.buildCommand;
+    const startCommand = candidate.startCommand ?? template?.startCommand;
+
+    return {
+      type: candidate.type,
+      confidence: candidate.confidence,
+      internalPort: candidate.internalPort ?? template?.defaultInternalPort ?? 3000,
+      ...(buildCommand && { buildCommand }),
+      ...(startCommand && { startCommand }),
+      ...(candidate.parameters && { parameters: candidate.parameters }),
+      reasons: candidate.reasons,
+      hasDockerfile: dockerfile !== undefined,
+      hasDockerCompose: COMPOSE_FILES.some(file => repo.contents.has(file)),
+    };
+  }
+}
+
+export const detectionService = DetectionService.getInstance();
@@ -5,3 +5,13 @@ export * from './docker.service';
 export * from './system.service';
 export * from './port.service';
 export * from './app.service';
+export * from './auth.service';
+export * from './permission.service';
+export * from './secret.service';
+export * from './webhook.service';
+export * from './detection.service';
+export * from './template.service';
+export * from './addon.service';
+export * from './backup.service';
+export * from './proxy.service';
+export * from './certificate.service';
@@ -0,0 +1,120 @@
+/**
+ * Service de controle d'acces (RBAC)
+ * Associe les roles aux permissions et resout le role effectif par application
+ */
+
+import { Permission, Role, User } from '../types';
+
+/** Permissions de lecture (role viewer) */
+const VIEWER_PERMISSIONS: Permission[] = [
+  'system:read',
+  'containers:read',
+  'containers:logs',
+  'apps:read',
+  'apps:logs',
+];
+
+/** Permissions d'exploitation (role operator) */
+const OPERATOR_PERMISSIONS: Permission[] = [
+  ...VIEWER_PERMISSIONS,
+  'containers:start',
+  'containers:stop',
+  'containers:restart',
+  'apps:update',
+  'apps:deploy',
+  'apps:start',
+  'apps:stop',
+  'apps:restart',
+];
+
+/** Permissions d'administration (role admin) */
+const ADMIN_PERMISSIONS: Permission[] = [
+  ...OPERATOR_PERMISSIONS,
+  'apps:create',
+  'apps:delete',
+  'templates:manage',
+  'users:manage',
+];
+
+/**
+ * Matrice role -> permissions
+ */
+export const ROLE_PERMISSIONS: Record<Role, ReadonlySet<Permission>> = {
+  viewer: new Set(VIEWER_PERMISSIONS),
+  operator: new Set(OPERATOR_PERMISSIONS),
+  admin: new Set(ADMIN_PERMISSIONS),
+};
+
+/** Permissions qui n'ont de sens qu'au niveau global (pas par application) */
+const GLOBAL_ONLY_PERMISSIONS: ReadonlySet<Permission> = new Set<Permission>([
+  'users:manage',
+  'apps:create',
+  'templates:manage',
+]);
+
+export const ROLES: Role[] = ['viewer', 'operator', 'admin'];
+
+/**
+ * Service de controle d'acces
+ */
+class PermissionService {
+  private static instance: PermissionService | null = null;
+
+  private constructor() {}
+
+  static getInstance(): PermissionService {
+    if (PermissionService.instance === null) {
+      PermissionService.instance = new PermissionService();
+    }
+    return PermissionService.instance;
+  }
+
+  /**
+   * Verifie qu'une valeur est un role connu
+   */
+  isRole(value: unknown): value is Role {
+    return typeof value === 'string' && (ROLES as string[]).includes(value);
+  }
+
+  /**
+   * Role effectif d'un utilisateur, eventuellement pour une application donnee
+   */
+  getEffectiveRole(user: User, appId?: string): Role {
+    if (appId !== undefined) {
+      const appRole = user.appRoles?.[appId];
+      if (appRole !== undefined) return appRole;
+    }
+    return user.role;
+  }
+
+  /**
+   * Verifie qu'un utilisateur dispose d'une permission
+   * Si appId est fourni, le role specifique a l'application est pris en compte
+   */
+  hasPermission(user: User, permission: Permission, appId?: string): boolean {
+    const scopedAppId = GLOBAL_ONLY_PERMISSIONS.has(permission) ? undefined : appId;
+    const role = this.getEffectiveRole(user, scopedAppId);
+    return ROLE_PERMISSIONS[role].has(permission);
+  }
+
+  /**
+   * Liste des permissions globales d'un utilisateur
+   */
+  getPermissions(user: User): Permission[] {
+    return Array.from(ROLE_PERMISSIONS[user.role]);
+  }
+
+  /**
+   * Permissions effectives pour chaque application ayant un role specifique
+   */
+  getAppPermissions(user: User): Record<string, Permission[]> {
+    const result: Record<string, Permission[]> = {};
+    for (const appId of Object.keys(user.appRoles ?? {})) {
+      result[appId] = Array.from(ROLE_PERMISSIONS[this.getEffectiveRole(user, appId)])
+        .filter(p => !GLOBAL_ONLY_PERMISSIONS.has(p));
+    }
+    return result;
+  }
+}
+
+export const permissionService = PermissionService.getInstance();
@@ -3,19 +3,9 @@
  * Allocation dynamique des ports pour les applications
  */
 
-import * as fs from 'fs';
-import * as path from 'path';
 import * as net from 'net';
 import { PortAllocation, PortRange } from '../types';
-
-/** 
- * Repertoire de configuration Docktor
- * Par defaut /var/app/.docktor, configurable via env
- */
-const CONFIG_DIR = process.env.DOCKTOR_CONFIG_DIR || '/var/app/.docktor';
-
-/** Fichier de stockage des allocations de ports */
-const PORTS_FILE = path.join(CONFIG_DIR, 'ports.json');
+import { portRepository } from '../repositories';
 
 /** Plage de ports par defaut */
 const DEFAULT_PORT_RANGE: PortRange = {
@@ -23,24 +13,6 @@ const DEFAULT_PORT_RANGE: PortRange = {
   end: 20000,
 };
 
-/**
- * Cree un repertoire de maniere securisee
- */
-function ensureDirectoryExists(dirPath: string): boolean {
-  try {
-    if (!fs.existsSync(dirPath)) {
-      fs.mkdirSync(dirPath, { recursive: true, mode: 0o755 });
-    }
-    return true;
-  } catch (error: any) {
-    if (error.code === 'EEXIST') {
-      return true;
-    }
-    console.error(`[PortManager] Impossible de creer ${dirPath}:`, error.message);
-    return false;
-  }
-}
-
 /**
  * Service de gestion des ports
  */
@@ -64,41 +36,32 @@ class PortManagerService {
   }
 
   /**
-   * Charge les allocations depuis le fichier
+   * Charge les allocations depuis la base
    */
   private loadAllocations(): void {
     try {
-      if (fs.existsSync(PORTS_FILE)) {
-        const data = JSON.parse(fs.readFileSync(PORTS_FILE, 'utf-8'));
-        this.allocations = new Map(
-          data.allocations.map((a: PortAllocation) => [a.port, a])
-        );
-        if (data.portRange) {
-          this.portRange = data.portRange;
-        }
-        console.log(`[PortManager] ${this.allocations.size} allocation(s) chargee(s)`);
-      }
+      this.allocations = new Map(portRepository.findAll().map(a => [a.port, a]));
+      this.portRange = portRepository.getPortRange() ?? DEFAULT_PORT_RANGE;
+      console.log(`[PortManager] ${this.allocations.size} allocation(s) chargee(s)`);
     } catch (error: any) {
       console.error('[PortManager] Erreur chargement allocations:', error.message);
     }
   }
 
   /**
-   * Sauvegarde les allocations dans le fichier
+   * Enregistre une allocation en base puis dans le cache
    */
-  private saveAllocations(): void {
-    try {
-      // S'assurer que le repertoire existe
-      ensureDirectoryExists(CONFIG_DIR);
-
-      const data = {
-        allocations: Array.from(this.allocations.values()),
-        portRange: this.portRange,
-      };
-      fs.writeFileSync(PORTS_FILE, JSON.stringify(data, null, 2));
-    } catch (error: any) {
-      console.error('[PortManager] Erreur sauvegarde allocations:', error.message);
-    }
+  private addAllocation(allocation: PortAllocation): void {
+    portRepository.insert(allocation);
+    this.allocations.set(allocation.port, allocation);
+  }
+
+  /**
+   * Supprime une allocation en base puis du cache
+   */
+  private removeAllocation(port: number): void {
+    portRepository.deleteByPort(port);
+    this.allocations.delete(port);
   }
 
   /**
@@ -159,13 +122,12 @@ class PortManagerService {
       ) {
         const available = await this.isPortAvailable(preferredPort);
         if (available) {
-          this.allocations.set(preferredPort, {
+          this.addAllocation({
             port: preferredPort,
             appId,
             appName,
             allocatedAt: new Date().toISOString(),
           });
-          this.saveAllocations();
           return preferredPort;
         }
       }
@@ -179,35 +141,59 @@ class PortManagerService {
           return port;
         }
         // Le port n'est plus disponible, le liberer
-        this.allocations.delete(port);
+        this.removeAllocation(port);
       }
     }
 
     // Trouver un nouveau port disponible
     const port = await this.findAvailablePort();
 
-    this.allocations.set(port, {
+    this.addAllocation({
       port,
       appId,
       appName,
       allocatedAt: new Date().toISOString(),
     });
 
-    this.saveAllocations();
     return port;
   }
 
   /**
-   * Libere le port d'une application
+   * Reserve un port supplementaire pour une application (slot blue/green)
+   * Le port reste attribue jusqu'a releaseAppPort ou la suppression de l'application
+   */
+  async reservePort(appId: string, appName: string): Promise<number> {
+    const port = await this.findAvailablePort();
+
+    this.addAllocation({
+      port,
+      appId,
+      appName,
+      allocatedAt: new Date().toISOString(),
+    });
+
+    return port;
+  }
+
+  /**
+   * Libere un port reserve par une application (sans effet s'il appartient a une autre)
+   */
+  releaseAppPort(appId: string, port: number): void {
+    if (this.allocations.get(port)?.appId === appId) {
+      this.removeAllocation(port);
+    }
+  }
+
+  /**
+   * Libere les ports d'une application
    */
   releasePort(appId: string): void {
+    portRepository.deleteByApp(appId);
     for (const [port, allocation] of this.allocations) {
       if (allocation.appId === appId) {
         this.allocations.delete(port);
-        break;
       }
     }
-    this.saveAllocations();
   }
 
   /**
@@ -258,8 +244,8 @@ class PortManagerService {
    * Configure la plage de ports
    */
   setPortRange(range: PortRange): void {
+    portRepository.setPortRange(range);
     this.portRange = range;
-    this.saveAllocations();
   }
 
   /**
@@ -267,14 +253,13 @@ class PortManagerService {
    */
   async cleanupAllocations(existingAppIds: string[]): Promise<void> {
     const idsSet = new Set(existingAppIds);
-    
+
+    portRepository.deleteExcept(existingAppIds);
     for (const [port, allocation] of this.allocations) {
       if (!idsSet.has(allocation.appId)) {
         this.allocations.delete(port);
       }
     }
-
-    this.saveAllocations();
   }
 }
 
@@ -0,0 +1,302 @@
+/**
+ * Service du reverse proxy
+ * Container nginx partage (docktor-proxy) sur docktor-network qui route chaque domaine
+ * vers le container de son application, sans passer par le port publie sur l'hote
+ * Termine le TLS des domaines disposant d'un certificat et sert les challenges ACME HTTP-01
+ */
+
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { config } from '../config';
+
+const execAsync = promisify(exec);
+
+// ============================================
+// Types
+// ============================================
+
+/** Route d'un domaine vers un container de docktor-network */
+export interface ProxyRoute {
+  domain: string;
+  upstream: string;
+  port: number;
+
+  /** Certificat present dans PROXY_CERTS_DIR: HTTPS, et redirection du HTTP */
+  tls: boolean;
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+const CONFIG_DIR = process.env.DOCKTOR_CONFIG_DIR || '/var/app/.docktor';
+const PROXY_DIR = path.join(CONFIG_DIR, 'proxy');
+const DOCKER_NETWORK = 'docktor-network';
+
+const PROXY_CONTAINER = 'docktor-proxy';
+const PROXY_IMAGE = 'nginx:alpine';
+
+/** Repertoire de configuration monte dans le container */
+const PROXY_MOUNT = '/etc/nginx/docktor';
+
+/** Certificats des domaines (<domaine>.crt, <domaine>.key) */
+export const PROXY_CERTS_DIR = path.join(PROXY_DIR, 'certs');
+
+/** Reponses aux challenges HTTP-01, servies sur /.well-known/acme-challenge/ */
+export const ACME_CHALLENGE_DIR = path.join(PROXY_DIR, 'acme-challenge');
+
+/** Etiquettes DNS (RFC 1123), au moins deux: app.example.com, app.localhost */
+const DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/;
+
+// ============================================
+// Utilitaires
+// ============================================
+
+/** Montage du container du backend: repertoire de l'hote (source) monte sur destination */
+interface BackendMount {
+  source: string;
+  destination: string;
+}
+
+/** Montages du container du backend (null: backend hors container), charges une fois */
+let backendMounts: Promise<BackendMount[] | null> | null = null;
+
+function loadBackendMounts(): Promise<BackendMount[] | null> {
+  if (!backendMounts) {
+    // Dans un container, le nom d'hote est l'identifiant du container
+    backendMounts = execAsync(`docker inspect --format "{{json .Mounts}}" ${os.hostname()}`)
+      .then(({ stdout }) => (JSON.parse(stdout) as Array<{ Source: string; Destination: string }>)
+        .map(m => ({ source: m.Source, destination: m.Destination })))
+      .catch(() => null);
+  }
+  return backendMounts;
+}
+
+/**
+ * Chemin sur l'hote d'un repertoire du backend, pour un montage dans un autre container
+ * Le daemon Docker resout les montages sur l'hote: si le backend tourne dans un container,
+ * le chemin est traduit par le montage qui le contient (bind ou volume nomme)
+ */
+export async function resolveHostPath(localPath: string): Promise<string> {
+  const mounts = await loadBackendMounts();
+  if (mounts === null) return localPath;
+
+  const mount = mounts
+    .filter(m => localPath === m.destination || localPath.startsWith(`${m.destination}/`))
+    .sort((a, b) => b.destination.length - a.destination.length)[0];
+  if (!mount) {
+    console.warn(`[Proxy] ${localPath} n'est pas monte depuis l'hote: le montage dans le proxy sera vide`);
+    return localPath;
+  }
+  return mount.source + localPath.slice(mount.destination.length);
+}
+
+/**
+ * Domaine en minuscules, sans point final ni schema; erreur si invalide
+ */
+export function normalizeDomain(domain: string): string {
+  const normalized = domain.trim().toLowerCase().replace(/\.$/, '');
+  if (!DOMAIN_PATTERN.test(normalized)) {
+    throw new Error(`Domaine invalide: ${domain} (ex: app.example.com, sans schema ni port)`);
+  }
+  return normalized;
+}
+
+/**
+ * Configuration principale: le DNS interne de Docker resout les containers a chaque requete,
+ * nginx demarre meme si une application est arretee (502 le temps qu'elle revienne)
+ */
+function renderMainConfig(): string {
+  return `worker_processes auto;
+
+events {
+  worker_connections 1024;
+}
+
+http {
+  server_tokens off;
+  client_max_body_size 100m;
+  resolver 127.0.0.11 valid=10s ipv6=off;
+
+  ssl_protocols TLSv1.2 TLSv1.3;
+  ssl_session_cache shared:SSL:10m;
+
+  map $http_upgrade $connection_upgrade {
+    default upgrade;
+    '' close;
+  }
+
+  # Domaine inconnu (challenges ACME servis avant l'activation de la route)
+  server {
+    listen 80 default_server;
+${challengeLocation()}
+    location / {
+      return 404;
+    }
+  }
+
+  include ${PROXY_MOUNT}/routes.conf;
+}
+`;
+}
+
+function challengeLocation(): string {
+  return `    location ^~ /.well-known/acme-challenge/ {
+      alias ${PROXY_MOUNT}/acme-challenge/;
+      default_type text/plain;
+    }
+`;
+}
+
+function proxyLocation(route: ProxyRoute): string {
+  return `  location / {
+    set $upstream http://${route.upstream}:${route.port};
+    proxy_pass $upstream;
+    proxy_http_version 1.1;
+    proxy_set_header Host $host;
+    proxy_set_header X-Real-IP $remote_addr;
+    proxy_set_header X-Forwarded-For $proxy_add_x_forwarded_for;
+    proxy_set_header X-Forwarded-Proto $scheme;
+    proxy_set_header Upgrade $http_upgrade;
+    proxy_set_header Connection $connection_upgrade;
+    proxy_read_timeout 300s;
+  }
+`;
+}
+
+function renderRoute(route: ProxyRoute): string {
+  if (!route.tls) {
+    return `server {
+  listen 80;
+  server_name ${route.domain};
+${challengeLocation().replace(/^  /gm, '')}
+${proxyLocation(route)}}
+`;
+  }
+
+  // Port HTTPS non standard: conserve dans la redirection
+  const httpsHost = config.proxyHttpsPort === 443 ? '$host' : `$host:${config.proxyHttpsPort}`;
+
+  return `server {
+  listen 80;
+  server_name ${route.domain};
+${challengeLocation().replace(/^  /gm, '')}
+  location / {
+    return 301 https://${httpsHost}$request_uri;
+  }
+}
+
+server {
+  listen 443 ssl;
+  http2 on;
+  server_name ${route.domain};
+  ssl_certificate ${PROXY_MOUNT}/certs/${route.domain}.crt;
+  ssl_certificate_key ${PROXY_MOUNT}/certs/${route.domain}.key;
+
+${proxyLocation(route)}}
+`;
+}
+
+/** Ports publies, en label du container: un changement de configuration le recree */
+function publishedPorts(): string {
+  return `${config.proxyHttpPort}:${config.proxyHttpsPort}`;
+}
+
+// ============================================
+// Service Principal
+// ============================================
+
+class ProxyService {
+  private static instance: ProxyService | null = null;
+
+  /** Mises a jour serialisees: une seule ecriture et un seul rechargement a la fois */
+  private pending: Promise<void> = Promise.resolve();
+
+  private constructor() {}
+
+  static getInstance(): ProxyService {
+    if (ProxyService.instance === null) {
+      ProxyService.instance = new ProxyService();
+    }
+    return ProxyService.instance;
+  }
+
+  /**
+   * Remplace les routes du proxy et le recharge a chaud
+   * Le container est cree a la premiere route
+   */
+  sync(routes: ProxyRoute[]): Promise<void> {
+    const run = this.pending.then(() => this.apply(routes));
+    this.pending = run.catch(() => {});
+    return run;
+  }
+
+  private async apply(routes: ProxyRoute[]): Promise<void> {
+    fs.mkdirSync(PROXY_CERTS_DIR, { recursive: true, mode: 0o700 });
+    fs.mkdirSync(ACME_CHALLENGE_DIR, { recursive: true });
+
+    const routesFile = path.join(PROXY_DIR, 'routes.conf');
+    const previous = fs.existsSync(routesFile) ? fs.readFileSync(routesFile, 'utf-8') : '';
+    const content = [...routes]
+      .sort((a, b) => a.domain.localeCompare(b.domain))
+      .map(renderRoute)
+      .join('\n');
+
+    fs.writeFileSync(path.join(PROXY_DIR, 'nginx.conf'), renderMainConfig());
+    fs.writeFileSync(routesFile, content);
+
+    const { stdout } = await execAsync(
+      `docker inspect --format='{{.State.Running}} {{index .Config.Labels "docktor.proxy.ports"}}' ${PROXY_CONTAINER} 2>/dev/null || echo "missing"`
+    );
+    const [state, ports] = stdout.trim().split(' ');
+
+    // Ports publies modifies (ou container anterieur au HTTPS): recreation
+    if (state !== 'missing' && ports !== publishedPorts()) {
+      await execAsync(`docker rm -f ${PROXY_CONTAINER}`);
+      return this.apply(routes);
+    }
+
+    if (state === 'missing') {
+      if (routes.length === 0) return;
+
+      const hostProxyDir = await resolveHostPath(PROXY_DIR);
+      await execAsync([
+        'docker run -d',
+        `--name ${PROXY_CONTAINER}`,
+        `--network ${DOCKER_NETWORK}`,
+        `-p ${config.proxyHttpPort}:80`,
+        `-p ${config.proxyHttpsPort}:443`,
+        `-v "${hostProxyDir}:${PROXY_MOUNT}:ro"`,
+        '--restart unless-stopped',
+        '--label docktor.proxy=true',
+        `--label docktor.proxy.ports=${publishedPorts()}`,
+        PROXY_IMAGE,
+        `nginx -c ${PROXY_MOUNT}/nginx.conf -g "daemon off;"`,
+      ].join(' '));
+      console.log(
+        `[Proxy] ${PROXY_CONTAINER} demarre sur les ports ${config.proxyHttpPort}/${config.proxyHttpsPort} (${routes.length} domaine(s))`
+      );
+      return;
+    }
+
+    if (state !== 'true') {
+      await execAsync(`docker start ${PROXY_CONTAINER}`);
+    }
+
+    // Configuration refusee par nginx: les routes precedentes restent en place
+    try {
+      await execAsync(`docker exec ${PROXY_CONTAINER} nginx -t -q -c ${PROXY_MOUNT}/nginx.conf`);
+    } catch (err: any) {
+      fs.writeFileSync(routesFile, previous);
+      throw new Error(`Configuration du proxy refusee: ${err.stderr?.trim() || err.message}`);
+    }
+
+    await execAsync(`docker exec ${PROXY_CONTAINER} nginx -s reload -c ${PROXY_MOUNT}/nginx.conf`);
+    console.log(`[Proxy] Routes rechargees (${routes.length} domaine(s))`);
+  }
+}
+
+export const proxyService = ProxyService.getInstance();
@@ -0,0 +1,238 @@
+/**
+ * Service de chiffrement des secrets au repos
+ * AES-256-GCM avec une cle maitre (variable d'environnement ou fichier de cle)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomBytes, createCipheriv, createDecipheriv, createHash } from 'crypto';
+
+// ============================================
+// Configuration
+// ============================================
+
+const CONFIG_DIR = process.env.DOCKTOR_CONFIG_DIR || '/var/app/.docktor';
+const MASTER_KEY_FILE = process.env.DOCKTOR_MASTER_KEY_FILE || path.join(CONFIG_DIR, 'master.key');
+
+/** Prefixe des valeurs chiffrees (format: enc:v1:<keyId>:<iv>:<tag>:<data>) */
+const SEALED_PREFIX = 'enc:v1:';
+
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+
+/** Valeur affichee a la place d'un secret dans les reponses API */
+export const SECRET_PLACEHOLDER = '********';
+
+/** Champs sensibles de la configuration Git (chiffres sur disque) */
+export const GIT_SECRET_FIELDS = ['accessToken', 'password', 'sshPrivateKey'] as const;
+
+/** Origine de la cle maitre */
+export type MasterKeySource = 'env' | 'file';
+
+export interface KeyRotationResult {
+  source: MasterKeySource;
+
+  /** Identifiant de la nouvelle cle */
+  keyId: string;
+
+  /** Fichier (0600) contenant la nouvelle cle */
+  keyFile: string;
+
+  /** Nombre de secrets rechiffres */
+  resealed: number;
+}
+
+// ============================================
+// Utilitaires
+// ============================================
+
+function ensureDirectoryExists(dirPath: string): boolean {
+  try {
+    if (!fs.existsSync(dirPath)) {
+      fs.mkdirSync(dirPath, { recursive: true, mode: 0o755 });
+    }
+    return true;
+  } catch (error: any) {
+    if (error.code === 'EEXIST') return true;
+    console.error(`[Secrets] Erreur creation ${dirPath}:`, error.message);
+    return false;
+  }
+}
+
+/**
+ * Decode une cle maitre (base64 ou hex, 32 octets)
+ */
+function parseKey(raw: string, origin: string): Buffer {
+  const value = raw.trim();
+  const key = /^[0-9a-fA-F]{64}$/.test(value)
+    ? Buffer.from(value, 'hex')
+    : Buffer.from(value, 'base64');
+
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`Cle maitre invalide (${origin}): ${KEY_LENGTH} octets attendus en base64 ou hex`);
+  }
+  return key;
+}
+
+/**
+ * Identifiant court d'une cle (permet de detecter une mauvaise cle)
+ */
+function computeKeyId(key: Buffer): string {
+  return createHash('sha256').update(key).digest('hex').slice(0, 8);
+}
+
+function writeKeyFile(filePath: string, key: Buffer): void {
+  ensureDirectoryExists(path.dirname(filePath));
+  fs.writeFileSync(filePath, key.toString('base64') + '\n', { mode: 0o600 });
+}
+
+// ============================================
+// Service Principal
+// ============================================
+
+class SecretService {
+  private static instance: SecretService | null = null;
+  private key: Buffer | null = null;
+  private keyId = '';
+  private source: MasterKeySource = 'file';
+
+  private constructor() {}
+
+  static getInstance(): SecretService {
+    if (SecretService.instance === null) {
+      SecretService.instance = new SecretService();
+    }
+    return SecretService.instance;
+  }
+
+  /**
+   * Charge la cle maitre au premier usage
+   * - DOCKTOR_MASTER_KEY (base64 ou hex)
+   * - sinon fichier DOCKTOR_MASTER_KEY_FILE, genere s'il n'existe pas
+   */
+  private getKey(): Buffer {
+    if (this.key !== null) return this.key;
+
+    const envKey = process.env['DOCKTOR_MASTER_KEY'];
+
+    if (envKey) {
+      this.key = parseKey(envKey, 'DOCKTOR_MASTER_KEY');
+      this.source = 'env';
+    } else if (fs.existsSync(MASTER_KEY_FILE)) {
+      this.key = parseKey(fs.readFileSync(MASTER_KEY_FILE, 'utf-8'), MASTER_KEY_FILE);
+      this.source = 'file';
+    } else {
+      this.key = randomBytes(KEY_LENGTH);
+      this.source = 'file';
+      writeKeyFile(MASTER_KEY_FILE, this.key);
+      console.warn(`[Secrets] Cle maitre generee: ${MASTER_KEY_FILE}`);
+      console.warn('[Secrets] Sauvegardez ce fichier: sans lui les secrets stockes sont irrecuperables');
+    }
+
+    this.keyId = computeKeyId(this.key);
+    return this.key;
+  }
+
+  /**
+   * Indique si une valeur est deja chiffree
+   */
+  isSealed(value: string): boolean {
+    return value.startsWith(SEALED_PREFIX);
+  }
+
+  /**
+   * Chiffre une valeur (idempotent: une valeur deja chiffree est retournee telle quelle)
+   */
+  seal(value: string): string {
+    if (this.isSealed(value)) return value;
+    const key = this.getKey();
+    return this.sealWith(value, key, this.keyId);
+  }
+
+  /**
+   * Dechiffre une valeur (une valeur en clair est retournee telle quelle)
+   */
+  unseal(value: string): string {
+    if (!this.isSealed(value)) return value;
+    return this.unsealWith(value, this.getKey(), this.keyId);
+  }
+
+  private unsealWith(value: string, key: Buffer, expectedKeyId: string): string {
+    const [keyId, ivB64, tagB64, dataB64] = value.slice(SEALED_PREFIX.length).split(':');
+    if (!keyId || !ivB64 || !tagB64 || dataB64 === undefined) {
+      throw new Error('Secret chiffre mal forme');
+    }
+    if (keyId !== expectedKeyId) {
+      throw new Error(`Secret chiffre avec une autre cle maitre (${keyId})`);
+    }
+
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(ivB64, 'base64'));
+    decipher.setAuthTag(Buffer.from(tagB64, 'base64'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(dataB64, 'base64')),
+      decipher.final(),
+    ]).toString('utf-8');
+  }
+
+  /**
+   * Genere une nouvelle cle et rechiffre tous les secrets
+   * resealStores recoit une fonction de rechiffrement et retourne le nombre de secrets traites
+   * Chaque secret rechiffre est verifie avant l'ecriture; l'ancienne cle n'est conservee nulle part
+   * Cle issue de DOCKTOR_MASTER_KEY: la nouvelle cle reste dans <fichier>.next,
+   * a reporter dans la variable avant le prochain demarrage
+   */
+  rotateKey(resealStores: (reseal: (value: string) => string) => number): KeyRotationResult {
+    this.getKey();
+
+    const newKey = randomBytes(KEY_LENGTH);
+    const newKeyId = computeKeyId(newKey);
+    const pendingFile = `${MASTER_KEY_FILE}.next`;
+
+    if (this.source === 'env' && fs.existsSync(pendingFile)) {
+      throw new Error(`${pendingFile} existe deja: reportez-le dans DOCKTOR_MASTER_KEY et supprimez-le avant une nouvelle rotation`);
+    }
+
+    // La nouvelle cle est ecrite avant de rechiffrer pour ne jamais perdre de secret
+    writeKeyFile(pendingFile, newKey);
+
+    const resealed = resealStores(value => {
+      const plain = this.unseal(value);
+      const sealed = this.sealWith(plain, newKey, newKeyId);
+      if (this.unsealWith(sealed, newKey, newKeyId) !== plain) {
+        throw new Error('Verification du rechiffrement echouee');
+      }
+      return sealed;
+    });
+
+    // Les secrets sont rechiffres: l'ancienne cle est remplacee (en cas d'arret avant,
+    // la nouvelle cle reste recuperable dans <fichier>.next)
+    if (this.source === 'file') {
+      fs.renameSync(pendingFile, MASTER_KEY_FILE);
+    }
+
+    // Copie en clair laissee par les rotations des versions precedentes
+    const legacyBackup = `${MASTER_KEY_FILE}.old`;
+    if (fs.existsSync(legacyBackup)) fs.rmSync(legacyBackup);
+
+    this.key = newKey;
+    this.keyId = newKeyId;
+
+    return {
+      source: this.source,
+      keyId: newKeyId,
+      keyFile: this.source === 'file' ? MASTER_KEY_FILE : pendingFile,
+      resealed,
+    };
+  }
+
+  private sealWith(value: string, key: Buffer, keyId: string): string {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const data = Buffer.concat([cipher.update(value, 'utf-8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+
+    return `${SEALED_PREFIX}${keyId}:${iv.toString('base64')}:${tag.toString('base64')}:${data.toString('base64')}`;
+  }
+}
+
+export const secretService = SecretService.getInstance();
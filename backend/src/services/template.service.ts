@@ -0,0 +1,246 @@
+/**
+ * Service des templates d'application
+ * Templates integres (app.templates.ts) et templates utilisateur versionnes, stockes en base
+ */
+
+import {
+  AppTemplate,
+  AppType,
+  CloneTemplateRequest,
+  CreateTemplateRequest,
+  EnvVariable,
+  TemplateDefinition,
+  UpdateTemplateRequest,
+  UserTemplate,
+  UserTemplateType,
+} from '../types';
+import { getTemplate as getBuiltinTemplate, getAllTemplates } from '../templates/app.templates';
+import { checkTemplate } from '../templates/template.engine';
+import { normalizeParameterDeclarations, validateCompose, validateDockerfile } from '../templates/template.validation';
+import { appRepository, templateRepository } from '../repositories';
+
+// ============================================
+// Constantes
+// ============================================
+
+const USER_TEMPLATE_PREFIX = 'user:';
+
+const SLUG_PATTERN = /^[a-z0-9][a-z0-9-]{0,62}$/;
+
+const ENV_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// ============================================
+// Utilitaires
+// ============================================
+
+export function isUserTemplateType(type: string): type is UserTemplateType {
+  return type.startsWith(USER_TEMPLATE_PREFIX);
+}
+
+export function isUserTemplate(template: AppTemplate): template is UserTemplate {
+  return isUserTemplateType(template.type);
+}
+
+/**
+ * Identifiant derive du nom (Go API -> go-api)
+ */
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 63);
+}
+
+function validateEnvVariables(variables: unknown): EnvVariable[] {
+  if (!Array.isArray(variables)) {
+    throw new Error('Les variables d\'environnement doivent etre une liste');
+  }
+  return variables.map((v: Partial<EnvVariable>) => {
+    if (typeof v?.key !== 'string' || !ENV_KEY_PATTERN.test(v.key)) {
+      throw new Error(`Nom de variable d'environnement invalide: ${v?.key}`);
+    }
+    return { key: v.key, value: String(v.value ?? ''), ...(v.isSecret && { isSecret: true }) };
+  });
+}
+
+/**
+ * Valide et normalise la definition d'un template utilisateur
+ * Syntaxe du Dockerfile et du docker-compose, parametres et placeholders
+ */
+function validateDefinition(definition: TemplateDefinition): TemplateDefinition {
+  const name = typeof definition.name === 'string' ? definition.name.trim() : '';
+  if (name.length < 2 || name.length > 100) {
+    throw new Error('Le nom du template doit contenir entre 2 et 100 caracteres');
+  }
+  if (typeof definition.dockerfile !== 'string' || !definition.dockerfile.trim()) {
+    throw new Error('Dockerfile requis');
+  }
+  if (typeof definition.dockerCompose !== 'string' || !definition.dockerCompose.trim()) {
+    throw new Error('docker-compose requis');
+  }
+
+  const port = definition.defaultInternalPort;
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`Port interne invalide: ${port}`);
+  }
+
+  const parameters = normalizeParameterDeclarations(definition.parameters ?? []);
+  validateDockerfile(definition.dockerfile);
+  validateCompose(definition.dockerCompose);
+  checkTemplate(definition.dockerfile, parameters);
+  checkTemplate(definition.dockerCompose, parameters);
+
+  return {
+    name,
+    description: String(definition.description ?? ''),
+    dockerfile: definition.dockerfile,
+    dockerCompose: definition.dockerCompose,
+    defaultEnvVariables: validateEnvVariables(definition.defaultEnvVariables ?? []),
+    defaultInternalPort: port,
+    ...(definition.buildCommand && { buildCommand: String(definition.buildCommand) }),
+    ...(definition.startCommand && { startCommand: String(definition.startCommand) }),
+    parameters,
+  };
+}
+
+/**
+ * Champs modifiables d'un template existant (point de depart d'un clone ou d'une mise a jour)
+ */
+function toDefinition(template: AppTemplate): TemplateDefinition {
+  return {
+    name: template.name,
+    description: template.description,
+    dockerfile: template.dockerfile,
+    dockerCompose: template.dockerCompose,
+    defaultEnvVariables: template.defaultEnvVariables,
+    defaultInternalPort: template.defaultInternalPort,
+    ...(template.buildCommand && { buildCommand: template.buildCommand }),
+    ...(template.startCommand && { startCommand: template.startCommand }),
+    parameters: template.parameters,
+  };
+}
+
+// ============================================
+// Service Principal
+// ============================================
+
+class TemplateService {
+  private static instance: TemplateService | null = null;
+
+  private constructor() {}
+
+  static getInstance(): TemplateService {
+    if (TemplateService.instance === null) {
+      TemplateService.instance = new TemplateService();
+    }
+    return TemplateService.instance;
+  }
+
+  /**
+   * Templates integres puis templates utilisateur (version courante)
+   */
+  getTemplates(): AppTemplate[] {
+    return [...getAllTemplates(), ...templateRepository.findAll()];
+  }
+
+  /**
+   * Template par type; version: version d'un template utilisateur (defaut: la plus recente)
+   */
+  getTemplate(type: AppType, version?: number): AppTemplate | undefined {
+    return isUserTemplateType(type) ? templateRepository.findByType(type, version) : getBuiltinTemplate(type);
+  }
+
+  getUserTemplate(type: string): UserTemplate {
+    const template = isUserTemplateType(type) ? templateRepository.findByType(type) : undefined;
+    if (!template) throw new Error(`Template utilisateur non trouve: ${type}`);
+    return template;
+  }
+
+  /**
+   * Historique des versions, la plus recente en premier
+   */
+  getVersions(type: string): UserTemplate[] {
+    return templateRepository.findVersions(this.getUserTemplate(type).type);
+  }
+
+  createTemplate(request: CreateTemplateRequest, clonedFrom?: AppType): UserTemplate {
+    const definition = validateDefinition(request);
+
+    const slug = request.slug ?? slugify(definition.name);
+    if (!SLUG_PATTERN.test(slug)) {
+      throw new Error(`Identifiant de template invalide: "${slug}" (minuscules, chiffres et tirets)`);
+    }
+    const type: UserTemplateType = `${USER_TEMPLATE_PREFIX}${slug}`;
+    if (templateRepository.findByType(type)) {
+      throw new Error(`Un template avec l'identifiant "${slug}" existe deja`);
+    }
+
+    const now = new Date().toISOString();
+    const template: UserTemplate = {
+      ...definition,
+      description: definition.description ?? '',
+      defaultEnvVariables: definition.defaultEnvVariables ?? [],
+      parameters: definition.parameters ?? [],
+      type,
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+      ...(clonedFrom && { clonedFrom }),
+    };
+
+    templateRepository.insert(template);
+    console.log(`[Templates] Template cree: ${template.name} (${type})`);
+    return template;
+  }
+
+  /**
+   * Copie d'un template integre ou utilisateur, comme point de depart d'un nouveau template
+   */
+  cloneTemplate(type: AppType, request: CloneTemplateRequest): UserTemplate {
+    const source = this.getTemplate(type);
+    if (!source) throw new Error(`Template non trouve: ${type}`);
+
+    return this.createTemplate(
+      { ...toDefinition(source), name: request.name, ...(request.slug && { slug: request.slug }) },
+      type
+    );
+  }
+
+  /**
+   * Enregistre une nouvelle version; les applications existantes conservent la leur
+   */
+  updateTemplate(type: string, request: UpdateTemplateRequest): UserTemplate {
+    const current = this.getUserTemplate(type);
+    const definition = validateDefinition({ ...toDefinition(current), ...request });
+
+    const template: UserTemplate = {
+      ...definition,
+      description: definition.description ?? '',
+      defaultEnvVariables: definition.defaultEnvVariables ?? [],
+      parameters: definition.parameters ?? [],
+      type: current.type,
+      version: current.version + 1,
+      createdAt: current.createdAt,
+      updatedAt: new Date().toISOString(),
+      ...(current.clonedFrom && { clonedFrom: current.clonedFrom }),
+    };
+
+    templateRepository.insert(template);
+    console.log(`[Templates] Template ${template.type} mis a jour (version ${template.version})`);
+    return template;
+  }
+
+  /**
+   * Supprime un template et ses versions, s'il n'est plus utilise par aucune application
+   */
+  deleteTemplate(type: string): void {
+    const template = this.getUserTemplate(type);
+
+    const users = appRepository.findAll().filter(app => app.type === template.type);
+    if (users.length > 0) {
+      throw new Error(`Template utilise par ${users.length} application(s): ${users.map(a => a.name).join(', ')}`);
+    }
+
+    templateRepository.delete(template.type);
+    console.log(`[Templates] Template supprime: ${template.type}`);
+  }
+}
+
+export const templateService = TemplateService.getInstance();
@@ -0,0 +1,151 @@
+/**
+ * Service de reception des webhooks Git
+ * Verification des signatures par fournisseur et lecture des evenements push
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { GitProvider, WebhookPushEvent } from '../types';
+
+// ============================================
+// Utilitaires
+// ============================================
+
+/**
+ * Lit un header (premiere valeur si repete)
+ */
+function header(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Comparaison en temps constant de deux chaines
+ */
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Verifie une signature HMAC-SHA256 au format sha256=<hex>
+ */
+function verifyHmacSignature(signature: string | undefined, rawBody: Buffer, secret: string): boolean {
+  if (!signature?.startsWith('sha256=')) return false;
+  const expected = 'sha256=' + createHmac('sha256', secret).update(rawBody).digest('hex');
+  return safeEqual(signature, expected);
+}
+
+/**
+ * Branche d'une ref Git (refs/heads/main -> main)
+ */
+function branchFromRef(ref: unknown): string | undefined {
+  return typeof ref === 'string' && ref.startsWith('refs/heads/')
+    ? ref.slice('refs/heads/'.length)
+    : undefined;
+}
+
+/** SHA nul envoye par GitHub/GitLab lors de la suppression d'une branche */
+const NULL_SHA = /^0+$/;
+
+// ============================================
+// Service Principal
+// ============================================
+
+class WebhookService {
+  private static instance: WebhookService | null = null;
+
+  private constructor() {}
+
+  static getInstance(): WebhookService {
+    if (WebhookService.instance === null) {
+      WebhookService.instance = new WebhookService();
+    }
+    return WebhookService.instance;
+  }
+
+  /**
+   * Identifie le fournisseur a partir des headers de la requete
+   */
+  detectProvider(headers: IncomingHttpHeaders): GitProvider | null {
+    if (header(headers, 'x-github-event')) return 'github';
+    if (header(headers, 'x-gitlab-event')) return 'gitlab';
+    if (header(headers, 'x-event-key')) return 'bitbucket';
+    return null;
+  }
+
+  /**
+   * Verifie l'authenticite d'un webhook
+   * - GitHub: X-Hub-Signature-256 (HMAC-SHA256 du corps brut)
+   * - GitLab: X-Gitlab-Token (token secret envoye tel quel)
+   * - Bitbucket: X-Hub-Signature (HMAC-SHA256 du corps brut)
+   */
+  verify(provider: GitProvider, headers: IncomingHttpHeaders, rawBody: Buffer, secret: string): boolean {
+    switch (provider) {
+      case 'github':
+        return verifyHmacSignature(header(headers, 'x-hub-signature-256'), rawBody, secret);
+      case 'gitlab': {
+        const token = header(headers, 'x-gitlab-token');
+        return token !== undefined && safeEqual(token, secret);
+      }
+      case 'bitbucket':
+        return verifyHmacSignature(header(headers, 'x-hub-signature'), rawBody, secret);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Extrait l'evenement push d'un payload
+   * Retourne null pour les autres evenements (ping, merge request, ...)
+   */
+  parsePush(provider: GitProvider, headers: IncomingHttpHeaders, payload: any): WebhookPushEvent | null {
+    let branch: string | undefined;
+    let commitSha: string | undefined;
+    let pusher: string | undefined;
+
+    switch (provider) {
+      case 'github':
+      case 'gitlab': {
+        const isPush = provider === 'github'
+          ? header(headers, 'x-github-event') === 'push'
+          : header(headers, 'x-gitlab-event') === 'Push Hook';
+        if (!isPush) return null;
+
+        // Suppression de branche: aucun commit a deployer
+        const after = typeof payload?.after === 'string' ? payload.after : undefined;
+        if (after !== undefined && !NULL_SHA.test(after)) {
+          branch = branchFromRef(payload?.ref);
+          commitSha = after;
+        }
+        pusher = provider === 'github' ? payload?.pusher?.name : payload?.user_username;
+        break;
+      }
+
+      case 'bitbucket': {
+        if (header(headers, 'x-event-key') !== 'repo:push') return null;
+
+        // Un push peut contenir plusieurs changements: le dernier sur une branche fait foi
+        const changes: any[] = Array.isArray(payload?.push?.changes) ? payload.push.changes : [];
+        const change = [...changes].reverse().find(c => c?.new?.type === 'branch');
+        branch = change?.new?.name;
+        commitSha = change?.new?.target?.hash;
+        pusher = payload?.actor?.display_name;
+        break;
+      }
+
+      default:
+        return null;
+    }
+
+    return {
+      provider,
+      ...(typeof branch === 'string' && { branch }),
+      ...(typeof commitSha === 'string' && { commitSha }),
+      ...(typeof pusher === 'string' && { pusher }),
+    };
+  }
+}
+
+export const webhookService = WebhookService.getInstance();
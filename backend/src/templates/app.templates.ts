@@ -1,8 +1,47 @@
 /**
  * Templates Docker predefinies pour les differents types d'applications
+ *
+ * Les installations de dependances utilisent un cache BuildKit persistant par application
+ * (RUN --mount=type=cache), ${BUILD_CACHE_ID} est remplace a l'ecriture du Dockerfile
+ * Les placeholders ${NOM} sont rendus par le moteur de templates (template.engine.ts):
+ * parametres declares ci-dessous ou parametres fournis par Docktor
  */
 
-import { AppTemplate, AppType } from '../types';
+import { AppTemplate, AppType, TemplateParameter } from '../types';
+
+// ============================================
+// Parametres communs
+// ============================================
+
+/** Tag d'image Docker (version du runtime) */
+const IMAGE_TAG_PATTERN = '\\w[\\w.-]{0,127}';
+
+const phpVersion: TemplateParameter = {
+  name: 'PHP_VERSION',
+  type: 'string',
+  description: 'Version de PHP (tag de l\'image officielle)',
+  required: true,
+  default: '8.2',
+  pattern: IMAGE_TAG_PATTERN,
+};
+
+const pythonVersion: TemplateParameter = {
+  name: 'PYTHON_VERSION',
+  type: 'string',
+  description: 'Version de Python (tag de l\'image officielle, variante slim)',
+  required: true,
+  default: '3.11',
+  pattern: IMAGE_TAG_PATTERN,
+};
+
+const nodeVersion: TemplateParameter = {
+  name: 'NODE_VERSION',
+  type: 'string',
+  description: 'Version de Node.js (tag de l\'image officielle, variante alpine)',
+  required: true,
+  default: '20',
+  pattern: IMAGE_TAG_PATTERN,
+};
 
 /**
  * Template PHP standard
@@ -12,11 +51,12 @@ const phpTemplate: AppTemplate = {
   name: 'PHP Application',
   description: 'Application PHP avec Apache',
   defaultInternalPort: 80,
+  parameters: [phpVersion],
   defaultEnvVariables: [
     { key: 'PHP_MEMORY_LIMIT', value: '256M' },
     { key: 'PHP_MAX_EXECUTION_TIME', value: '60' },
   ],
-  dockerfile: `FROM php:8.2-apache
+  dockerfile: `FROM php:\${PHP_VERSION}-apache
 
 # Installation des extensions PHP courantes
 RUN apt-get update && apt-get install -y \\
@@ -78,6 +118,7 @@ const laravelTemplate: AppTemplate = {
   name: 'Laravel Application',
   description: 'Application Laravel avec PHP-FPM et Nginx',
   defaultInternalPort: 80,
+  parameters: [phpVersion],
   defaultEnvVariables: [
     { key: 'APP_ENV', value: 'production' },
     { key: 'APP_DEBUG', value: 'false' },
@@ -90,7 +131,7 @@ const laravelTemplate: AppTemplate = {
     { key: 'DB_PASSWORD', value: '', isSecret: true },
   ],
   buildCommand: 'composer install --no-dev --optimize-autoloader && php artisan config:cache && php artisan route:cache && php artisan view:cache',
-  dockerfile: `FROM php:8.2-fpm
+  dockerfile: `FROM php:\${PHP_VERSION}-fpm
 
 # Installation des dependances
 RUN apt-get update && apt-get install -y \\
@@ -121,7 +162,8 @@ WORKDIR /var/www/html
 COPY . .
 
 # Installation des dependances
-RUN composer install --no-dev --optimize-autoloader
+RUN --mount=type=cache,id=\${BUILD_CACHE_ID}-composer,target=/tmp/composer-cache \\
+    COMPOSER_CACHE_DIR=/tmp/composer-cache composer install --no-dev --optimize-autoloader
 
 # Permissions
 RUN chown -R www-data:www-data /var/www/html/storage /var/www/html/bootstrap/cache
@@ -171,13 +213,14 @@ const nodejsTemplate: AppTemplate = {
   name: 'Node.js Application',
   description: 'Application Node.js standard',
   defaultInternalPort: 3000,
+  parameters: [nodeVersion],
   defaultEnvVariables: [
     { key: 'NODE_ENV', value: 'production' },
     { key: 'PORT', value: '3000' },
   ],
   buildCommand: 'npm ci --only=production',
   startCommand: 'npm start',
-  dockerfile: `FROM node:20-alpine
+  dockerfile: `FROM node:\${NODE_VERSION}-alpine
 
 WORKDIR /app
 
@@ -185,7 +228,7 @@ WORKDIR /app
 COPY package*.json ./
 
 # Installation des dependances
-RUN npm ci --only=production
+RUN --mount=type=cache,id=\${BUILD_CACHE_ID}-npm,target=/root/.npm npm ci --only=production
 
 # Copie du code source
 COPY . .
@@ -232,31 +275,32 @@ const nodejsTypescriptTemplate: AppTemplate = {
   name: 'Node.js TypeScript Application',
   description: 'Application Node.js avec TypeScript',
   defaultInternalPort: 3000,
+  parameters: [nodeVersion],
   defaultEnvVariables: [
     { key: 'NODE_ENV', value: 'production' },
     { key: 'PORT', value: '3000' },
   ],
   buildCommand: 'npm ci && npm run build',
   startCommand: 'npm start',
-  dockerfile: `FROM node:20-alpine AS builder
+  dockerfile: `FROM node:\${NODE_VERSION}-alpine AS builder
 
 WORKDIR /app
 
 COPY package*.json ./
 COPY tsconfig*.json ./
 
-RUN npm ci
+RUN --mount=type=cache,id=\${BUILD_CACHE_ID}-npm,target=/root/.npm npm ci
 
 COPY . .
 RUN npm run build
 
 # Production image
-FROM node:20-alpine
+FROM node:\${NODE_VERSION}-alpine
 
 WORKDIR /app
 
 COPY package*.json ./
-RUN npm ci --only=production
+RUN --mount=type=cache,id=\${BUILD_CACHE_ID}-npm,target=/root/.npm npm ci --only=production
 
 COPY --from=builder /app/dist ./dist
 
@@ -301,18 +345,19 @@ const nextjsTemplate: AppTemplate = {
   name: 'Next.js Application',
   description: 'Application Next.js avec build optimise',
   defaultInternalPort: 3000,
+  parameters: [nodeVersion],
   defaultEnvVariables: [
     { key: 'NODE_ENV', value: 'production' },
     { key: 'NEXT_TELEMETRY_DISABLED', value: '1' },
   ],
   buildCommand: 'npm ci && npm run build',
   startCommand: 'npm start',
-  dockerfile: `FROM node:20-alpine AS deps
+  dockerfile: `FROM node:\${NODE_VERSION}-alpine AS deps
 WORKDIR /app
 COPY package*.json ./
-RUN npm ci
+RUN --mount=type=cache,id=\${BUILD_CACHE_ID}-npm,target=/root/.npm npm ci
 
-FROM node:20-alpine AS builder
+FROM node:\${NODE_VERSION}-alpine AS builder
 WORKDIR /app
 COPY --from=deps /app/node_modules ./node_modules
 COPY . .
@@ -321,7 +366,7 @@ ENV NEXT_TELEMETRY_DISABLED 1
 
 RUN npm run build
 
-FROM node:20-alpine AS runner
+FROM node:\${NODE_VERSION}-alpine AS runner
 WORKDIR /app
 
 ENV NODE_ENV production
@@ -375,6 +420,7 @@ const staticTemplate: AppTemplate = {
   name: 'Static Website',
   description: 'Site statique avec Nginx',
   defaultInternalPort: 80,
+  parameters: [],
   defaultEnvVariables: [],
   dockerfile: `FROM nginx:alpine
 
@@ -414,12 +460,13 @@ const pythonTemplate: AppTemplate = {
   name: 'Python Application',
   description: 'Application Python avec Flask/FastAPI',
   defaultInternalPort: 8000,
+  parameters: [pythonVersion],
   defaultEnvVariables: [
     { key: 'PYTHON_ENV', value: 'production' },
   ],
   buildCommand: 'pip install -r requirements.txt',
   startCommand: 'python main.py',
-  dockerfile: `FROM python:3.11-slim
+  dockerfile: `FROM python:\${PYTHON_VERSION}-slim
 
 WORKDIR /app
 
@@ -430,7 +477,7 @@ RUN apt-get update && apt-get install -y --no-install-recommends \\
 
 # Copie des dependances
 COPY requirements.txt .
-RUN pip install --no-cache-dir -r requirements.txt
+RUN --mount=type=cache,id=\${BUILD_CACHE_ID}-pip,target=/root/.cache/pip pip install -r requirements.txt
 
 # Copie du code source
 COPY . .
@@ -467,6 +514,500 @@ networks:
 `,
 };
 
+/**
+ * Template Django
+ */
+const djangoTemplate: AppTemplate = {
+  type: 'django',
+  name: 'Django Application',
+  description: 'Application Django servie par Gunicorn',
+  defaultInternalPort: 8000,
+  parameters: [
+    pythonVersion,
+    {
+      name: 'DJANGO_PROJECT',
+      type: 'string',
+      description: 'Module du projet Django (dossier contenant settings.py et wsgi.py)',
+      required: true,
+      default: 'config',
+      pattern: '[A-Za-z_]\\w*',
+    },
+  ],
+  defaultEnvVariables: [
+    { key: 'DJANGO_DEBUG', value: 'False' },
+    { key: 'DJANGO_ALLOWED_HOSTS', value: '*' },
+    { key: 'DJANGO_SECRET_KEY', value: '', isSecret: true },
+    { key: 'DATABASE_URL', value: '', isSecret: true },
+  ],
+  buildCommand: 'pip install -r requirements.txt && python manage.py collectstatic --noinput',
+  startCommand: 'gunicorn --bind 0.0.0.0:8000 config.wsgi',
+  dockerfile: `FROM python:\${PYTHON_VERSION}-slim AS builder
+
+# Dependances de compilation (psycopg, ...)
+RUN apt-get update && apt-get install -y --no-install-recommends \\
+    gcc \\
+    libpq-dev \\
+    && rm -rf /var/lib/apt/lists/*
+
+# Environnement virtuel copie dans l'image finale
+RUN python -m venv /opt/venv
+ENV PATH="/opt/venv/bin:$PATH"
+
+WORKDIR /app
+COPY requirements.txt .
+RUN --mount=type=cache,id=\${BUILD_CACHE_ID}-pip,target=/root/.cache/pip \\
+    pip install -r requirements.txt gunicorn
+
+FROM python:\${PYTHON_VERSION}-slim
+
+RUN apt-get update && apt-get install -y --no-install-recommends libpq5 \\
+    && rm -rf /var/lib/apt/lists/* \\
+    && useradd -m -u 1001 appuser
+
+ENV PATH="/opt/venv/bin:$PATH" \\
+    PYTHONDONTWRITEBYTECODE=1 \\
+    PYTHONUNBUFFERED=1
+
+WORKDIR /app
+COPY --from=builder /opt/venv /opt/venv
+COPY --chown=appuser:appuser . .
+
+# Fichiers statiques (ignore si STATIC_ROOT n'est pas configure)
+RUN python manage.py collectstatic --noinput || true
+
+USER appuser
+
+EXPOSE 8000
+
+CMD ["gunicorn", "--bind", "0.0.0.0:8000", "\${DJANGO_PROJECT}.wsgi"]
+`,
+  dockerCompose: `version: '3.8'
+
+services:
+  app:
+    build:
+      context: .
+      dockerfile: Dockerfile
+    container_name: \${APP_NAME}
+    restart: unless-stopped
+    ports:
+      - "\${EXTERNAL_PORT}:8000"
+    env_file:
+      - .env
+    networks:
+      - docktor-network
+
+networks:
+  docktor-network:
+    external: true
+`,
+};
+
+/**
+ * Template Go
+ */
+const goTemplate: AppTemplate = {
+  type: 'go',
+  name: 'Go Application',
+  description: 'Binaire Go statique dans une image Alpine',
+  defaultInternalPort: 8080,
+  parameters: [
+    {
+      name: 'GO_VERSION',
+      type: 'string',
+      description: 'Version de Go (tag de l\'image officielle, variante alpine)',
+      required: true,
+      default: '1.22',
+      pattern: IMAGE_TAG_PATTERN,
+    },
+  ],
+  defaultEnvVariables: [
+    { key: 'APP_ENV', value: 'production' },
+    { key: 'PORT', value: '8080' },
+  ],
+  buildCommand: 'go build -o server .',
+  startCommand: './server',
+  dockerfile: `FROM golang:\${GO_VERSION}-alpine AS builder
+
+WORKDIR /src
+
+# Telechargement des modules
+COPY go.mod go.sum* ./
+RUN --mount=type=cache,id=\${BUILD_CACHE_ID}-gomod,target=/go/pkg/mod go mod download
+
+# Compilation statique
+COPY . .
+RUN --mount=type=cache,id=\${BUILD_CACHE_ID}-gomod,target=/go/pkg/mod \\
+    --mount=type=cache,id=\${BUILD_CACHE_ID}-gobuild,target=/root/.cache/go-build \\
+    CGO_ENABLED=0 go build -ldflags="-s -w" -o /out/server .
+
+FROM alpine:3.19
+
+RUN apk add --no-cache ca-certificates tzdata && \\
+    adduser -D -u 1001 appuser
+
+WORKDIR /app
+COPY --from=builder /out/server ./server
+
+USER appuser
+
+EXPOSE 8080
+
+CMD ["./server"]
+`,
+  dockerCompose: `version: '3.8'
+
+services:
+  app:
+    build:
+      context: .
+      dockerfile: Dockerfile
+    container_name: \${APP_NAME}
+    restart: unless-stopped
+    ports:
+      - "\${EXTERNAL_PORT}:8080"
+    environment:
+      - PORT=8080
+    env_file:
+      - .env
+    networks:
+      - docktor-network
+
+networks:
+  docktor-network:
+    external: true
+`,
+};
+
+/**
+ * Template Rust
+ */
+const rustTemplate: AppTemplate = {
+  type: 'rust',
+  name: 'Rust Application',
+  description: 'Binaire Rust compile en release',
+  defaultInternalPort: 8080,
+  parameters: [
+    {
+      name: 'RUST_VERSION',
+      type: 'string',
+      description: 'Version de Rust (tag de l\'image officielle, variante slim)',
+      required: true,
+      default: '1.77',
+      pattern: IMAGE_TAG_PATTERN,
+    },
+    {
+      name: 'BINARY_NAME',
+      type: 'string',
+      description: 'Nom du binaire a executer (package.name de Cargo.toml)',
+      required: true,
+      default: 'app',
+      pattern: '[\\w-]+',
+    },
+  ],
+  defaultEnvVariables: [
+    { key: 'RUST_LOG', value: 'info' },
+    { key: 'PORT', value: '8080' },
+  ],
+  buildCommand: 'cargo build --release',
+  startCommand: './target/release/app',
+  dockerfile: `FROM rust:\${RUST_VERSION}-slim AS builder
+
+WORKDIR /src
+COPY . .
+
+# Le dossier target est un cache: le binaire est copie hors du cache
+RUN --mount=type=cache,id=\${BUILD_CACHE_ID}-cargo,target=/usr/local/cargo/registry \\
+    --mount=type=cache,id=\${BUILD_CACHE_ID}-target,target=/src/target \\
+    cargo build --release && \\
+    cp target/release/\${BINARY_NAME} /usr/local/bin/app
+
+FROM debian:bookworm-slim
+
+RUN apt-get update && apt-get install -y --no-install-recommends ca-certificates \\
+    && rm -rf /var/lib/apt/lists/* \\
+    && useradd -m -u 1001 appuser
+
+COPY --from=builder /usr/local/bin/app /usr/local/bin/app
+
+USER appuser
+
+EXPOSE 8080
+
+CMD ["app"]
+`,
+  dockerCompose: `version: '3.8'
+
+services:
+  app:
+    build:
+      context: .
+      dockerfile: Dockerfile
+    container_name: \${APP_NAME}
+    restart: unless-stopped
+    ports:
+      - "\${EXTERNAL_PORT}:8080"
+    environment:
+      - PORT=8080
+    env_file:
+      - .env
+    networks:
+      - docktor-network
+
+networks:
+  docktor-network:
+    external: true
+`,
+};
+
+/**
+ * Template Ruby on Rails
+ */
+const railsTemplate: AppTemplate = {
+  type: 'rails',
+  name: 'Ruby on Rails Application',
+  description: 'Application Rails servie par Puma',
+  defaultInternalPort: 3000,
+  parameters: [
+    {
+      name: 'RUBY_VERSION',
+      type: 'string',
+      description: 'Version de Ruby (tag de l\'image officielle, variante slim)',
+      required: true,
+      default: '3.3',
+      pattern: IMAGE_TAG_PATTERN,
+    },
+  ],
+  defaultEnvVariables: [
+    { key: 'RAILS_ENV', value: 'production' },
+    { key: 'RAILS_LOG_TO_STDOUT', value: 'true' },
+    { key: 'RAILS_SERVE_STATIC_FILES', value: 'true' },
+    { key: 'SECRET_KEY_BASE', value: '', isSecret: true },
+    { key: 'DATABASE_URL', value: '', isSecret: true },
+  ],
+  buildCommand: 'bundle install && bundle exec rails assets:precompile',
+  startCommand: 'bundle exec rails server -b 0.0.0.0 -p 3000',
+  dockerfile: `FROM ruby:\${RUBY_VERSION}-slim AS builder
+
+# Dependances de compilation des gems natives
+RUN apt-get update && apt-get install -y --no-install-recommends \\
+    build-essential \\
+    git \\
+    libpq-dev \\
+    libyaml-dev \\
+    pkg-config \\
+    && rm -rf /var/lib/apt/lists/*
+
+ENV RAILS_ENV=production \\
+    BUNDLE_WITHOUT="development:test"
+
+WORKDIR /app
+COPY Gemfile Gemfile.lock ./
+RUN --mount=type=cache,id=\${BUILD_CACHE_ID}-bundle,target=/usr/local/bundle/cache bundle install
+
+COPY . .
+
+# Precompilation des assets (cle factice: les credentials ne sont pas disponibles au build)
+RUN SECRET_KEY_BASE_DUMMY=1 bundle exec rails assets:precompile
+
+FROM ruby:\${RUBY_VERSION}-slim
+
+RUN apt-get update && apt-get install -y --no-install-recommends \\
+    libpq5 \\
+    libyaml-0-2 \\
+    && rm -rf /var/lib/apt/lists/* \\
+    && useradd -m -u 1001 appuser
+
+ENV RAILS_ENV=production \\
+    BUNDLE_WITHOUT="development:test"
+
+WORKDIR /app
+COPY --from=builder /usr/local/bundle /usr/local/bundle
+COPY --from=builder --chown=appuser:appuser /app /app
+
+USER appuser
+
+EXPOSE 3000
+
+CMD ["bundle", "exec", "rails", "server", "-b", "0.0.0.0", "-p", "3000"]
+`,
+  dockerCompose: `version: '3.8'
+
+services:
+  app:
+    build:
+      context: .
+      dockerfile: Dockerfile
+    container_name: \${APP_NAME}
+    restart: unless-stopped
+    ports:
+      - "\${EXTERNAL_PORT}:3000"
+    env_file:
+      - .env
+    networks:
+      - docktor-network
+
+networks:
+  docktor-network:
+    external: true
+`,
+};
+
+/**
+ * Template Java Spring Boot
+ */
+const springBootTemplate: AppTemplate = {
+  type: 'spring-boot',
+  name: 'Spring Boot Application',
+  description: 'Application Java Spring Boot (wrapper Maven ou Gradle)',
+  defaultInternalPort: 8080,
+  parameters: [
+    {
+      name: 'JAVA_VERSION',
+      type: 'string',
+      description: 'Version de Java (tag des images eclipse-temurin)',
+      required: true,
+      default: '21',
+      pattern: IMAGE_TAG_PATTERN,
+    },
+  ],
+  defaultEnvVariables: [
+    { key: 'SPRING_PROFILES_ACTIVE', value: 'prod' },
+    { key: 'SERVER_PORT', value: '8080' },
+    { key: 'JAVA_OPTS', value: '-XX:MaxRAMPercentage=75' },
+  ],
+  buildCommand: './mvnw package -DskipTests',
+  startCommand: 'java -jar app.jar',
+  dockerfile: `FROM eclipse-temurin:\${JAVA_VERSION}-jdk AS builder
+
+WORKDIR /src
+COPY . .
+
+# Build avec le wrapper du projet (Maven ou Gradle)
+RUN --mount=type=cache,id=\${BUILD_CACHE_ID}-m2,target=/root/.m2 \\
+    --mount=type=cache,id=\${BUILD_CACHE_ID}-gradle,target=/root/.gradle \\
+    if [ -f mvnw ]; then \\
+      chmod +x mvnw && ./mvnw -B -q package -DskipTests && cp target/*.jar /app.jar; \\
+    elif [ -f gradlew ]; then \\
+      chmod +x gradlew && ./gradlew --no-daemon -q bootJar && cp build/libs/*.jar /app.jar; \\
+    else \\
+      echo "mvnw ou gradlew introuvable" && exit 1; \\
+    fi
+
+FROM eclipse-temurin:\${JAVA_VERSION}-jre
+
+RUN useradd -m -u 1001 appuser
+
+WORKDIR /app
+COPY --from=builder /app.jar app.jar
+
+USER appuser
+
+EXPOSE 8080
+
+ENTRYPOINT ["sh", "-c", "exec java $JAVA_OPTS -jar app.jar"]
+`,
+  dockerCompose: `version: '3.8'
+
+services:
+  app:
+    build:
+      context: .
+      dockerfile: Dockerfile
+    container_name: \${APP_NAME}
+    restart: unless-stopped
+    ports:
+      - "\${EXTERNAL_PORT}:8080"
+    environment:
+      - SERVER_PORT=8080
+    env_file:
+      - .env
+    networks:
+      - docktor-network
+
+networks:
+  docktor-network:
+    external: true
+`,
+};
+
+/**
+ * Template ASP.NET Core
+ */
+const dotnetTemplate: AppTemplate = {
+  type: 'dotnet',
+  name: '.NET Application',
+  description: 'Application ASP.NET Core publiee en Release',
+  defaultInternalPort: 8080,
+  parameters: [
+    {
+      name: 'DOTNET_VERSION',
+      type: 'string',
+      description: 'Version de .NET (tag des images sdk et aspnet)',
+      required: true,
+      default: '8.0',
+      pattern: IMAGE_TAG_PATTERN,
+    },
+    {
+      name: 'ASSEMBLY_NAME',
+      type: 'string',
+      description: 'Nom de l\'assembly a executer (nom du .csproj sans extension)',
+      required: true,
+      default: 'App',
+      pattern: '[\\w.-]+',
+    },
+  ],
+  defaultEnvVariables: [
+    { key: 'ASPNETCORE_ENVIRONMENT', value: 'Production' },
+    { key: 'ASPNETCORE_URLS', value: 'http://+:8080' },
+  ],
+  buildCommand: 'dotnet publish -c Release -o out',
+  startCommand: 'dotnet App.dll',
+  dockerfile: `FROM mcr.microsoft.com/dotnet/sdk:\${DOTNET_VERSION} AS builder
+
+WORKDIR /src
+COPY . .
+
+RUN --mount=type=cache,id=\${BUILD_CACHE_ID}-nuget,target=/root/.nuget/packages \\
+    dotnet publish -c Release -o /out /p:UseAppHost=false
+
+FROM mcr.microsoft.com/dotnet/aspnet:\${DOTNET_VERSION}
+
+RUN useradd -m -u 1001 appuser
+
+WORKDIR /app
+COPY --from=builder /out .
+
+ENV ASPNETCORE_URLS=http://+:8080
+
+USER appuser
+
+EXPOSE 8080
+
+ENTRYPOINT ["dotnet", "\${ASSEMBLY_NAME}.dll"]
+`,
+  dockerCompose: `version: '3.8'
+
+services:
+  app:
+    build:
+      context: .
+      dockerfile: Dockerfile
+    container_name: \${APP_NAME}
+    restart: unless-stopped
+    ports:
+      - "\${EXTERNAL_PORT}:8080"
+    env_file:
+      - .env
+    networks:
+      - docktor-network
+
+networks:
+  docktor-network:
+    external: true
+`,
+};
+
 /**
  * Template Custom
  */
@@ -475,11 +1016,21 @@ const customTemplate: AppTemplate = {
   name: 'Custom Application',
   description: 'Application personnalisee - definissez votre propre Dockerfile',
   defaultInternalPort: 3000,
+  parameters: [
+    {
+      name: 'BASE_IMAGE',
+      type: 'string',
+      description: 'Image de base du Dockerfile',
+      required: true,
+      default: 'ubuntu:22.04',
+      pattern: '\\w[\\w./:@-]*',
+    },
+  ],
   defaultEnvVariables: [],
   dockerfile: `# Dockerfile personnalise
 # Modifiez ce fichier selon vos besoins
 
-FROM ubuntu:22.04
+FROM \${BASE_IMAGE}
 
 WORKDIR /app
 
@@ -522,6 +1073,12 @@ export const appTemplates: Map<AppType, AppTemplate> = new Map([
   ['nextjs', nextjsTemplate],
   ['static', staticTemplate],
   ['python', pythonTemplate],
+  ['django', djangoTemplate],
+  ['go', goTemplate],
+  ['rust', rustTemplate],
+  ['rails', railsTemplate],
+  ['spring-boot', springBootTemplate],
+  ['dotnet', dotnetTemplate],
   ['custom', customTemplate],
 ]);
 
@@ -0,0 +1,183 @@
+/**
+ * Moteur de rendu des templates Docker (Dockerfile et docker-compose)
+ *
+ * Un placeholder ${NOM} designe un parametre declare par le template ou un parametre
+ * fourni par Docktor (BUILTIN_PARAMETERS). Tout autre placeholder est une erreur.
+ * Restent a l'interpolation de docker compose / du shell a l'execution:
+ *   - $${NOM}, ecrit ${NOM}
+ *   - les formes avec modificateur (${NOM:-defaut}, ${NOM?erreur}, ...)
+ */
+
+import { TemplateParameter, TemplateParameterInputs, TemplateParameterValues } from '../types';
+
+// ============================================
+// Types
+// ============================================
+
+export type TemplateFormat = 'dockerfile' | 'compose';
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+// ============================================
+// Constantes
+// ============================================
+
+/** Parametres renseignes par Docktor a l'ecriture des fichiers, non modifiables */
+export const BUILTIN_PARAMETERS: TemplateParameter[] = [
+  { name: 'APP_NAME', type: 'string', description: 'Nom du container', required: true },
+  { name: 'EXTERNAL_PORT', type: 'port', description: 'Port publie sur l\'hote', required: true },
+  { name: 'INTERNAL_PORT', type: 'port', description: 'Port ecoute par l\'application', required: true },
+  { name: 'BUILD_CACHE_ID', type: 'string', description: 'Identifiant du cache BuildKit de l\'application', required: true },
+];
+
+const BUILTIN_NAMES = new Set(BUILTIN_PARAMETERS.map(p => p.name));
+
+/** $${NOM} (echappe) ou ${NOM}; les formes avec modificateur ne correspondent pas */
+const PLACEHOLDER = /(\$?)\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+const CONTROL_CHARACTERS = /[\u0000-\u001f\u007f]/;
+
+// ============================================
+// Valeurs
+// ============================================
+
+/**
+ * Valeur d'un parametre convertie en texte selon son type
+ */
+function normalizeValue(parameter: TemplateParameter, raw: string | number | boolean): string {
+  const value = String(raw).trim();
+  const invalid = (reason: string) => new TemplateError(`Parametre ${parameter.name} invalide: ${reason}`);
+
+  if (CONTROL_CHARACTERS.test(value)) throw invalid('caracteres de controle interdits');
+
+  switch (parameter.type) {
+    case 'number':
+      if (value === '' || !Number.isFinite(Number(value))) throw invalid(`nombre attendu (${value})`);
+      return String(Number(value));
+    case 'port': {
+      const port = Number(value);
+      if (!Number.isInteger(port) || port < 1 || port > 65535) throw invalid(`port attendu (${value})`);
+      return String(port);
+    }
+    case 'boolean':
+      if (value !== 'true' && value !== 'false') throw invalid(`true ou false attendu (${value})`);
+      return value;
+    default:
+      if (parameter.pattern && !new RegExp(`^(?:${parameter.pattern})$`).test(value)) {
+        throw invalid(`format attendu ${parameter.pattern} (${value})`);
+      }
+      return value;
+  }
+}
+
+/**
+ * Valide les valeurs fournies pour les parametres d'un template
+ * Retourne les valeurs normalisees (seules les valeurs fournies sont conservees)
+ */
+export function normalizeParameters(
+  parameters: TemplateParameter[],
+  values: TemplateParameterInputs
+): TemplateParameterValues {
+  const normalized: TemplateParameterValues = {};
+
+  for (const [name, raw] of Object.entries(values)) {
+    if (BUILTIN_NAMES.has(name)) {
+      throw new TemplateError(`Parametre reserve a Docktor: ${name}`);
+    }
+    const parameter = parameters.find(p => p.name === name);
+    if (!parameter) {
+      throw new TemplateError(`Parametre inconnu pour ce template: ${name}`);
+    }
+    normalized[name] = normalizeValue(parameter, raw);
+  }
+
+  return normalized;
+}
+
+/**
+ * Valeurs de tous les parametres d'un template: valeur fournie, sinon valeur par defaut
+ * Un parametre requis sans valeur est une erreur, un parametre optionnel vaut ''
+ */
+export function resolveParameters(
+  parameters: TemplateParameter[],
+  values: TemplateParameterValues
+): TemplateParameterValues {
+  const resolved: TemplateParameterValues = {};
+
+  for (const parameter of parameters) {
+    const value = values[parameter.name] ?? parameter.default;
+    if (value === undefined && parameter.required) {
+      throw new TemplateError(`Parametre requis: ${parameter.name}`);
+    }
+    resolved[parameter.name] = value ?? '';
+  }
+
+  return resolved;
+}
+
+// ============================================
+// Rendu
+// ============================================
+
+/**
+ * Echappe une valeur pour qu'elle ne soit pas reinterpretee a l'execution
+ * compose: $ -> $$ (interpolation compose), Dockerfile: $ -> \$ (substitution des ARG/ENV)
+ */
+function escapeValue(value: string, format: TemplateFormat): string {
+  return format === 'compose' ? value.replace(/\$/g, '$$$$') : value.replace(/\$/g, '\\$');
+}
+
+/**
+ * Placeholders Docktor d'un template (hors formes echappees)
+ */
+export function templatePlaceholders(source: string): string[] {
+  const names = new Set<string>();
+  for (const [, escaped, name] of source.matchAll(PLACEHOLDER)) {
+    if (!escaped && name) names.add(name);
+  }
+  return [...names];
+}
+
+/**
+ * Verifie que chaque placeholder correspond a un parametre declare ou fourni par Docktor
+ */
+export function checkTemplate(source: string, parameters: TemplateParameter[]): void {
+  const declared = new Set([...BUILTIN_NAMES, ...parameters.map(p => p.name)]);
+  const unknown = templatePlaceholders(source).filter(name => !declared.has(name));
+
+  if (unknown.length > 0) {
+    throw new TemplateError(
+      `Placeholder(s) inconnu(s): ${unknown.map(n => `\${${n}}`).join(', ')} ` +
+      `(utilisez $\${NOM} pour une variable interpretee a l'execution)`
+    );
+  }
+}
+
+/**
+ * Remplace les placeholders par leurs valeurs echappees selon le format du fichier
+ * values: parametres resolus du template et parametres Docktor
+ */
+export function renderTemplate(source: string, values: TemplateParameterValues, format: TemplateFormat): string {
+  const unknown = new Set<string>();
+
+  const output = source.replace(PLACEHOLDER, (match: string, escaped: string, name: string) => {
+    if (escaped) return match.slice(1);
+
+    const value = values[name];
+    if (value === undefined) {
+      unknown.add(name);
+      return match;
+    }
+    return escapeValue(value, format);
+  });
+
+  if (unknown.size > 0) {
+    throw new TemplateError(`Placeholder(s) inconnu(s): ${[...unknown].map(n => `\${${n}}`).join(', ')}`);
+  }
+  return output;
+}
@@ -0,0 +1,194 @@
+/**
+ * Validation des templates utilisateur
+ * Controle syntaxique du Dockerfile et du docker-compose sans les executer,
+ * et normalisation des parametres declares
+ */
+
+import { TemplateParameter, TemplateParameterType } from '../types';
+import { BUILTIN_PARAMETERS, TemplateError, normalizeParameters } from './template.engine';
+
+// ============================================
+// Constantes
+// ============================================
+
+const DOCKERFILE_INSTRUCTIONS = new Set([
+  'FROM', 'RUN', 'CMD', 'LABEL', 'MAINTAINER', 'EXPOSE', 'ENV', 'ADD', 'COPY', 'ENTRYPOINT',
+  'VOLUME', 'USER', 'WORKDIR', 'ARG', 'ONBUILD', 'STOPSIGNAL', 'HEALTHCHECK', 'SHELL',
+]);
+
+/** Cles de premier niveau d'un fichier compose (hors extensions x-*) */
+const COMPOSE_TOP_LEVEL_KEYS = new Set([
+  'version', 'name', 'include', 'services', 'networks', 'volumes', 'configs', 'secrets',
+]);
+
+const PARAMETER_TYPES: TemplateParameterType[] = ['string', 'number', 'boolean', 'port'];
+
+const PARAMETER_NAME = /^[A-Z][A-Z0-9_]*$/;
+
+/** Debut d'un heredoc (RUN <<EOF, cat <<-'EOF' ...) */
+const HEREDOC = /<<(-?)\s*["']?([A-Za-z_]\w*)["']?/;
+
+// ============================================
+// Dockerfile
+// ============================================
+
+/**
+ * Verifie la structure d'un Dockerfile: instructions connues, FROM en premier (apres d'eventuels ARG)
+ */
+export function validateDockerfile(source: string): void {
+  const lines = source.split('\n');
+  const error = (line: number, message: string) => new TemplateError(`Dockerfile ligne ${line}: ${message}`);
+
+  let continued = false;
+  let heredoc: { terminator: string; indented: boolean } | null = null;
+  let hasFrom = false;
+
+  for (const [index, raw] of lines.entries()) {
+    const line = raw.trim();
+
+    if (heredoc) {
+      const candidate = heredoc.indented ? raw.replace(/^\t+/, '') : raw;
+      if (candidate.trimEnd() === heredoc.terminator) heredoc = null;
+      continue;
+    }
+    if (line === '' || line.startsWith('#')) continue;
+
+    if (!continued) {
+      const instruction = line.split(/\s+/)[0]!.toUpperCase();
+      if (!DOCKERFILE_INSTRUCTIONS.has(instruction)) {
+        throw error(index + 1, `instruction inconnue "${line.split(/\s+/)[0]}"`);
+      }
+      if (!hasFrom && instruction !== 'FROM' && instruction !== 'ARG') {
+        throw error(index + 1, 'seul ARG peut preceder la premiere instruction FROM');
+      }
+      if (instruction === 'FROM') hasFrom = true;
+    }
+
+    const start = line.match(HEREDOC);
+    if (start) heredoc = { terminator: start[2]!, indented: start[1] === '-' };
+    continued = line.endsWith('\\');
+  }
+
+  if (heredoc) {
+    throw new TemplateError(`Dockerfile: heredoc ${heredoc.terminator} non termine`);
+  }
+  if (!hasFrom) {
+    throw new TemplateError('Dockerfile: instruction FROM manquante');
+  }
+}
+
+// ============================================
+// docker-compose
+// ============================================
+
+/**
+ * Verifie la structure d'un docker-compose: cles de premier niveau connues,
+ * au moins un service, chaque service avec build ou image
+ */
+export function validateCompose(source: string): void {
+  const lines = source.split('\n');
+  const error = (line: number, message: string) => new TemplateError(`docker-compose ligne ${line}: ${message}`);
+
+  const services = new Map<string, { line: number; keys: Set<string> }>();
+  let section: string | null = null;
+  let serviceIndent: number | null = null;
+  let current: { line: number; keys: Set<string> } | null = null;
+  let keyIndent: number | null = null;
+
+  for (const [index, raw] of lines.entries()) {
+    if (raw.trim() === '' || raw.trim().startsWith('#')) continue;
+
+    const indentation = raw.match(/^\s*/)![0];
+    if (indentation.includes('\t')) {
+      throw error(index + 1, 'tabulation interdite dans l\'indentation');
+    }
+    const indent = indentation.length;
+    const key = raw.trim().match(/^["']?([\w.${}-]+)["']?\s*:(\s|$)/)?.[1];
+
+    if (indent === 0) {
+      if (!key) throw error(index + 1, 'cle de premier niveau attendue');
+      if (!COMPOSE_TOP_LEVEL_KEYS.has(key) && !key.startsWith('x-')) {
+        throw error(index + 1, `cle de premier niveau inconnue "${key}"`);
+      }
+      section = key;
+      current = null;
+      continue;
+    }
+    if (section !== 'services') continue;
+
+    serviceIndent ??= indent;
+    if (indent === serviceIndent) {
+      if (!key) throw error(index + 1, 'nom de service attendu');
+      current = { line: index + 1, keys: new Set() };
+      services.set(key, current);
+      keyIndent = null;
+    } else if (indent < serviceIndent) {
+      throw error(index + 1, 'indentation incoherente');
+    } else if (current) {
+      keyIndent ??= indent;
+      if (indent === keyIndent && key) current.keys.add(key);
+    }
+  }
+
+  if (services.size === 0) {
+    throw new TemplateError('docker-compose: aucun service defini (cle services)');
+  }
+  for (const [name, service] of services) {
+    if (!service.keys.has('build') && !service.keys.has('image')) {
+      throw error(service.line, `le service "${name}" doit definir build ou image`);
+    }
+  }
+}
+
+// ============================================
+// Parametres
+// ============================================
+
+/**
+ * Valide les parametres declares par un template utilisateur
+ * La valeur par defaut est normalisee selon le type
+ */
+export function normalizeParameterDeclarations(parameters: unknown): TemplateParameter[] {
+  if (!Array.isArray(parameters)) {
+    throw new TemplateError('Les parametres doivent etre une liste');
+  }
+
+  const names = new Set<string>();
+  return parameters.map((input: Partial<TemplateParameter>) => {
+    const name = String(input?.name ?? '');
+    if (!PARAMETER_NAME.test(name)) {
+      throw new TemplateError(`Nom de parametre invalide: "${name}" (majuscules, chiffres et _)`);
+    }
+    if (BUILTIN_PARAMETERS.some(p => p.name === name)) {
+      throw new TemplateError(`Parametre reserve a Docktor: ${name}`);
+    }
+    if (names.has(name)) {
+      throw new TemplateError(`Parametre declare deux fois: ${name}`);
+    }
+    names.add(name);
+
+    const type = input.type ?? 'string';
+    if (!PARAMETER_TYPES.includes(type)) {
+      throw new TemplateError(`Type du parametre ${name} invalide: ${type}`);
+    }
+    if (input.pattern !== undefined) {
+      try {
+        new RegExp(input.pattern);
+      } catch {
+        throw new TemplateError(`Format du parametre ${name} invalide: ${input.pattern}`);
+      }
+    }
+
+    const parameter: TemplateParameter = {
+      name,
+      type,
+      description: String(input.description ?? ''),
+      required: input.required === true,
+      ...(type === 'string' && input.pattern && { pattern: input.pattern }),
+    };
+    if (input.default !== undefined && input.default !== '') {
+      parameter.default = normalizeParameters([parameter], { [name]: input.default })[name]!;
+    }
+    return parameter;
+  });
+}
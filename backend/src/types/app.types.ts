@@ -6,7 +6,7 @@
 // Types d'applications supportees
 // ============================================
 
-export type AppType = 
+export type BuiltinAppType =
   | 'php'
   | 'laravel'
   | 'nodejs'
@@ -14,8 +14,19 @@ export type AppType =
   | 'nextjs'
   | 'static'
   | 'python'
+  | 'django'
+  | 'go'
+  | 'rust'
+  | 'rails'
+  | 'spring-boot'
+  | 'dotnet'
   | 'custom';
 
+/** Template cree par un utilisateur (user:<slug>) */
+export type UserTemplateType = `user:${string}`;
+
+export type AppType = BuiltinAppType | UserTemplateType;
+
 export type AppStatus = 
   | 'pending'
   | 'building'
@@ -25,13 +36,20 @@ export type AppStatus =
   | 'failed'
   | 'error';
 
+/**
+ * Statut d'un deploiement
+ * - queued: en file d'attente (limite de concurrence ou deploiement deja en cours pour l'application)
+ * - cancelled: annule par un utilisateur
+ */
 export type DeploymentStatus =
+  | 'queued'
   | 'pending'
   | 'cloning'
   | 'building'
   | 'starting'
   | 'success'
-  | 'failed';
+  | 'failed'
+  | 'cancelled';
 
 // ============================================
 // Configuration Git
@@ -74,6 +92,11 @@ export interface GitConfig {
   
   /** Cle SSH privee (contenu) */
   sshPrivateKey?: string;
+
+  /** Indicateurs de presence des secrets (reponses API, valeurs masquees) */
+  accessTokenSet?: boolean;
+  passwordSet?: boolean;
+  sshPrivateKeySet?: boolean;
 }
 
 // ============================================
@@ -140,21 +163,298 @@ export interface AppConfig {
   
   /** Nom du container Docker */
   containerName?: string;
+
+  /** Tag de l'image en cours d'execution (dernier deploiement ou rollback reussi) */
+  imageTag?: string;
+
+  /** Strategie de deploiement (defaut: recreate) */
+  deployStrategy?: DeployStrategy;
+
+  /** Origine du Dockerfile et du docker-compose (defaut: template) */
+  buildSource?: BuildSource;
+
+  /** Valeurs renseignees des parametres du template (les autres prennent leur valeur par defaut) */
+  templateParameters?: TemplateParameterValues;
+
+  /** Version du template utilisateur a la creation de l'application */
+  templateVersion?: number;
+
+  /** Etat du blue/green (slot actif), renseigne apres le premier deploiement bluegreen */
+  blueGreen?: BlueGreenState;
+
+  /** Verification de sante apres demarrage (defaut: le container doit rester demarre) */
+  healthCheck?: HealthCheckConfig;
+
+  /** Limites de ressources du service publie (defaut: aucune limite) */
+  resources?: ResourceLimits;
+
+  /** Bases de donnees provisionnees pour l'application */
+  addons?: AppAddon[];
+
+  /** Sauvegardes planifiees (volumes et bases des add-ons) */
+  backupSchedule?: BackupSchedule;
+
+  /** Secret des webhooks Git (chiffre, jamais expose dans les reponses API) */
+  webhookSecret?: string;
   
-  /** Domaine personnalise */
+  /** Domaine personnalise, route par le reverse proxy vers le container */
   domain?: string;
+
+  /** Certificat TLS du domaine */
+  certificate?: AppCertificate;
+}
+
+/**
+ * Strategie de deploiement
+ * - recreate: l'ancien container est arrete puis le nouveau demarre
+ * - bluegreen: le nouveau container demarre a cote de l'ancien sur un port temporaire,
+ *   le trafic bascule une fois la sonde de sante passee (ancien conserve en cas d'echec)
+ */
+export type DeployStrategy = 'recreate' | 'bluegreen';
+
+/**
+ * Origine des fichiers de build
+ * - template: Dockerfile et docker-compose generes depuis le template
+ * - dockerfile: Dockerfile du repository, docker-compose genere par Docktor
+ * - compose: docker-compose du repository, complete par Docktor (port, .env, reseau)
+ */
+export type BuildSourceType = 'template' | 'dockerfile' | 'compose';
+
+export interface BuildSource {
+  type: BuildSourceType;
+
+  /** dockerfile: chemin du Dockerfile depuis la racine du repository (defaut: Dockerfile) */
+  dockerfilePath?: string;
+
+  /** dockerfile: contexte de build depuis la racine du repository (defaut: .) */
+  context?: string;
+
+  /** compose: fichier compose du repository (defaut: docker-compose.yml) */
+  composePath?: string;
+
+  /** compose: service publie sur le port externe (defaut: premier service) */
+  service?: string;
+}
+
+/** Slot d'un deploiement blue/green */
+export type DeploymentSlot = 'blue' | 'green';
+
+export interface BlueGreenState {
+  /** Slot qui recoit le trafic */
+  activeSlot: DeploymentSlot;
+
+  /** Port temporaire publie par le slot actif */
+  slotPort: number;
+}
+
+/**
+ * Type de verification de sante
+ * - http: requete GET sur le port publie, statut attendu
+ * - tcp: connexion sur le port publie
+ * - container: HEALTHCHECK defini dans l'image
+ */
+export type HealthCheckType = 'http' | 'tcp' | 'container';
+
+export interface HealthCheckConfig {
+  type: HealthCheckType;
+
+  /** Chemin de la requete (http, defaut: /) */
+  path?: string;
+
+  /** Statut HTTP attendu (http, defaut: 200) */
+  expectedStatus?: number;
+
+  /** Delai maximum d'une tentative en secondes (defaut: 5) */
+  timeout?: number;
+
+  /** Intervalle entre deux tentatives en secondes (defaut: 3) */
+  interval?: number;
+
+  /** Nombre de tentatives avant echec (defaut: 20) */
+  retries?: number;
+}
+
+/**
+ * Politique de redemarrage du container (cle restart de compose)
+ */
+export type RestartPolicy = 'no' | 'always' | 'on-failure' | 'unless-stopped';
+
+/**
+ * Limites de ressources du service publie, ecrites dans son docker-compose
+ * Validees a l'enregistrement contre la capacite de l'hote
+ */
+export interface ResourceLimits {
+  /** Quota CPU en nombre de coeurs (0.5: la moitie d'un coeur) */
+  cpus?: number;
+
+  /** Memoire maximale en Mo */
+  memoryLimit?: number;
+
+  /** Memoire reservee en Mo (au plus la memoire maximale) */
+  memoryReservation?: number;
+
+  /** Nombre maximum de processus du container */
+  pidsLimit?: number;
+
+  /** Politique de redemarrage (defaut: unless-stopped) */
+  restartPolicy?: RestartPolicy;
+}
+
+/** Base de donnees proposee en add-on */
+export type AddonType = 'postgres' | 'mysql' | 'mongodb' | 'redis';
+
+/**
+ * Add-on d'une application: container dedie sur docktor-network, donnees dans un volume nomme
+ * Les identifiants generes ne sont stockes que dans les variables injectees (secrets)
+ */
+export interface AppAddon {
+  id: string;
+  type: AddonType;
+
+  /** Tag de l'image officielle */
+  version: string;
+
+  /** Nom du container, utilise comme hote depuis l'application */
+  containerName: string;
+
+  /** Volume nomme des donnees */
+  volume: string;
+
+  /** Base et utilisateur crees au provisionnement (absents pour redis) */
+  database?: string;
+  username?: string;
+
+  /** Variables injectees dans l'application, retirees avec l'add-on */
+  envKeys: string[];
+
+  createdAt: string;
+}
+
+/**
+ * Planification des sauvegardes d'une application
+ */
+export interface BackupSchedule {
+  /** Expression cron a 5 champs (minute heure jour mois jour-semaine), heure du serveur */
+  cron: string;
+
+  /** Nombre de sauvegardes planifiees conservees (defaut: 7) */
+  retention?: number;
+}
+
+export type BackupTrigger = 'manual' | 'scheduled';
+
+/**
+ * Element d'une sauvegarde
+ * - volume: archive tar du volume nomme
+ * - dump: export logique de la base d'un add-on
+ */
+export type BackupItemKind = 'volume' | 'dump';
+
+export interface BackupItem {
+  kind: BackupItemKind;
+
+  /** volume: nom du volume; dump: type de l'add-on */
+  source: string;
+
+  /** Fichier compresse (gzip) dans le repertoire de la sauvegarde */
+  file: string;
+
+  /** Taille du fichier en octets */
+  size: number;
+
+  /** Empreinte SHA-256 du fichier, verifiee avant restauration */
+  sha256: string;
+}
+
+export interface Backup {
+  id: string;
+  appId: string;
+  appName: string;
+  trigger: BackupTrigger;
+  createdAt: string;
+
+  /** Taille totale en octets */
+  size: number;
+
+  items: BackupItem[];
+}
+
+/**
+ * Origine du certificat TLS d'un domaine
+ * - acme: emis et renouvele automatiquement (Let's Encrypt ou CA configuree)
+ * - custom: importe, jamais renouvele par Docktor
+ */
+export type CertificateSource = 'acme' | 'custom';
+
+/**
+ * Etat du certificat
+ * - pending: premiere emission en cours
+ * - valid: en cours de validite
+ * - expiring: expire bientot (renouvellement du certificat ACME planifie)
+ * - failed: emission echouee et aucun certificat en cours de validite
+ */
+export type CertificateStatus = 'pending' | 'valid' | 'expiring' | 'failed';
+
+export interface AppCertificate {
+  domain: string;
+  source: CertificateSource;
+  status: CertificateStatus;
+  issuer?: string;
+  notBefore?: string;
+  notAfter?: string;
+
+  /** Derniere tentative d'emission ACME */
+  lastAttemptAt?: string;
+
+  /** Erreur de la derniere tentative (le certificat precedent reste servi s'il est valide) */
+  lastError?: string;
+}
+
+/** Import d'un certificat (PEM, chaine complete) */
+export interface UploadCertificateRequest {
+  certificate: string;
+  privateKey: string;
 }
 
 export interface EnvVariable {
   key: string;
   value: string;
+
+  /** Valeur chiffree sur disque et masquee dans les reponses API */
   isSecret?: boolean;
+
+  /** Indique si un secret a une valeur (reponses API, valeur masquee) */
+  isSet?: boolean;
 }
 
 // ============================================
 // Templates predefinies
 // ============================================
 
+export type TemplateParameterType = 'string' | 'number' | 'boolean' | 'port';
+
+/**
+ * Parametre d'un template, reference par ${NOM} dans le Dockerfile et le docker-compose
+ */
+export interface TemplateParameter {
+  name: string;
+  type: TemplateParameterType;
+  description: string;
+  required: boolean;
+
+  /** Valeur par defaut (texte, comme les valeurs renseignees) */
+  default?: string;
+
+  /** string: expression reguliere que doit respecter la valeur entiere */
+  pattern?: string;
+}
+
+/** Valeurs des parametres d'un template, par nom */
+export type TemplateParameterValues = Record<string, string>;
+
+/** Valeurs des parametres avant normalisation (requetes API) */
+export type TemplateParameterInputs = Record<string, string | number | boolean>;
+
 export interface AppTemplate {
   type: AppType;
   name: string;
@@ -165,6 +465,48 @@ export interface AppTemplate {
   defaultInternalPort: number;
   buildCommand?: string;
   startCommand?: string;
+
+  /** Parametres declares (hors parametres fournis par Docktor) */
+  parameters: TemplateParameter[];
+}
+
+/**
+ * Template cree par un utilisateur, stocke en base
+ * Chaque modification cree une nouvelle version, les applications restent sur la leur
+ */
+export interface UserTemplate extends AppTemplate {
+  type: UserTemplateType;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+
+  /** Template d'origine d'un clone */
+  clonedFrom?: AppType;
+}
+
+/** Champs modifiables d'un template utilisateur */
+export interface TemplateDefinition {
+  name: string;
+  description?: string;
+  dockerfile: string;
+  dockerCompose: string;
+  defaultEnvVariables?: EnvVariable[];
+  defaultInternalPort: number;
+  buildCommand?: string;
+  startCommand?: string;
+  parameters?: TemplateParameter[];
+}
+
+export interface CreateTemplateRequest extends TemplateDefinition {
+  /** Identifiant du template (defaut: derive du nom) */
+  slug?: string;
+}
+
+export type UpdateTemplateRequest = Partial<TemplateDefinition>;
+
+export interface CloneTemplateRequest {
+  name: string;
+  slug?: string;
 }
 
 // ============================================
@@ -186,11 +528,71 @@ export interface Deployment {
   finishedAt?: string;
   logs: DeploymentLog[];
   error?: string;
+
+  /** Commit deploye */
+  commitSha?: string;
+
+  /** Auteur du commit deploye (Nom <email>) */
+  commitAuthor?: string;
+
+  /** Titre du message du commit deploye */
+  commitMessage?: string;
+
+  /** Ref demandee (refs/heads/..., refs/tags/..., refs/pull/... ou SHA), absente pour la branche configuree */
+  ref?: string;
+
+  /** Tag de l'image construite (docktor-<app>-<service>:<tag>) */
+  imageTag?: string;
+
+  /** L'image est encore presente sur l'hote (rollback possible) */
+  imageRetained?: boolean;
+
+  /** Deploiement source s'il s'agit d'un rollback */
+  rollbackOf?: string;
+
+  /** Statistiques du build (absent pour un rollback) */
+  build?: BuildStats;
+}
+
+/** Deploiement de l'historique, sans ses logs (GET /deployments/:id ou flux SSE) */
+export interface DeploymentSummary extends Omit<Deployment, 'logs'> {
+  /** Nombre de lignes de logs enregistrees */
+  logCount: number;
+}
+
+/** Statistiques d'un build d'image */
+export interface BuildStats {
+  /** Duree du build en millisecondes */
+  durationMs: number;
+
+  /** Build sans cache (force ou noCache) */
+  noCache: boolean;
+
+  /** Etapes du Dockerfile reprises du cache */
+  cachedSteps: number;
+
+  /** Etapes du Dockerfile executees ou reprises */
+  totalSteps: number;
 }
 
+/** Page de l'historique des deploiements (du plus recent au plus ancien) */
 export interface DeploymentHistory {
-  deployments: Deployment[];
+  deployments: DeploymentSummary[];
+
+  /** Nombre total de deploiements conserves pour l'application */
   total: number;
+
+  /** Curseur de la page suivante (null si derniere page) */
+  nextCursor: string | null;
+}
+
+/** Callbacks d'un abonnement au flux d'un deploiement */
+export interface DeploymentStreamHandlers {
+  onLog: (log: DeploymentLog) => void;
+  onStatus: (status: DeploymentStatus) => void;
+
+  /** Deploiement termine (succes ou echec) */
+  onEnd: (deployment: Deployment) => void;
 }
 
 // ============================================
@@ -238,7 +640,20 @@ export interface CreateAppRequest {
   dockerCompose?: string;
   buildCommand?: string;
   startCommand?: string;
+
+  /** Port interne de l'application (defaut: celui du template) */
+  internalPort?: number;
+
   domain?: string;
+  deployStrategy?: DeployStrategy;
+  buildSource?: BuildSource;
+
+  /** Valeurs des parametres du template */
+  parameters?: TemplateParameterInputs;
+
+  healthCheck?: HealthCheckConfig;
+  resources?: ResourceLimits;
+  backupSchedule?: BackupSchedule;
 }
 
 export interface UpdateAppRequest {
@@ -258,12 +673,136 @@ export interface UpdateAppRequest {
   dockerCompose?: string;
   buildCommand?: string;
   startCommand?: string;
+  internalPort?: number;
+
+  /** Chaine vide pour supprimer le domaine */
   domain?: string;
+
+  deployStrategy?: DeployStrategy;
+  buildSource?: BuildSource;
+
+  /** Remplace les valeurs des parametres du template */
+  parameters?: TemplateParameterInputs;
+
+  /** null pour supprimer la verification */
+  healthCheck?: HealthCheckConfig | null;
+
+  /** Remplace les limites de ressources, null pour les supprimer */
+  resources?: ResourceLimits | null;
+
+  /** null pour desactiver les sauvegardes planifiees */
+  backupSchedule?: BackupSchedule | null;
+}
+
+export interface CreateAddonRequest {
+  type: AddonType;
+
+  /** Tag de l'image (defaut: version recommandee du type) */
+  version?: string;
 }
 
 export interface DeployAppRequest {
   appId: string;
+
+  /** Nettoie le repertoire et reconstruit sans cache */
   force?: boolean;
+
+  /** Reconstruit sans le cache des layers Docker */
+  noCache?: boolean;
+
+  /** Ref a deployer: branche, tag, SHA de commit ou refs/pull/N/head (defaut: branche configuree) */
+  ref?: string;
+}
+
+export interface RollbackAppRequest {
+  /** Deploiement cible (par defaut: le precedent deploiement reussi dont l'image est conservee) */
+  deploymentId?: string;
+}
+
+// ============================================
+// Webhooks
+// ============================================
+
+/** Push recu d'un fournisseur Git */
+export interface WebhookPushEvent {
+  provider: GitProvider;
+
+  /** Branche poussee (absente pour un tag ou une suppression) */
+  branch?: string;
+
+  /** Commit en tete apres le push */
+  commitSha?: string;
+
+  /** Auteur du push */
+  pusher?: string;
+}
+
+/** Informations de configuration du webhook d'une application */
+export interface WebhookInfo {
+  /** URL a renseigner chez le fournisseur Git */
+  url: string;
+
+  /** Secret de signature (GitHub, Bitbucket) ou token secret (GitLab) */
+  secret: string;
+
+  /** Branche declenchant un deploiement */
+  branch: string;
+}
+
+/** Ref annoncee par un repository distant */
+export interface GitRef {
+  /** Nom court (main, v1.2.0) */
+  name: string;
+
+  /** Commit pointe (tags annotes dereferences) */
+  sha: string;
+}
+
+/** Branches et tags d'un repository distant */
+export interface GitRefs {
+  /** Branche par defaut du remote (HEAD) */
+  defaultBranch?: string;
+
+  branches: GitRef[];
+  tags: GitRef[];
+}
+
+/** Niveau de confiance d'une detection */
+export type DetectionConfidence = 'high' | 'medium' | 'low';
+
+/** Configuration suggeree a partir du contenu d'un repository */
+export interface AppDetection {
+  /** Template suggere */
+  type: AppType;
+
+  confidence: DetectionConfidence;
+
+  /** Port interne (detecte ou celui du template) */
+  internalPort: number;
+
+  buildCommand?: string;
+  startCommand?: string;
+
+  /** Valeurs suggerees pour les parametres du template (BINARY_NAME, ASSEMBLY_NAME...) */
+  parameters?: TemplateParameterValues;
+
+  /** Indices ayant conduit a la suggestion */
+  reasons: string[];
+
+  /** Le repository fournit son propre Dockerfile */
+  hasDockerfile: boolean;
+
+  /** Le repository fournit son propre docker-compose */
+  hasDockerCompose: boolean;
+}
+
+/** Resultat de l'exploration d'un repository distant avant creation */
+export interface GitRemoteInfo extends GitRefs {
+  /** Le remote a repondu avec les identifiants fournis */
+  reachable: boolean;
+
+  /** Cause de l'echec (authentification, repository introuvable, ...) */
+  error?: string;
 }
 
 // ============================================
@@ -289,12 +828,63 @@ export interface TemplatesResponse {
   timestamp: string;
 }
 
+export interface UserTemplateResponse {
+  success: boolean;
+  data: UserTemplate;
+  timestamp: string;
+}
+
+export interface UserTemplateVersionsResponse {
+  success: boolean;
+  data: UserTemplate[];
+  timestamp: string;
+}
+
+export interface AddonResponse {
+  success: boolean;
+  data: AppAddon;
+  timestamp: string;
+}
+
+export interface AddonsListResponse {
+  success: boolean;
+  data: AppAddon[];
+  timestamp: string;
+}
+
+export interface BackupResponse {
+  success: boolean;
+  data: Backup;
+  timestamp: string;
+}
+
+export interface BackupsListResponse {
+  success: boolean;
+  data: Backup[];
+  timestamp: string;
+}
+
+export interface CertificateResponse {
+  success: boolean;
+  data: AppCertificate;
+  timestamp: string;
+}
+
 export interface DeploymentResponse {
   success: boolean;
   data: Deployment;
   timestamp: string;
 }
 
+export interface DeploymentHistoryResponse {
+  success: boolean;
+  data: DeploymentSummary[];
+  count: number;
+  total: number;
+  nextCursor: string | null;
+  timestamp: string;
+}
+
 export interface PortsResponse {
   success: boolean;
   data: {
@@ -304,3 +894,27 @@ export interface PortsResponse {
   };
   timestamp: string;
 }
+
+export interface WebhookInfoResponse {
+  success: boolean;
+  data: WebhookInfo;
+  timestamp: string;
+}
+
+export interface GitRefsResponse {
+  success: boolean;
+  data: GitRefs;
+  timestamp: string;
+}
+
+export interface GitRemoteInfoResponse {
+  success: boolean;
+  data: GitRemoteInfo;
+  timestamp: string;
+}
+
+export interface AppDetectionResponse {
+  success: boolean;
+  data: AppDetection;
+  timestamp: string;
+}
@@ -0,0 +1,188 @@
+/**
+ * Types pour l'authentification de l'API
+ * Utilisateurs locaux, sessions de connexion et tokens d'API
+ */
+
+// ============================================
+// Roles et permissions
+// ============================================
+
+/**
+ * Role d'un utilisateur
+ * - viewer: lecture seule (metriques, logs, applications)
+ * - operator: viewer + actions sur containers et deploiements
+ * - admin: operator + creation/suppression d'apps et gestion des utilisateurs
+ */
+export type Role = 'viewer' | 'operator' | 'admin';
+
+/** Permission sur une ressource, au format ressource:action */
+export type Permission =
+  | 'system:read'
+  | 'containers:read'
+  | 'containers:logs'
+  | 'containers:start'
+  | 'containers:stop'
+  | 'containers:restart'
+  | 'apps:read'
+  | 'apps:logs'
+  | 'apps:create'
+  | 'apps:update'
+  | 'apps:delete'
+  | 'apps:deploy'
+  | 'apps:start'
+  | 'apps:stop'
+  | 'apps:restart'
+  | 'templates:manage'
+  | 'users:manage';
+
+// ============================================
+// Utilisateurs
+// ============================================
+
+/** Utilisateur tel qu'expose par l'API (sans secret) */
+export interface User {
+  /** Identifiant unique */
+  id: string;
+
+  /** Nom de connexion */
+  username: string;
+
+  /** Role global */
+  role: Role;
+
+  /** Roles specifiques par application (prioritaires sur le role global) */
+  appRoles?: Record<string, Role>;
+
+  /** Date de creation */
+  createdAt: string;
+
+  /** Date de derniere connexion */
+  lastLoginAt?: string;
+}
+
+/** Utilisateur tel que stocke sur disque */
+export interface UserRecord extends User {
+  /** Hash scrypt du mot de passe (format: scrypt$salt$hash) */
+  passwordHash: string;
+}
+
+// ============================================
+// Sessions et tokens
+// ============================================
+
+/**
+ * Portee d'un token d'API
+ * - read: uniquement les requetes de lecture (GET)
+ * - write: lecture et actions (POST, PUT, DELETE)
+ */
+export type TokenScope = 'read' | 'write';
+
+/** Session de connexion (stockee hashee) */
+export interface SessionRecord {
+  id: string;
+  userId: string;
+
+  /** SHA-256 du token de session */
+  tokenHash: string;
+
+  createdAt: string;
+  expiresAt: string;
+}
+
+/** Token d'API tel qu'expose par l'API */
+export interface ApiToken {
+  id: string;
+  userId: string;
+
+  /** Libelle choisi par l'utilisateur */
+  name: string;
+
+  /** Debut du token pour l'identifier dans l'UI */
+  prefix: string;
+
+  scopes: TokenScope[];
+  createdAt: string;
+  expiresAt?: string;
+  lastUsedAt?: string;
+}
+
+/** Token d'API tel que stocke sur disque */
+export interface ApiTokenRecord extends ApiToken {
+  /** SHA-256 du token */
+  tokenHash: string;
+}
+
+/**
+ * Contexte d'authentification attache a la requete
+ * Renseigne par le middleware authenticate
+ */
+export interface AuthContext {
+  user: User;
+
+  /** Origine du credential */
+  method: 'session' | 'token';
+
+  /** Portees effectives (les sessions ont toutes les portees) */
+  scopes: TokenScope[];
+
+  /** ID de la session ou du token utilise */
+  credentialId: string;
+}
+
+// ============================================
+// Requetes API
+// ============================================
+
+export interface LoginRequest {
+  username: string;
+  password: string;
+}
+
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface CreateUserRequest {
+  username: string;
+  password: string;
+  role?: Role;
+  appRoles?: Record<string, Role>;
+}
+
+export interface UpdateUserRoleRequest {
+  role?: Role;
+  appRoles?: Record<string, Role>;
+}
+
+export interface CreateApiTokenRequest {
+  name: string;
+  scopes?: TokenScope[];
+
+  /** Duree de validite en jours (illimite si absent) */
+  expiresInDays?: number;
+}
+
+// ============================================
+// Reponses API
+// ============================================
+
+export interface LoginResponse {
+  success: boolean;
+  data: {
+    token: string;
+    expiresAt: string;
+    user: User;
+  };
+  timestamp: string;
+}
+
+export interface CreateApiTokenResponse {
+  success: boolean;
+  data: {
+    /** Valeur du token, retournee une seule fois */
+    token: string;
+    apiToken: ApiToken;
+  };
+  timestamp: string;
+}
@@ -4,3 +4,4 @@
 export * from './container.types';
 export * from './system.types';
 export * from './app.types';
+export * from './auth.types';
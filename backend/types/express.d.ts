@@ -1,4 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
+import { AuthContext } from '../src/types';
 
 /**
  * Augmentation des types Express pour inclure les erreurs typées
@@ -7,6 +8,12 @@ declare global {
   namespace Express {
     interface Request {
       requestId?: string;
+
+      /** Contexte d'authentification (renseigne par le middleware authenticate) */
+      auth?: AuthContext;
+
+      /** Corps brut de la requete (verification des signatures de webhooks) */
+      rawBody?: Buffer;
     }
   }
 }
@@ -3,8 +3,8 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { getAppTemplates, createApp, validateGitConfig } from '@/lib/api';
-import type { AppTemplate, AppType, GitAuthMethod, EnvVariable, CreateAppRequest } from '@/types';
+import { getAppTemplates, createApp, validateGitConfig, browseGitRemote, detectAppType, getCpuInfo, getMemoryInfo } from '@/lib/api';
+import type { AppDetection, AppTemplate, UserTemplate, AppType, GitAuthMethod, GitRemoteInfo, EnvVariable, CreateAppRequest, DeployStrategy, BuildSourceType, ResourceLimits, RestartPolicy } from '@/types';
 
 // ============================================
 // Types locaux
@@ -22,9 +22,20 @@ interface GitFormState {
   sshPrivateKey: string;
 }
 
+/** Limites saisies (champs vides: pas de limite) */
+interface ResourceFormState {
+  cpus: string;
+  memoryLimit: string;
+  memoryReservation: string;
+  pidsLimit: string;
+  restartPolicy: RestartPolicy | '';
+}
+
 interface FormErrors {
   name?: string;
   git?: string[];
+  parameters?: Record<string, string>;
+  resources?: string;
   general?: string;
 }
 
@@ -38,6 +49,34 @@ const GIT_PROVIDERS = [
   { name: 'Bitbucket', domain: 'bitbucket.org', icon: '🪣' },
 ];
 
+/** Template créé par un utilisateur (type user:...) */
+const isUserTemplate = (template: AppTemplate): template is UserTemplate => template.type.startsWith('user:');
+
+const CONFIDENCE_LABELS: Record<AppDetection['confidence'], string> = {
+  high: 'confiance élevée',
+  medium: 'confiance moyenne',
+  low: 'confiance faible',
+};
+
+const RESTART_POLICIES: { value: RestartPolicy; label: string }[] = [
+  { value: 'unless-stopped', label: 'Sauf arrêt manuel (unless-stopped)' },
+  { value: 'always', label: 'Toujours (always)' },
+  { value: 'on-failure', label: 'En cas d\'erreur (on-failure)' },
+  { value: 'no', label: 'Jamais (no)' },
+];
+
+/** Limites envoyées à l'API, undefined si aucune n'est renseignée */
+const toResourceLimits = (form: ResourceFormState): ResourceLimits | undefined => {
+  const limits: ResourceLimits = {
+    ...(form.cpus && { cpus: Number(form.cpus) }),
+    ...(form.memoryLimit && { memoryLimit: Number(form.memoryLimit) }),
+    ...(form.memoryReservation && { memoryReservation: Number(form.memoryReservation) }),
+    ...(form.pidsLimit && { pidsLimit: Number(form.pidsLimit) }),
+    ...(form.restartPolicy && { restartPolicy: form.restartPolicy }),
+  };
+  return Object.keys(limits).length > 0 ? limits : undefined;
+};
+
 const AUTH_METHODS: { value: GitAuthMethod; label: string; description: string }[] = [
   { value: 'token', label: 'Token d\'accès', description: 'Personal Access Token (recommandé)' },
   { value: 'username_password', label: 'Identifiants', description: 'Nom d\'utilisateur et mot de passe' },
@@ -57,6 +96,17 @@ export default function NewAppPage() {
   const [selectedType, setSelectedType] = useState<AppType | null>(null);
   const [name, setName] = useState('');
   const [domain, setDomain] = useState('');
+  const [deployStrategy, setDeployStrategy] = useState<DeployStrategy>('recreate');
+  const [buildSourceType, setBuildSourceType] = useState<BuildSourceType>('template');
+  const [parameters, setParameters] = useState<Record<string, string>>({});
+  const [resources, setResources] = useState<ResourceFormState>({
+    cpus: '',
+    memoryLimit: '',
+    memoryReservation: '',
+    pidsLimit: '',
+    restartPolicy: '',
+  });
+  const [hostCapacity, setHostCapacity] = useState<{ cores: number; memory: number } | null>(null);
   const [envVariables, setEnvVariables] = useState<EnvVariable[]>([]);
   const [envInput, setEnvInput] = useState('');
   const [showAdvanced, setShowAdvanced] = useState(false);
@@ -81,6 +131,10 @@ export default function NewAppPage() {
   const [errors, setErrors] = useState<FormErrors>({});
   const [validatingGit, setValidatingGit] = useState(false);
   const [gitValid, setGitValid] = useState<boolean | null>(null);
+  const [gitRemote, setGitRemote] = useState<GitRemoteInfo | null>(null);
+  const [detection, setDetection] = useState<AppDetection | null>(null);
+  const [detecting, setDetecting] = useState(false);
+  const [detectionError, setDetectionError] = useState<string | null>(null);
 
   // Charger les templates
   useEffect(() => {
@@ -89,36 +143,102 @@ export default function NewAppPage() {
       .catch(console.error);
   }, []);
 
+  // Capacité de l'hôte, pour borner les limites de ressources (revérifiée par l'API)
+  useEffect(() => {
+    Promise.all([getCpuInfo(), getMemoryInfo()])
+      .then(([cpu, memory]) => setHostCapacity({
+        cores: cpu.info.cores,
+        memory: Math.floor(memory.ram.total / (1024 * 1024)),
+      }))
+      .catch(() => setHostCapacity(null));
+  }, []);
+
+  // Les parametres reprennent les valeurs detectees dans le repository, sinon celles par defaut du template
+  useEffect(() => {
+    const template = templates.find(t => t.type === selectedType);
+    const detected = detection?.type === selectedType ? detection.parameters ?? {} : {};
+    setParameters(Object.fromEntries((template?.parameters ?? []).map(p => [p.name, detected[p.name] ?? p.default ?? ''])));
+  }, [selectedType, templates, detection]);
+
   // Detecter le provider Git
   const detectProvider = useCallback((url: string) => {
     const lower = url.toLowerCase();
     return GIT_PROVIDERS.find(p => lower.includes(p.domain))?.name || 'Autre';
   }, []);
 
-  // Valider la configuration Git
+  // Le resultat de la verification ne vaut que pour l'URL et les identifiants testes
+  useEffect(() => {
+    setGitRemote(null);
+    setGitValid(null);
+  }, [git.url, git.isPrivate, git.authMethod, git.accessToken, git.username, git.password, git.sshPrivateKey]);
+
+  // Les commandes detectees ne valent que pour le repository analyse
+  useEffect(() => {
+    setDetection(null);
+    setDetectionError(null);
+  }, [git.url, git.branch]);
+
+  // Configuration Git envoyee a l'API
+  const gitPayload = useCallback(() => ({
+    url: git.url,
+    branch: git.branch,
+    isPrivate: git.isPrivate,
+    authMethod: git.isPrivate ? git.authMethod : 'none',
+    accessToken: git.authMethod === 'token' ? git.accessToken : undefined,
+    username: git.authMethod === 'username_password' ? git.username : undefined,
+    password: git.authMethod === 'username_password' ? git.password : undefined,
+    sshPrivateKey: git.authMethod === 'ssh' ? git.sshPrivateKey : undefined,
+  }), [git]);
+
+  // Analyser le repository pour preselectionner le type
+  const detectType = useCallback(async () => {
+    if (!git.url) return;
+
+    setDetecting(true);
+    setDetectionError(null);
+
+    try {
+      const result = await detectAppType(gitPayload());
+      setDetection(result);
+      setSelectedType(result.type);
+    } catch (err: any) {
+      setDetection(null);
+      setDetectionError(err.message || 'Analyse impossible');
+    } finally {
+      setDetecting(false);
+    }
+  }, [git.url, gitPayload]);
+
+  // Valider la configuration Git puis contacter le repository
   const validateGit = useCallback(async () => {
     if (!git.enabled || !git.url) return;
 
     setValidatingGit(true);
     setGitValid(null);
+    setGitRemote(null);
     
     try {
-      const result = await validateGitConfig({
-        url: git.url,
-        branch: git.branch,
-        isPrivate: git.isPrivate,
-        authMethod: git.isPrivate ? git.authMethod : 'none',
-        accessToken: git.authMethod === 'token' ? git.accessToken : undefined,
-        username: git.authMethod === 'username_password' ? git.username : undefined,
-        password: git.authMethod === 'username_password' ? git.password : undefined,
-        sshPrivateKey: git.authMethod === 'ssh' ? git.sshPrivateKey : undefined,
-      });
-
-      setGitValid(result.valid);
+      const gitConfig = gitPayload();
+
+      const result = await validateGitConfig(gitConfig);
       if (!result.valid) {
+        setGitValid(false);
         setErrors(prev => ({ ...prev, git: result.errors }));
-      } else {
-        setErrors(prev => ({ ...prev, git: undefined }));
+        return;
+      }
+
+      const remote = await browseGitRemote(gitConfig);
+      setGitValid(remote.reachable);
+      if (!remote.reachable) {
+        setErrors(prev => ({ ...prev, git: [remote.error || 'Repository inaccessible'] }));
+        return;
+      }
+
+      setGitRemote(remote);
+      setErrors(prev => ({ ...prev, git: undefined }));
+      // Branche saisie absente du repository: bascule sur la branche par défaut
+      if (!remote.branches.some(b => b.name === git.branch) && remote.defaultBranch) {
+        setGit(prev => ({ ...prev, branch: remote.defaultBranch ?? prev.branch }));
       }
     } catch (err) {
       setGitValid(false);
@@ -126,7 +246,7 @@ export default function NewAppPage() {
     } finally {
       setValidatingGit(false);
     }
-  }, [git]);
+  }, [git, gitPayload]);
 
   // Valider le formulaire avant passage à l'étape suivante
   const validateStep = useCallback(() => {
@@ -143,6 +263,39 @@ export default function NewAppPage() {
         newErrors.name = 'Caractères autorisés: lettres, chiffres, tirets, underscores';
       }
 
+      const parameterErrors: Record<string, string> = {};
+      for (const parameter of templates.find(t => t.type === selectedType)?.parameters ?? []) {
+        const value = parameters[parameter.name] ?? '';
+        if (!value) {
+          if (parameter.required) parameterErrors[parameter.name] = 'Valeur requise';
+        } else if (parameter.pattern && !new RegExp(`^(?:${parameter.pattern})$`).test(value)) {
+          parameterErrors[parameter.name] = `Format attendu: ${parameter.pattern}`;
+        }
+      }
+      if (Object.keys(parameterErrors).length > 0) {
+        newErrors.parameters = parameterErrors;
+      }
+
+      const limits = toResourceLimits(resources);
+      if (limits) {
+        const { cpus, memoryLimit, memoryReservation, pidsLimit } = limits;
+        if (cpus !== undefined && !(cpus >= 0.01)) {
+          newErrors.resources = 'Quota CPU invalide (minimum 0.01)';
+        } else if (cpus !== undefined && hostCapacity && cpus > hostCapacity.cores) {
+          newErrors.resources = `Quota CPU supérieur au nombre de cœurs de l'hôte (${hostCapacity.cores})`;
+        } else if (memoryLimit !== undefined && !(Number.isInteger(memoryLimit) && memoryLimit >= 6)) {
+          newErrors.resources = 'Mémoire maximale invalide (entier, minimum 6 Mo)';
+        } else if (memoryLimit !== undefined && hostCapacity && memoryLimit > hostCapacity.memory) {
+          newErrors.resources = `Mémoire maximale supérieure à la mémoire de l'hôte (${hostCapacity.memory} Mo)`;
+        } else if (memoryReservation !== undefined && !(Number.isInteger(memoryReservation) && memoryReservation >= 1)) {
+          newErrors.resources = 'Mémoire réservée invalide (entier en Mo)';
+        } else if (memoryReservation !== undefined && memoryLimit !== undefined && memoryReservation > memoryLimit) {
+          newErrors.resources = 'La mémoire réservée ne peut pas dépasser la mémoire maximale';
+        } else if (pidsLimit !== undefined && !(Number.isInteger(pidsLimit) && pidsLimit >= 1)) {
+          newErrors.resources = 'Limite de processus invalide';
+        }
+      }
+
       if (git.enabled && git.isPrivate) {
         const gitErrors: string[] = [];
         
@@ -169,7 +322,7 @@ export default function NewAppPage() {
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
-  }, [step, selectedType, name, git]);
+  }, [step, selectedType, name, git, templates, parameters, resources, hostCapacity]);
 
   // Passer à l'étape suivante
   const nextStep = () => {
@@ -229,12 +382,24 @@ export default function NewAppPage() {
         type: selectedType,
         envVariables: envVariables.filter(v => v.key && v.value),
         domain: domain || undefined,
+        deployStrategy,
         dockerfile: showAdvanced && customDockerfile ? customDockerfile : undefined,
         dockerCompose: showAdvanced && customDockerCompose ? customDockerCompose : undefined,
+        parameters: Object.fromEntries(Object.entries(parameters).filter(([, value]) => value !== '')),
+        resources: toResourceLimits(resources),
       };
 
+      // Commandes et port detectes, si le type suggere a ete conserve
+      if (detection && detection.type === selectedType) {
+        request.buildCommand = detection.buildCommand;
+        request.startCommand = detection.startCommand;
+        // Seul le template custom expose le port interne dans son docker-compose
+        if (selectedType === 'custom') request.internalPort = detection.internalPort;
+      }
+
       // Ajouter la configuration Git si activée
       if (git.enabled && git.url) {
+        if (buildSourceType !== 'template') request.buildSource = { type: buildSourceType };
         request.git = {
           url: git.url,
           branch: git.branch || 'main',
@@ -314,8 +479,62 @@ export default function NewAppPage() {
               <p className="text-slate-600">Sélectionnez le type qui correspond à votre projet</p>
             </div>
 
+            {/* Détection automatique */}
+            <div className="bg-white rounded-xl border border-slate-200 p-6 space-y-4">
+              <div>
+                <h3 className="font-semibold text-slate-800">Détection automatique</h3>
+                <p className="text-sm text-slate-500">
+                  Analyse le repository pour suggérer le type, le port et les commandes.
+                  Pour un repository privé, renseignez l'authentification à l'étape suivante puis revenez ici.
+                </p>
+              </div>
+              <div className="flex gap-3">
+                <input
+                  type="text"
+                  value={git.url}
+                  onChange={e => setGit({ ...git, enabled: true, url: e.target.value })}
+                  placeholder="https://github.com/user/repo.git"
+                  className="flex-1 px-4 py-3 rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                />
+                <button
+                  type="button"
+                  onClick={detectType}
+                  disabled={detecting || !git.url}
+                  className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                >
+                  {detecting ? 'Analyse...' : 'Analyser'}
+                </button>
+              </div>
+
+              {detectionError && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{detectionError}</div>
+              )}
+
+              {detection && (
+                <div className="p-4 bg-cyan-50 border border-cyan-200 rounded-lg text-sm text-slate-700 space-y-1">
+                  <p>
+                    <span className="font-medium">
+                      {templates.find(t => t.type === detection.type)?.name ?? detection.type}
+                    </span>
+                    {' '}({CONFIDENCE_LABELS[detection.confidence]}) — {detection.reasons.join(', ')}
+                  </p>
+                  <p>Port interne: <span className="font-mono">{detection.internalPort}</span></p>
+                  {detection.buildCommand && <p>Build: <span className="font-mono">{detection.buildCommand}</span></p>}
+                  {detection.startCommand && <p>Démarrage: <span className="font-mono">{detection.startCommand}</span></p>}
+                  {Object.entries(detection.parameters ?? {}).map(([key, value]) => (
+                    <p key={key}>{key}: <span className="font-mono">{value}</span></p>
+                  ))}
+                  {(detection.hasDockerfile || detection.hasDockerCompose) && (
+                    <p className="text-slate-500">
+                      Le repository contient {detection.hasDockerfile ? 'un Dockerfile' : 'un docker-compose'}
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-              {templates.map(template => (
+              {templates.filter(t => !isUserTemplate(t)).map(template => (
                 <button
                   key={template.type}
                   onClick={() => setSelectedType(template.type)}
@@ -333,6 +552,12 @@ export default function NewAppPage() {
                     {template.type === 'nextjs' && '⚫'}
                     {template.type === 'static' && '📄'}
                     {template.type === 'python' && '🐍'}
+                    {template.type === 'django' && '🎸'}
+                    {template.type === 'go' && '🐹'}
+                    {template.type === 'rust' && '🦀'}
+                    {template.type === 'rails' && '💎'}
+                    {template.type === 'spring-boot' && '🍃'}
+                    {template.type === 'dotnet' && '🟪'}
                     {template.type === 'custom' && '🔧'}
                   </div>
                   <div className="font-semibold text-slate-800">{template.name}</div>
@@ -340,6 +565,33 @@ export default function NewAppPage() {
                 </button>
               ))}
             </div>
+
+            {/* Templates créés par les utilisateurs */}
+            {templates.some(isUserTemplate) && (
+              <div>
+                <h3 className="text-sm font-medium text-slate-700 mb-3">Templates personnalisés</h3>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  {templates.filter(isUserTemplate).map(template => (
+                    <button
+                      key={template.type}
+                      onClick={() => setSelectedType(template.type)}
+                      className={`p-4 rounded-xl border-2 text-left transition-all ${
+                        selectedType === template.type
+                          ? 'border-cyan-500 bg-cyan-50 shadow-md'
+                          : 'border-slate-200 bg-white hover:border-slate-300 hover:shadow'
+                      }`}
+                    >
+                      <div className="flex items-start justify-between mb-2">
+                        <span className="text-2xl">🧩</span>
+                        <span className="px-2 py-0.5 text-xs bg-slate-100 text-slate-600 rounded">v{template.version}</span>
+                      </div>
+                      <div className="font-semibold text-slate-800">{template.name}</div>
+                      <div className="text-xs text-slate-500 mt-1 line-clamp-2">{template.description}</div>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         )}
 
@@ -373,6 +625,46 @@ export default function NewAppPage() {
               </p>
             </div>
 
+            {/* Paramètres du template */}
+            {selectedTemplate && selectedTemplate.parameters.length > 0 && (
+              <div className="bg-white rounded-xl border border-slate-200 p-6 space-y-4">
+                <label className="block text-sm font-medium text-slate-700">
+                  Paramètres du template
+                </label>
+                {selectedTemplate.parameters.map(parameter => (
+                  <div key={parameter.name}>
+                    <label className="flex items-center gap-2 text-sm text-slate-700 mb-1">
+                      {parameter.type === 'boolean' && (
+                        <input
+                          type="checkbox"
+                          checked={parameters[parameter.name] === 'true'}
+                          onChange={e => setParameters(p => ({ ...p, [parameter.name]: String(e.target.checked) }))}
+                          className="w-4 h-4 rounded border-slate-300 text-cyan-600"
+                        />
+                      )}
+                      <span className="font-mono">{parameter.name}</span>
+                      {parameter.required && <span className="text-red-500">*</span>}
+                      <span className="text-slate-500">— {parameter.description}</span>
+                    </label>
+                    {parameter.type !== 'boolean' && (
+                      <input
+                        type={parameter.type === 'string' ? 'text' : 'number'}
+                        value={parameters[parameter.name] ?? ''}
+                        onChange={e => setParameters(p => ({ ...p, [parameter.name]: e.target.value }))}
+                        placeholder={parameter.default}
+                        className={`w-full px-4 py-2 rounded-lg border font-mono text-sm ${
+                          errors.parameters?.[parameter.name] ? 'border-red-300 bg-red-50' : 'border-slate-200'
+                        } focus:outline-none focus:ring-2 focus:ring-cyan-500`}
+                      />
+                    )}
+                    {errors.parameters?.[parameter.name] && (
+                      <p className="mt-1 text-sm text-red-600">{errors.parameters[parameter.name]}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
             {/* Source Git */}
             <div className="bg-white rounded-xl border border-slate-200 p-6">
               <div className="flex items-center justify-between mb-4">
@@ -417,13 +709,36 @@ export default function NewAppPage() {
                     <label className="block text-sm font-medium text-slate-700 mb-2">
                       Branche
                     </label>
-                    <input
-                      type="text"
-                      value={git.branch}
-                      onChange={e => setGit({ ...git, branch: e.target.value })}
-                      placeholder="main"
-                      className="w-full px-4 py-3 rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-cyan-500"
-                    />
+                    {gitRemote && gitRemote.branches.length > 0 ? (
+                      <select
+                        value={git.branch}
+                        onChange={e => setGit({ ...git, branch: e.target.value })}
+                        className="w-full px-4 py-3 rounded-lg border border-slate-200 bg-white focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                      >
+                        {!gitRemote.branches.some(b => b.name === git.branch) && (
+                          <option value={git.branch}>{git.branch} (introuvable)</option>
+                        )}
+                        {gitRemote.branches.map(b => (
+                          <option key={b.name} value={b.name}>
+                            {b.name}{b.name === gitRemote.defaultBranch ? ' (par défaut)' : ''}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <input
+                        type="text"
+                        value={git.branch}
+                        onChange={e => setGit({ ...git, branch: e.target.value })}
+                        placeholder="main"
+                        className="w-full px-4 py-3 rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                      />
+                    )}
+                    {gitRemote && (
+                      <p className="mt-2 text-sm text-slate-500">
+                        {gitRemote.branches.length} branche(s), {gitRemote.tags.length} tag(s)
+                        {gitRemote.tags.length > 0 && ' — les tags sont déployables depuis la fiche de l\'application'}
+                      </p>
+                    )}
                   </div>
 
                   {/* Repository privé */}
@@ -538,33 +853,33 @@ export default function NewAppPage() {
                           </p>
                         </div>
                       )}
+                    </div>
+                  )}
 
-                      {/* Erreurs Git */}
-                      {errors.git && errors.git.length > 0 && (
-                        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
-                          <ul className="text-sm text-red-700 list-disc list-inside">
-                            {errors.git.map((err, i) => (
-                              <li key={i}>{err}</li>
-                            ))}
-                          </ul>
-                        </div>
-                      )}
+                  {/* Erreurs Git */}
+                  {errors.git && errors.git.length > 0 && (
+                    <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                      <ul className="text-sm text-red-700 list-disc list-inside">
+                        {errors.git.map((err, i) => (
+                          <li key={i}>{err}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
 
-                      {/* Bouton de validation */}
-                      <button
-                        type="button"
-                        onClick={validateGit}
-                        disabled={validatingGit}
-                        className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
-                      >
-                        {validatingGit ? 'Validation...' : 'Valider la configuration'}
-                      </button>
+                  {/* Vérification de l'accès au repository */}
+                  <button
+                    type="button"
+                    onClick={validateGit}
+                    disabled={validatingGit || !git.url}
+                    className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                  >
+                    {validatingGit ? 'Connexion au repository...' : 'Vérifier l\'accès au repository'}
+                  </button>
 
-                      {gitValid !== null && (
-                        <div className={`p-3 rounded-lg ${gitValid ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
-                          {gitValid ? '✓ Configuration valide' : '✗ Configuration invalide'}
-                        </div>
-                      )}
+                  {gitValid !== null && (
+                    <div className={`p-3 rounded-lg ${gitValid ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+                      {gitValid ? '✓ Repository accessible' : '✗ Repository inaccessible ou configuration invalide'}
                     </div>
                   )}
                 </div>
@@ -587,6 +902,122 @@ export default function NewAppPage() {
                 Configurez votre DNS pour pointer vers ce serveur
               </p>
             </div>
+
+            {/* Stratégie de déploiement */}
+            <div className="bg-white rounded-xl border border-slate-200 p-6">
+              <label className="block text-sm font-medium text-slate-700 mb-2">
+                Stratégie de déploiement
+              </label>
+              <div className="grid grid-cols-2 gap-3">
+                {([
+                  ['recreate', 'Recreate', 'Arrêt de l\'ancien container puis démarrage du nouveau'],
+                  ['bluegreen', 'Blue/green', 'Bascule sans coupure une fois le nouveau container opérationnel'],
+                ] as [DeployStrategy, string, string][]).map(([value, label, description]) => (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => {
+                      setDeployStrategy(value);
+                      if (value === 'bluegreen' && buildSourceType === 'compose') setBuildSourceType('template');
+                    }}
+                    className={`p-4 rounded-lg border-2 text-left transition-all ${
+                      deployStrategy === value ? 'border-cyan-500 bg-cyan-50' : 'border-slate-200 hover:border-slate-300'
+                    }`}
+                  >
+                    <div className="font-medium text-slate-800">{label}</div>
+                    <div className="text-sm text-slate-500 mt-1">{description}</div>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Source du build (repository Git uniquement) */}
+            {git.enabled && (
+              <div className="bg-white rounded-xl border border-slate-200 p-6">
+                <label className="block text-sm font-medium text-slate-700 mb-2">
+                  Source du build
+                </label>
+                <div className="grid grid-cols-3 gap-3">
+                  {([
+                    ['template', 'Template', 'Dockerfile et docker-compose générés par Docktor'],
+                    ['dockerfile', 'Dockerfile', 'Dockerfile à la racine du repository'],
+                    ['compose', 'Docker Compose', 'docker-compose.yml du repository (premier service publié)'],
+                  ] as [BuildSourceType, string, string][]).map(([value, label, description]) => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => {
+                        setBuildSourceType(value);
+                        // Le blue/green ne gère qu'un service
+                        if (value === 'compose') setDeployStrategy('recreate');
+                      }}
+                      className={`p-4 rounded-lg border-2 text-left transition-all ${
+                        buildSourceType === value ? 'border-cyan-500 bg-cyan-50' : 'border-slate-200 hover:border-slate-300'
+                      }`}
+                    >
+                      <div className="font-medium text-slate-800">{label}</div>
+                      <div className="text-sm text-slate-500 mt-1">{description}</div>
+                    </button>
+                  ))}
+                </div>
+                {buildSourceType !== 'template' && (
+                  <p className="text-xs text-slate-500 mt-2">
+                    Le mapping de port, les variables d'environnement et le réseau docktor-network sont ajoutés par Docktor.
+                    Chemins et service se modifient ensuite depuis le détail de l'application.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Ressources */}
+            <div className="bg-white rounded-xl border border-slate-200 p-6">
+              <label className="block text-sm font-medium text-slate-700 mb-1">
+                Ressources
+              </label>
+              <p className="text-sm text-slate-500 mb-4">
+                Limites du container de l'application, laissez vide pour ne pas limiter
+                {hostCapacity && ` (hôte: ${hostCapacity.cores} cœurs, ${hostCapacity.memory} Mo)`}
+              </p>
+              <div className="grid grid-cols-2 gap-4">
+                {([
+                  ['cpus', 'CPU (cœurs)', '0.5', '0.01'],
+                  ['memoryLimit', 'Mémoire maximale (Mo)', '512', '1'],
+                  ['memoryReservation', 'Mémoire réservée (Mo)', '256', '1'],
+                  ['pidsLimit', 'Processus maximum', '200', '1'],
+                ] as [Exclude<keyof ResourceFormState, 'restartPolicy'>, string, string, string][]).map(([field, label, placeholder, stepValue]) => (
+                  <div key={field}>
+                    <label className="block text-sm text-slate-700 mb-1">{label}</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step={stepValue}
+                      value={resources[field]}
+                      onChange={e => setResources(r => ({ ...r, [field]: e.target.value }))}
+                      placeholder={placeholder}
+                      className={`w-full px-4 py-2 rounded-lg border text-sm ${
+                        errors.resources ? 'border-red-300 bg-red-50' : 'border-slate-200'
+                      } focus:outline-none focus:ring-2 focus:ring-cyan-500`}
+                    />
+                  </div>
+                ))}
+                <div className="col-span-2">
+                  <label className="block text-sm text-slate-700 mb-1">Redémarrage</label>
+                  <select
+                    value={resources.restartPolicy}
+                    onChange={e => setResources(r => ({ ...r, restartPolicy: e.target.value as RestartPolicy | '' }))}
+                    className="w-full px-4 py-2 rounded-lg border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  >
+                    <option value="">Défaut du template</option>
+                    {RESTART_POLICIES.map(policy => (
+                      <option key={policy.value} value={policy.value}>{policy.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              {errors.resources && (
+                <p className="mt-2 text-sm text-red-600">{errors.resources}</p>
+              )}
+            </div>
           </div>
         )}
 
@@ -744,6 +1175,32 @@ export default function NewAppPage() {
                       <dd className="font-medium text-slate-800">{domain}</dd>
                     </div>
                   )}
+                  <div>
+                    <dt className="text-slate-500">Déploiement</dt>
+                    <dd className="font-medium text-slate-800">{deployStrategy === 'bluegreen' ? 'Blue/green' : 'Recreate'}</dd>
+                  </div>
+                  {git.enabled && buildSourceType !== 'template' && (
+                    <div>
+                      <dt className="text-slate-500">Build</dt>
+                      <dd className="font-medium text-slate-800">
+                        {buildSourceType === 'dockerfile' ? 'Dockerfile du repository' : 'Compose du repository'}
+                      </dd>
+                    </div>
+                  )}
+                  {toResourceLimits(resources) && (
+                    <div>
+                      <dt className="text-slate-500">Ressources</dt>
+                      <dd className="font-medium text-slate-800">
+                        {[
+                          resources.cpus && `${resources.cpus} CPU`,
+                          resources.memoryLimit && `${resources.memoryLimit} Mo max`,
+                          resources.memoryReservation && `${resources.memoryReservation} Mo réservés`,
+                          resources.pidsLimit && `${resources.pidsLimit} processus`,
+                          resources.restartPolicy && `restart ${resources.restartPolicy}`,
+                        ].filter(Boolean).join(', ')}
+                      </dd>
+                    </div>
+                  )}
                 </dl>
               </div>
 
@@ -7,7 +7,8 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import type { AppConfig } from '@/types';
+import type { AppConfig, AuthSession } from '@/types';
+import { getAuthToken, getCurrentUser, logout, createPermissionChecker } from '@/lib/api';
 import {
   ContainerList,
   SystemOverview,
@@ -23,11 +24,23 @@ export default function DashboardPage() {
   const router = useRouter();
   const [currentTime, setCurrentTime] = useState<string>('');
   const [activeView, setActiveView] = useState<ViewType>('containers');
+  const [session, setSession] = useState<AuthSession | null>(null);
   
   // Modals
   const [selectedApp, setSelectedApp] = useState<AppConfig | null>(null);
   const [autoDeployOnOpen, setAutoDeployOnOpen] = useState(false);
 
+  // Verification de la session
+  useEffect(() => {
+    if (!getAuthToken()) {
+      router.replace('/login');
+      return;
+    }
+    getCurrentUser()
+      .then(setSession)
+      .catch(() => router.replace('/login'));
+  }, [router]);
+
   useEffect(() => {
     const updateTime = () => {
       setCurrentTime(
@@ -61,6 +74,21 @@ export default function DashboardPage() {
     setAutoDeployOnOpen(false);
   };
 
+  const handleLogout = async () => {
+    await logout().catch(() => {});
+    router.replace('/login');
+  };
+
+  if (!session) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-docktor-50">
+        <div className="w-10 h-10 border-2 border-docktor-200 border-t-primary rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  const can = createPermissionChecker(session);
+
   return (
     <div className="min-h-screen flex flex-col bg-docktor-50">
       {/* Header */}
@@ -92,11 +120,17 @@ export default function DashboardPage() {
             <div className="flex items-center gap-4">
               <div className="hidden sm:flex items-center gap-2 text-sm text-docktor-300">
                 <span className="inline-block w-2 h-2 bg-emerald-400 rounded-full animate-pulse" />
-                <span>Connected</span>
+                <span>{session.user.username}</span>
               </div>
               <div className="text-sm font-medium text-white bg-white/10 px-3 py-1.5 rounded-lg">
                 {currentTime}
               </div>
+              <button
+                onClick={handleLogout}
+                className="text-sm text-docktor-300 hover:text-white transition-colors"
+              >
+                Deconnexion
+              </button>
             </div>
           </div>
         </div>
@@ -172,7 +206,7 @@ export default function DashboardPage() {
               <SystemOverview />
               
               {/* Liste des containers */}
-              <ContainerList />
+              <ContainerList can={can} />
             </div>
           )}
 
@@ -181,6 +215,7 @@ export default function DashboardPage() {
               onCreateApp={handleCreateApp}
               onViewApp={handleViewApp}
               onDeployApp={handleDeployApp}
+              can={can}
             />
           )}
 
@@ -211,6 +246,7 @@ export default function DashboardPage() {
           onClose={handleAppModalClose}
           onUpdate={() => {}}
           autoDeployOnOpen={autoDeployOnOpen}
+          can={can}
         />
       )}
     </div>
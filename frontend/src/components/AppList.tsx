@@ -6,13 +6,14 @@
  */
 
 import { useState, useEffect, useCallback } from 'react';
-import type { AppConfig, AppStatus } from '@/types';
+import type { AppConfig, AppStatus, PermissionChecker } from '@/types';
 import { getApps, deleteApp, stopAppService, startAppService, restartAppService, ApiError } from '@/lib/api';
 
 interface AppListProps {
   onCreateApp: () => void;
   onViewApp: (app: AppConfig) => void;
   onDeployApp: (app: AppConfig) => void;
+  can: PermissionChecker;
 }
 
 /** Configuration des statuts */
@@ -35,10 +36,16 @@ const APP_TYPE_CONFIG: Record<string, { icon: string; color: string }> = {
   nextjs: { icon: 'Next', color: 'bg-slate-100 text-slate-700' },
   static: { icon: 'HTML', color: 'bg-orange-100 text-orange-700' },
   python: { icon: 'PY', color: 'bg-yellow-100 text-yellow-700' },
+  django: { icon: 'Django', color: 'bg-emerald-100 text-emerald-700' },
+  go: { icon: 'Go', color: 'bg-cyan-100 text-cyan-700' },
+  rust: { icon: 'Rust', color: 'bg-amber-100 text-amber-800' },
+  rails: { icon: 'Rails', color: 'bg-rose-100 text-rose-700' },
+  'spring-boot': { icon: 'Spring', color: 'bg-lime-100 text-lime-700' },
+  dotnet: { icon: '.NET', color: 'bg-violet-100 text-violet-700' },
   custom: { icon: 'Custom', color: 'bg-purple-100 text-purple-700' },
 };
 
-export function AppList({ onCreateApp, onViewApp, onDeployApp }: AppListProps) {
+export function AppList({ onCreateApp, onViewApp, onDeployApp, can }: AppListProps) {
   const [apps, setApps] = useState<AppConfig[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -104,15 +111,17 @@ export function AppList({ onCreateApp, onViewApp, onDeployApp }: AppListProps) {
             {apps.length} application{apps.length !== 1 ? 's' : ''} deployee{apps.length !== 1 ? 's' : ''}
           </p>
         </div>
-        <button
-          onClick={onCreateApp}
-          className="flex items-center gap-2 px-4 py-2.5 bg-primary text-white font-medium rounded-lg hover:bg-primary-light transition-colors"
-        >
-          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-          </svg>
-          Nouvelle Application
-        </button>
+        {can('apps:create') && (
+          <button
+            onClick={onCreateApp}
+            className="flex items-center gap-2 px-4 py-2.5 bg-primary text-white font-medium rounded-lg hover:bg-primary-light transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+            Nouvelle Application
+          </button>
+        )}
       </div>
 
       {/* Erreur */}
@@ -135,12 +144,14 @@ export function AppList({ onCreateApp, onViewApp, onDeployApp }: AppListProps) {
           </div>
           <p className="mt-4 text-docktor-600 font-medium">Aucune application</p>
           <p className="text-sm text-docktor-400 mt-1">Creez votre premiere application pour commencer</p>
-          <button
-            onClick={onCreateApp}
-            className="mt-6 px-4 py-2 bg-primary text-white font-medium rounded-lg hover:bg-primary-light transition-colors"
-          >
-            Creer une application
-          </button>
+          {can('apps:create') && (
+            <button
+              onClick={onCreateApp}
+              className="mt-6 px-4 py-2 bg-primary text-white font-medium rounded-lg hover:bg-primary-light transition-colors"
+            >
+              Creer une application
+            </button>
+          )}
         </div>
       ) : (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
@@ -148,6 +159,10 @@ export function AppList({ onCreateApp, onViewApp, onDeployApp }: AppListProps) {
             const statusConfig = STATUS_CONFIG[app.status] || STATUS_CONFIG.pending;
             const typeConfig = APP_TYPE_CONFIG[app.type] || APP_TYPE_CONFIG.custom;
             const isRunning = app.status === 'running';
+            const canOperate = isRunning
+              ? can('apps:stop', app.id) || can('apps:restart', app.id)
+              : can('apps:start', app.id);
+            const canDelete = can('apps:delete', app.id);
 
             return (
               <div
@@ -221,7 +236,8 @@ export function AppList({ onCreateApp, onViewApp, onDeployApp }: AppListProps) {
 
                     <button
                       onClick={() => onDeployApp(app)}
-                      disabled={app.status === 'building' || app.status === 'deploying'}
+                      disabled={app.status === 'building' || app.status === 'deploying' || !can('apps:deploy', app.id)}
+                      title={can('apps:deploy', app.id) ? undefined : 'Permission insuffisante'}
                       className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 text-sm font-medium text-white bg-accent rounded-lg hover:bg-accent-dark disabled:opacity-50 transition-colors"
                     >
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -231,55 +247,67 @@ export function AppList({ onCreateApp, onViewApp, onDeployApp }: AppListProps) {
                     </button>
 
                     {/* Menu actions supplementaires */}
-                    <div className="relative">
-                      <button
-                        className="p-2 text-docktor-500 hover:text-docktor-700 hover:bg-white rounded-lg transition-colors"
-                        onClick={(e) => {
-                          const menu = e.currentTarget.nextElementSibling;
-                          menu?.classList.toggle('hidden');
-                        }}
-                      >
-                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 5v.01M12 12v.01M12 19v.01M12 6a1 1 0 110-2 1 1 0 010 2zm0 7a1 1 0 110-2 1 1 0 010 2zm0 7a1 1 0 110-2 1 1 0 010 2z" />
-                        </svg>
-                      </button>
-                      <div className="hidden absolute right-0 bottom-full mb-2 w-40 bg-white border border-docktor-200 rounded-lg shadow-lg py-1 z-10">
-                        {isRunning ? (
-                          <>
-                            <button
-                              onClick={() => handleAction(app.id, 'stop', stopAppService)}
-                              disabled={actionLoading === `${app.id}-stop`}
-                              className="w-full px-4 py-2 text-left text-sm text-docktor-700 hover:bg-docktor-50 disabled:opacity-50"
-                            >
-                              Arreter
-                            </button>
-                            <button
-                              onClick={() => handleAction(app.id, 'restart', restartAppService)}
-                              disabled={actionLoading === `${app.id}-restart`}
-                              className="w-full px-4 py-2 text-left text-sm text-docktor-700 hover:bg-docktor-50 disabled:opacity-50"
-                            >
-                              Redemarrer
-                            </button>
-                          </>
-                        ) : (
-                          <button
-                            onClick={() => handleAction(app.id, 'start', startAppService)}
-                            disabled={actionLoading === `${app.id}-start`}
-                            className="w-full px-4 py-2 text-left text-sm text-docktor-700 hover:bg-docktor-50 disabled:opacity-50"
-                          >
-                            Demarrer
-                          </button>
-                        )}
-                        <hr className="my-1 border-docktor-100" />
+                    {(canOperate || canDelete) && (
+                      <div className="relative">
                         <button
-                          onClick={() => handleAction(app.id, 'delete', deleteApp)}
-                          disabled={actionLoading === `${app.id}-delete`}
-                          className="w-full px-4 py-2 text-left text-sm text-red-600 hover:bg-red-50 disabled:opacity-50"
+                          className="p-2 text-docktor-500 hover:text-docktor-700 hover:bg-white rounded-lg transition-colors"
+                          onClick={(e) => {
+                            const menu = e.currentTarget.nextElementSibling;
+                            menu?.classList.toggle('hidden');
+                          }}
                         >
-                          Supprimer
+                          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 5v.01M12 12v.01M12 19v.01M12 6a1 1 0 110-2 1 1 0 010 2zm0 7a1 1 0 110-2 1 1 0 010 2zm0 7a1 1 0 110-2 1 1 0 010 2z" />
+                          </svg>
                         </button>
+                        <div className="hidden absolute right-0 bottom-full mb-2 w-40 bg-white border border-docktor-200 rounded-lg shadow-lg py-1 z-10">
+                          {isRunning ? (
+                            <>
+                              {can('apps:stop', app.id) && (
+                                <button
+                                  onClick={() => handleAction(app.id, 'stop', stopAppService)}
+                                  disabled={actionLoading === `${app.id}-stop`}
+                                  className="w-full px-4 py-2 text-left text-sm text-docktor-700 hover:bg-docktor-50 disabled:opacity-50"
+                                >
+                                  Arreter
+                                </button>
+                              )}
+                              {can('apps:restart', app.id) && (
+                                <button
+                                  onClick={() => handleAction(app.id, 'restart', restartAppService)}
+                                  disabled={actionLoading === `${app.id}-restart`}
+                                  className="w-full px-4 py-2 text-left text-sm text-docktor-700 hover:bg-docktor-50 disabled:opacity-50"
+                                >
+                                  Redemarrer
+                                </button>
+                              )}
+                            </>
+                          ) : (
+                            can('apps:start', app.id) && (
+                              <button
+                                onClick={() => handleAction(app.id, 'start', startAppService)}
+                                disabled={actionLoading === `${app.id}-start`}
+                                className="w-full px-4 py-2 text-left text-sm text-docktor-700 hover:bg-docktor-50 disabled:opacity-50"
+                              >
+                                Demarrer
+                              </button>
+                            )
+                          )}
+                          {canDelete && (
+                            <>
+                              {canOperate && <hr className="my-1 border-docktor-100" />}
+                              <button
+                                onClick={() => handleAction(app.id, 'delete', deleteApp)}
+                                disabled={actionLoading === `${app.id}-delete`}
+                                className="w-full px-4 py-2 text-left text-sm text-red-600 hover:bg-red-50 disabled:opacity-50"
+                              >
+                                Supprimer
+                              </button>
+                            </>
+                          )}
+                        </div>
                       </div>
-                    </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -6,13 +6,14 @@
  */
 
 import { useState } from 'react';
-import type { ContainerInfo, ContainerState, HealthStatus } from '@/types';
+import type { ContainerInfo, ContainerState, HealthStatus, PermissionChecker } from '@/types';
 import { stopContainer, restartContainer, startContainer, ApiError } from '@/lib/api';
 
 interface ContainerCardProps {
   container: ContainerInfo;
   onActionComplete: () => void;
   onShowLogs: (container: ContainerInfo) => void;
+  can: PermissionChecker;
 }
 
 /**
@@ -96,7 +97,7 @@ function HealthIcon({ health }: { health: HealthStatus }) {
   }
 }
 
-export function ContainerCard({ container, onActionComplete, onShowLogs }: ContainerCardProps) {
+export function ContainerCard({ container, onActionComplete, onShowLogs, can }: ContainerCardProps) {
   const [loading, setLoading] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
@@ -209,15 +210,17 @@ export function ContainerCard({ container, onActionComplete, onShowLogs }: Conta
       <div className="px-4 py-3 bg-docktor-50/50 border-t border-docktor-100">
         <div className="flex items-center gap-2">
           {/* Bouton Logs */}
-          <button
-            onClick={() => onShowLogs(container)}
-            className="flex items-center justify-center gap-1.5 px-3 py-2 text-sm font-medium text-docktor-700 bg-white border border-docktor-200 rounded-lg hover:bg-docktor-50 hover:border-docktor-300 transition-colors"
-          >
-            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-            </svg>
-            Logs
-          </button>
+          {can('containers:logs') && (
+            <button
+              onClick={() => onShowLogs(container)}
+              className="flex items-center justify-center gap-1.5 px-3 py-2 text-sm font-medium text-docktor-700 bg-white border border-docktor-200 rounded-lg hover:bg-docktor-50 hover:border-docktor-300 transition-colors"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+              </svg>
+              Logs
+            </button>
+          )}
 
           {/* Actions container */}
           <div className="flex-1 flex items-center justify-end gap-2">
@@ -225,7 +228,8 @@ export function ContainerCard({ container, onActionComplete, onShowLogs }: Conta
               <>
                 <button
                   onClick={() => handleAction('stop', stopContainer)}
-                  disabled={loading !== null}
+                  disabled={loading !== null || !can('containers:stop')}
+                  title={can('containers:stop') ? undefined : 'Permission insuffisante'}
                   className="flex items-center justify-center gap-1.5 px-3 py-2 text-sm font-medium text-red-700 bg-red-50 border border-red-200 rounded-lg hover:bg-red-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                 >
                   {loading === 'stop' ? (
@@ -239,7 +243,8 @@ export function ContainerCard({ container, onActionComplete, onShowLogs }: Conta
                 </button>
                 <button
                   onClick={() => handleAction('restart', restartContainer)}
-                  disabled={loading !== null}
+                  disabled={loading !== null || !can('containers:restart')}
+                  title={can('containers:restart') ? undefined : 'Permission insuffisante'}
                   className="flex items-center justify-center gap-1.5 px-3 py-2 text-sm font-medium text-amber-700 bg-amber-50 border border-amber-200 rounded-lg hover:bg-amber-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                 >
                   {loading === 'restart' ? (
@@ -253,7 +258,8 @@ export function ContainerCard({ container, onActionComplete, onShowLogs }: Conta
             ) : (
               <button
                 onClick={() => handleAction('start', startContainer)}
-                disabled={loading !== null}
+                disabled={loading !== null || !can('containers:start')}
+                title={can('containers:start') ? undefined : 'Permission insuffisante'}
                 className="flex items-center justify-center gap-1.5 px-3 py-2 text-sm font-medium text-emerald-700 bg-emerald-50 border border-emerald-200 rounded-lg hover:bg-emerald-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
               >
                 {loading === 'start' ? (
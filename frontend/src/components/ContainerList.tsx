@@ -6,7 +6,7 @@
  */
 
 import { useState, useEffect, useCallback } from 'react';
-import type { ContainerInfo } from '@/types';
+import type { ContainerInfo, PermissionChecker } from '@/types';
 import { getContainers, ApiError } from '@/lib/api';
 import { ContainerCard } from './ContainerCard';
 import { LogsViewer } from './LogsViewer';
@@ -17,7 +17,11 @@ const REFRESH_INTERVAL = 5000;
 /** Filtres disponibles */
 type FilterType = 'all' | 'running' | 'stopped';
 
-export function ContainerList() {
+interface ContainerListProps {
+  can: PermissionChecker;
+}
+
+export function ContainerList({ can }: ContainerListProps) {
   const [containers, setContainers] = useState<ContainerInfo[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -267,6 +271,7 @@ export function ContainerList() {
                 container={container}
                 onActionComplete={loadContainers}
                 onShowLogs={handleShowLogs}
+                can={can}
               />
             ))}
           </div>
@@ -6,7 +6,7 @@
  */
 
 import { useState, useEffect } from 'react';
-import type { AppTemplate, AppType, EnvVariable, CreateAppRequest } from '@/types';
+import type { AppTemplate, AppType, EnvVariable, CreateAppRequest, DeployStrategy } from '@/types';
 import { getAppTemplates, createApp, ApiError } from '@/lib/api';
 
 interface CreateAppModalProps {
@@ -30,6 +30,7 @@ export function CreateAppModal({ onClose, onCreated }: CreateAppModalProps) {
   const [gitUrl, setGitUrl] = useState('');
   const [gitBranch, setGitBranch] = useState('main');
   const [domain, setDomain] = useState('');
+  const [deployStrategy, setDeployStrategy] = useState<DeployStrategy>('recreate');
   const [envVariables, setEnvVariables] = useState<EnvVariable[]>([]);
   const [dockerfile, setDockerfile] = useState('');
   const [dockerCompose, setDockerCompose] = useState('');
@@ -113,6 +114,7 @@ export function CreateAppModal({ onClose, onCreated }: CreateAppModalProps) {
         gitUrl: gitUrl || undefined,
         gitBranch: gitBranch || 'main',
         domain: domain || undefined,
+        deployStrategy,
         envVariables: envVariables.filter((v) => v.key),
         dockerfile: showAdvanced ? dockerfile : undefined,
         dockerCompose: showAdvanced ? dockerCompose : undefined,
@@ -298,6 +300,20 @@ export function CreateAppModal({ onClose, onCreated }: CreateAppModalProps) {
                   className="w-full px-4 py-2.5 border border-docktor-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary"
                 />
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-docktor-700 mb-1.5">
+                  Strategie de deploiement
+                </label>
+                <select
+                  value={deployStrategy}
+                  onChange={(e) => setDeployStrategy(e.target.value as DeployStrategy)}
+                  className="w-full px-4 py-2.5 border border-docktor-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary"
+                >
+                  <option value="recreate">Recreate (arret puis redemarrage)</option>
+                  <option value="bluegreen">Blue/green (sans coupure)</option>
+                </select>
+              </div>
             </div>
           )}
 
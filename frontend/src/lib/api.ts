@@ -26,11 +26,57 @@ import type {
   NetworkInterface,
   NetworkStats,
   NetworkConnections,
+  AuthUser,
+  AuthSession,
+  PermissionChecker,
+  ApiToken,
+  TokenScope,
+  LoginResponse,
 } from '@/types';
 
 /** URL de base de l'API */
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || '';
 
+/** Cle de stockage du token de session */
+const AUTH_TOKEN_KEY = 'docktor_token';
+
+// ============================================
+// Credential
+// ============================================
+
+/**
+ * Recupere le token de session stocke
+ */
+export function getAuthToken(): string | null {
+  if (typeof window === 'undefined') return null;
+  return window.localStorage.getItem(AUTH_TOKEN_KEY);
+}
+
+/**
+ * Enregistre le token de session
+ */
+export function setAuthToken(token: string): void {
+  window.localStorage.setItem(AUTH_TOKEN_KEY, token);
+}
+
+/**
+ * Supprime le token de session
+ */
+export function clearAuthToken(): void {
+  window.localStorage.removeItem(AUTH_TOKEN_KEY);
+}
+
+/**
+ * Redirige vers la page de connexion (session absente ou expiree)
+ */
+function redirectToLogin(): void {
+  if (typeof window === 'undefined') return;
+  clearAuthToken();
+  if (window.location.pathname !== '/login') {
+    window.location.href = '/login';
+  }
+}
+
 /**
  * Classe d'erreur API personnalisee
  */
@@ -53,17 +99,23 @@ async function fetchApi<T>(
   options: RequestInit = {}
 ): Promise<T> {
   const url = `${API_BASE_URL}${endpoint}`;
+  const token = getAuthToken();
 
   const response = await fetch(url, {
     ...options,
     headers: {
       'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
       ...options.headers,
     },
   });
 
   const data: unknown = await response.json();
 
+  if (response.status === 401 && !endpoint.startsWith('/api/auth/login')) {
+    redirectToLogin();
+  }
+
   if (!response.ok) {
     const errorData = data as ErrorResponse;
     throw new ApiError(
@@ -76,6 +128,95 @@ async function fetchApi<T>(
   return data as T;
 }
 
+// ============================================
+// API Authentification
+// ============================================
+
+/**
+ * Ouvre une session et stocke le token
+ */
+export async function login(username: string, password: string): Promise<AuthUser> {
+  const response = await fetchApi<LoginResponse>('/api/auth/login', {
+    method: 'POST',
+    body: JSON.stringify({ username, password }),
+  });
+  setAuthToken(response.data.token);
+  return response.data.user;
+}
+
+/**
+ * Ferme la session courante
+ */
+export async function logout(): Promise<void> {
+  try {
+    await fetchApi('/api/auth/logout', { method: 'POST' });
+  } finally {
+    clearAuthToken();
+  }
+}
+
+/**
+ * Recupere l'utilisateur connecte et ses permissions
+ */
+export async function getCurrentUser(): Promise<AuthSession> {
+  const response = await fetchApi<{ success: boolean; data: AuthSession }>('/api/auth/me');
+  return response.data;
+}
+
+/**
+ * Construit un verificateur de permissions a partir de la session
+ * Les permissions par application sont prioritaires sur les permissions globales
+ */
+export function createPermissionChecker(session: AuthSession): PermissionChecker {
+  return (permission, appId) => {
+    const appPermissions = appId !== undefined ? session.appPermissions[appId] : undefined;
+    return (appPermissions ?? session.permissions).includes(permission);
+  };
+}
+
+/**
+ * Change le mot de passe de l'utilisateur connecte
+ */
+export async function changePassword(currentPassword: string, newPassword: string): Promise<void> {
+  await fetchApi('/api/auth/password', {
+    method: 'PUT',
+    body: JSON.stringify({ currentPassword, newPassword }),
+  });
+}
+
+/**
+ * Liste les tokens d'API
+ */
+export async function getApiTokens(): Promise<ApiToken[]> {
+  const response = await fetchApi<{ success: boolean; data: ApiToken[] }>('/api/auth/tokens');
+  return response.data;
+}
+
+/**
+ * Cree un token d'API (la valeur n'est retournee qu'une fois)
+ */
+export async function createApiToken(
+  name: string,
+  scopes: TokenScope[],
+  expiresInDays?: number
+): Promise<{ token: string; apiToken: ApiToken }> {
+  const response = await fetchApi<{ success: boolean; data: { token: string; apiToken: ApiToken } }>(
+    '/api/auth/tokens',
+    {
+      method: 'POST',
+      body: JSON.stringify({ name, scopes, expiresInDays }),
+    }
+  );
+  return response.data;
+}
+
+/**
+ * Revoque un token d'API
+ */
+export async function revokeApiToken(tokenId: string): Promise<void> {
+  await fetchApi(`/api/auth/tokens/${tokenId}`, { method: 'DELETE' });
+}
+
 // ============================================
 // API Containers
 // ============================================
@@ -157,6 +298,10 @@ export function streamContainerLogs(
   if (options.stdout !== undefined) params.set('stdout', options.stdout.toString());
   if (options.stderr !== undefined) params.set('stderr', options.stderr.toString());
 
+  // EventSource ne permet pas d'envoyer de header Authorization
+  const token = getAuthToken();
+  if (token) params.set('access_token', token);
+
   const queryString = params.toString();
   const url = `${API_BASE_URL}/api/containers/${containerId}/logs/stream${queryString ? `?${queryString}` : ''}`;
   
@@ -301,10 +446,25 @@ export async function getDockerStats(): Promise<DockerStatsResponse['data']> {
 import type {
   AppConfig,
   AppTemplate,
+  UserTemplate,
+  TemplateDefinition,
   Deployment,
+  DeploymentHistory,
+  DeploymentSummary,
+  DeploymentLog,
+  DeploymentStatus,
   CreateAppRequest,
   UpdateAppRequest,
   PortAllocation,
+  WebhookInfo,
+  GitRefs,
+  GitRemoteInfo,
+  AppDetection,
+  AppAddon,
+  CreateAddonRequest,
+  Backup,
+  AppCertificate,
+  UploadCertificateRequest,
 } from '@/types';
 
 /**
@@ -354,18 +514,142 @@ export async function deleteApp(appId: string): Promise<void> {
 
 /**
  * Lance le deploiement d'une application
+ * Le build reutilise le cache Docker, sauf avec force (nettoyage complet) ou noCache
  */
-export async function deployApp(appId: string, force = false): Promise<Deployment> {
+export async function deployApp(
+  appId: string,
+  options: { force?: boolean; noCache?: boolean; ref?: string } = {}
+): Promise<Deployment> {
   const response = await fetchApi<{ success: boolean; data: Deployment }>(
     `/api/apps/${appId}/deploy`,
     {
       method: 'POST',
-      body: JSON.stringify({ force }),
+      body: JSON.stringify(options),
     }
   );
   return response.data;
 }
 
+/**
+ * Revient a une version precedemment deployee (sans rebuild)
+ * Sans deploymentId: la version precedente
+ */
+export async function rollbackApp(appId: string, deploymentId?: string): Promise<Deployment> {
+  const response = await fetchApi<{ success: boolean; data: Deployment }>(
+    `/api/apps/${appId}/rollback`,
+    {
+      method: 'POST',
+      body: JSON.stringify(deploymentId ? { deploymentId } : {}),
+    }
+  );
+  return response.data;
+}
+
+/**
+ * Branches et tags du repository Git d'une application
+ */
+export async function getAppGitRefs(appId: string): Promise<GitRefs> {
+  const response = await fetchApi<{ success: boolean; data: GitRefs }>(`/api/apps/${appId}/refs`);
+  return response.data;
+}
+
+/**
+ * URL et secret du webhook Git d'une application
+ */
+export async function getAppWebhook(appId: string): Promise<WebhookInfo> {
+  const response = await fetchApi<{ success: boolean; data: WebhookInfo }>(`/api/apps/${appId}/webhook`);
+  return response.data;
+}
+
+/**
+ * Genere un nouveau secret de webhook (l'ancien est invalide)
+ */
+export async function regenerateAppWebhook(appId: string): Promise<WebhookInfo> {
+  const response = await fetchApi<{ success: boolean; data: WebhookInfo }>(
+    `/api/apps/${appId}/webhook/regenerate`,
+    { method: 'POST' }
+  );
+  return response.data;
+}
+
+/**
+ * Provisionne une base de donnees et injecte ses variables dans l'application
+ */
+export async function createAppAddon(appId: string, request: CreateAddonRequest): Promise<AppAddon> {
+  const response = await fetchApi<{ success: boolean; data: AppAddon }>(`/api/apps/${appId}/addons`, {
+    method: 'POST',
+    body: JSON.stringify(request),
+  });
+  return response.data;
+}
+
+/**
+ * Supprime un add-on et ses variables (keepData conserve le volume des donnees)
+ */
+export async function deleteAppAddon(appId: string, addonId: string, keepData = false): Promise<void> {
+  await fetchApi(`/api/apps/${appId}/addons/${addonId}${keepData ? '?keepData=true' : ''}`, { method: 'DELETE' });
+}
+
+/**
+ * Recupere les sauvegardes d'une application
+ */
+export async function getAppBackups(appId: string): Promise<Backup[]> {
+  const response = await fetchApi<{ success: boolean; data: Backup[] }>(`/api/apps/${appId}/backups`);
+  return response.data;
+}
+
+/**
+ * Lance une sauvegarde immediate
+ */
+export async function createAppBackup(appId: string): Promise<Backup> {
+  const response = await fetchApi<{ success: boolean; data: Backup }>(`/api/apps/${appId}/backups`, {
+    method: 'POST',
+  });
+  return response.data;
+}
+
+/**
+ * Restaure une sauvegarde
+ */
+export async function restoreAppBackup(appId: string, backupId: string): Promise<void> {
+  await fetchApi(`/api/apps/${appId}/backups/${backupId}/restore`, { method: 'POST' });
+}
+
+/**
+ * Supprime une sauvegarde
+ */
+export async function deleteAppBackup(appId: string, backupId: string): Promise<void> {
+  await fetchApi(`/api/apps/${appId}/backups/${backupId}`, { method: 'DELETE' });
+}
+
+/**
+ * Emet ou renouvelle immediatement le certificat ACME du domaine
+ */
+export async function renewAppCertificate(appId: string): Promise<AppCertificate> {
+  const response = await fetchApi<{ success: boolean; data: AppCertificate }>(`/api/apps/${appId}/certificate`, {
+    method: 'POST',
+  });
+  return response.data;
+}
+
+/**
+ * Importe un certificat pour le domaine
+ */
+export async function uploadAppCertificate(appId: string, request: UploadCertificateRequest): Promise<AppCertificate> {
+  const response = await fetchApi<{ success: boolean; data: AppCertificate }>(`/api/apps/${appId}/certificate`, {
+    method: 'PUT',
+    body: JSON.stringify(request),
+  });
+  return response.data;
+}
+
+/**
+ * Supprime le certificat (retour a l'emission automatique)
+ */
+export async function deleteAppCertificate(appId: string): Promise<void> {
+  await fetchApi(`/api/apps/${appId}/certificate`, { method: 'DELETE' });
+}
+
 /**
  * Arrete une application
  */
@@ -398,13 +682,29 @@ export async function getAppLogs(appId: string, tail = 100): Promise<string> {
 }
 
 /**
- * Recupere l'historique des deploiements
+ * Recupere une page de l'historique des deploiements
  */
-export async function getAppDeployments(appId: string): Promise<Deployment[]> {
-  const response = await fetchApi<{ success: boolean; data: Deployment[] }>(
-    `/api/apps/${appId}/deployments`
-  );
-  return response.data;
+export async function getAppDeployments(
+  appId: string,
+  options: { limit?: number; cursor?: string } = {}
+): Promise<DeploymentHistory> {
+  const params = new URLSearchParams();
+  if (options.limit !== undefined) params.set('limit', options.limit.toString());
+  if (options.cursor) params.set('cursor', options.cursor);
+
+  const query = params.toString();
+  const response = await fetchApi<{
+    success: boolean;
+    data: DeploymentSummary[];
+    total: number;
+    nextCursor: string | null;
+  }>(`/api/apps/${appId}/deployments${query ? `?${query}` : ''}`);
+
+  return {
+    deployments: response.data,
+    total: response.total,
+    nextCursor: response.nextCursor,
+  };
 }
 
 /**
@@ -417,6 +717,78 @@ export async function getDeployment(deploymentId: string): Promise<Deployment> {
   return response.data;
 }
 
+/**
+ * Annule un deploiement en attente ou en cours (avant la phase de demarrage)
+ */
+export async function cancelDeployment(deploymentId: string): Promise<Deployment> {
+  const response = await fetchApi<{ success: boolean; data: Deployment }>(
+    `/api/apps/deployments/${deploymentId}/cancel`,
+    { method: 'POST' }
+  );
+  return response.data;
+}
+
+/**
+ * Cree une connexion SSE pour suivre un deploiement
+ * Les logs existants sont rejoues puis les nouveaux sont pousses jusqu'a la fin
+ * En cas de coupure, EventSource se reconnecte et reprend au dernier log recu (Last-Event-ID)
+ */
+export function streamDeployment(
+  deploymentId: string,
+  callbacks: {
+    onLog: (log: DeploymentLog) => void;
+    onStatus?: (status: DeploymentStatus) => void;
+    onEnd?: (result: { status: DeploymentStatus; finishedAt?: string; error?: string }) => void;
+    onError?: (error: string) => void;
+  }
+): () => void {
+  const params = new URLSearchParams();
+
+  // EventSource ne permet pas d'envoyer de header Authorization
+  const token = getAuthToken();
+  if (token) params.set('access_token', token);
+
+  const queryString = params.toString();
+  const url = `${API_BASE_URL}/api/apps/deployments/${deploymentId}/stream${queryString ? `?${queryString}` : ''}`;
+
+  const eventSource = new EventSource(url);
+
+  eventSource.addEventListener('log', (event) => {
+    try {
+      callbacks.onLog(JSON.parse((event as MessageEvent).data) as DeploymentLog);
+    } catch (e) {
+      console.error('Erreur parsing log:', e);
+    }
+  });
+
+  eventSource.addEventListener('status', (event) => {
+    try {
+      const data = JSON.parse((event as MessageEvent).data) as { status: DeploymentStatus };
+      callbacks.onStatus?.(data.status);
+    } catch (e) {
+      console.error('Erreur parsing statut:', e);
+    }
+  });
+
+  eventSource.addEventListener('end', (event) => {
+    eventSource.close();
+    try {
+      callbacks.onEnd?.(JSON.parse((event as MessageEvent).data));
+    } catch (e) {
+      console.error('Erreur parsing fin de deploiement:', e);
+    }
+  });
+
+  eventSource.onerror = () => {
+    // EventSource se reconnecte seul tant que la connexion n'est pas fermee
+    if (eventSource.readyState === EventSource.CLOSED) {
+      callbacks.onError?.('Connexion perdue');
+    }
+  };
+
+  return () => eventSource.close();
+}
+
 /**
  * Recupere les templates disponibles
  */
@@ -425,6 +797,56 @@ export async function getAppTemplates(): Promise<AppTemplate[]> {
   return response.data;
 }
 
+/**
+ * Versions d'un template utilisateur, la plus recente en premier
+ */
+export async function getTemplateVersions(type: string): Promise<UserTemplate[]> {
+  const response = await fetchApi<{ success: boolean; data: UserTemplate[] }>(
+    `/api/apps/templates/${encodeURIComponent(type)}/versions`
+  );
+  return response.data;
+}
+
+/**
+ * Cree un template utilisateur
+ */
+export async function createTemplate(request: TemplateDefinition & { slug?: string }): Promise<UserTemplate> {
+  const response = await fetchApi<{ success: boolean; data: UserTemplate }>('/api/apps/templates', {
+    method: 'POST',
+    body: JSON.stringify(request),
+  });
+  return response.data;
+}
+
+/**
+ * Copie un template (integre ou utilisateur) en nouveau template utilisateur
+ */
+export async function cloneTemplate(type: string, name: string, slug?: string): Promise<UserTemplate> {
+  const response = await fetchApi<{ success: boolean; data: UserTemplate }>(
+    `/api/apps/templates/${encodeURIComponent(type)}/clone`,
+    { method: 'POST', body: JSON.stringify({ name, slug }) }
+  );
+  return response.data;
+}
+
+/**
+ * Enregistre une nouvelle version d'un template utilisateur
+ */
+export async function updateTemplate(type: string, request: Partial<TemplateDefinition>): Promise<UserTemplate> {
+  const response = await fetchApi<{ success: boolean; data: UserTemplate }>(
+    `/api/apps/templates/${encodeURIComponent(type)}`,
+    { method: 'PUT', body: JSON.stringify(request) }
+  );
+  return response.data;
+}
+
+/**
+ * Supprime un template utilisateur
+ */
+export async function deleteTemplate(type: string): Promise<void> {
+  await fetchApi(`/api/apps/templates/${encodeURIComponent(type)}`, { method: 'DELETE' });
+}
+
 /**
  * Recupere les informations sur les ports
  */
@@ -473,3 +895,43 @@ export async function validateGitConfig(gitConfig: {
   });
   return response.data;
 }
+
+/**
+ * Contacte un repository avec les identifiants fournis
+ * Retourne l'accessibilite, la branche par defaut, les branches et les tags
+ */
+export async function browseGitRemote(gitConfig: {
+  url?: string;
+  isPrivate?: boolean;
+  authMethod?: string;
+  accessToken?: string;
+  username?: string;
+  password?: string;
+  sshPrivateKey?: string;
+}): Promise<GitRemoteInfo> {
+  const response = await fetchApi<{ success: boolean; data: GitRemoteInfo }>('/api/apps/browse-git', {
+    method: 'POST',
+    body: JSON.stringify(gitConfig),
+  });
+  return response.data;
+}
+
+/**
+ * Analyse le contenu d'un repository et suggere le type d'application
+ */
+export async function detectAppType(gitConfig: {
+  url?: string;
+  branch?: string;
+  isPrivate?: boolean;
+  authMethod?: string;
+  accessToken?: string;
+  username?: string;
+  password?: string;
+  sshPrivateKey?: string;
+}): Promise<AppDetection> {
+  const response = await fetchApi<{ success: boolean; data: AppDetection }>('/api/apps/detect', {
+    method: 'POST',
+    body: JSON.stringify(gitConfig),
+  });
+  return response.data;
+}
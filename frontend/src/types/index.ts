@@ -85,6 +85,83 @@ export interface LogStreamEvent {
   data: LogEntry | { error?: string; message?: string; timestamp: string };
 }
 
+// ============================================
+// Types Authentification
+// ============================================
+
+/** Role d'un utilisateur */
+export type Role = 'viewer' | 'operator' | 'admin';
+
+/** Permission au format ressource:action */
+export type Permission =
+  | 'system:read'
+  | 'containers:read'
+  | 'containers:logs'
+  | 'containers:start'
+  | 'containers:stop'
+  | 'containers:restart'
+  | 'apps:read'
+  | 'apps:logs'
+  | 'apps:create'
+  | 'apps:update'
+  | 'apps:delete'
+  | 'apps:deploy'
+  | 'apps:start'
+  | 'apps:stop'
+  | 'apps:restart'
+  | 'templates:manage'
+  | 'users:manage';
+
+/** Verifie une permission, eventuellement pour une application */
+export type PermissionChecker = (permission: Permission, appId?: string) => boolean;
+
+/** Utilisateur connecte */
+export interface AuthUser {
+  id: string;
+  username: string;
+  role: Role;
+  appRoles?: Record<string, Role>;
+  createdAt: string;
+  lastLoginAt?: string;
+}
+
+/** Session courante avec permissions effectives */
+export interface AuthSession {
+  user: AuthUser;
+  method: 'session' | 'token';
+  scopes: TokenScope[];
+  permissions: Permission[];
+
+  /** Permissions par application (roles specifiques) */
+  appPermissions: Record<string, Permission[]>;
+}
+
+/** Portee d'un token d'API */
+export type TokenScope = 'read' | 'write';
+
+/** Token d'API */
+export interface ApiToken {
+  id: string;
+  userId: string;
+  name: string;
+  prefix: string;
+  scopes: TokenScope[];
+  createdAt: string;
+  expiresAt?: string;
+  lastUsedAt?: string;
+}
+
+/** Reponse de connexion */
+export interface LoginResponse {
+  success: boolean;
+  data: {
+    token: string;
+    expiresAt: string;
+    user: AuthUser;
+  };
+  timestamp: string;
+}
+
 // ============================================
 // Types Monitoring Systeme
 // ============================================
@@ -328,7 +405,7 @@ export interface DockerStatsResponse {
 // ============================================
 
 /** Types d'applications supportees */
-export type AppType =
+export type BuiltinAppType =
   | 'php'
   | 'laravel'
   | 'nodejs'
@@ -336,8 +413,19 @@ export type AppType =
   | 'nextjs'
   | 'static'
   | 'python'
+  | 'django'
+  | 'go'
+  | 'rust'
+  | 'rails'
+  | 'spring-boot'
+  | 'dotnet'
   | 'custom';
 
+/** Template cree par un utilisateur (user:<slug>) */
+export type UserTemplateType = `user:${string}`;
+
+export type AppType = BuiltinAppType | UserTemplateType;
+
 /** Statuts d'une application */
 export type AppStatus =
   | 'pending'
@@ -350,18 +438,23 @@ export type AppStatus =
 
 /** Statuts d'un deploiement */
 export type DeploymentStatus =
+  | 'queued'
   | 'pending'
   | 'cloning'
   | 'building'
   | 'starting'
   | 'success'
-  | 'failed';
+  | 'failed'
+  | 'cancelled';
 
 /** Variable d'environnement */
 export interface EnvVariable {
   key: string;
   value: string;
   isSecret?: boolean;
+
+  /** Secret renseigne (la valeur est masquee par l'API) */
+  isSet?: boolean;
 }
 
 /** Configuration d'une application */
@@ -372,6 +465,7 @@ export interface AppConfig {
   internalPort: number;
   externalPort: number;
   path: string;
+  git?: GitConfig;
   gitUrl?: string;
   gitBranch?: string;
   envVariables: EnvVariable[];
@@ -385,7 +479,166 @@ export interface AppConfig {
   updatedAt: string;
   containerId?: string;
   containerName?: string;
+
+  /** Tag de l'image en cours d'execution */
+  imageTag?: string;
+
+  /** Strategie de deploiement (defaut: recreate) */
+  deployStrategy?: DeployStrategy;
+
+  /** Source du build (defaut: fichiers generes par le template) */
+  buildSource?: BuildSource;
+
+  /** Valeurs renseignees des parametres du template */
+  templateParameters?: Record<string, string>;
+
+  /** Slot actif d'une application blue/green */
+  blueGreen?: { activeSlot: 'blue' | 'green'; slotPort: number };
+
+  /** Verification de sante apres demarrage */
+  healthCheck?: HealthCheckConfig;
+
+  /** Limites de ressources du service publie */
+  resources?: ResourceLimits;
+
+  /** Bases de donnees provisionnees */
+  addons?: AppAddon[];
+
+  /** Sauvegardes planifiees */
+  backupSchedule?: BackupSchedule;
+
   domain?: string;
+
+  /** Certificat TLS du domaine */
+  certificate?: AppCertificate;
+}
+
+/** Certificat emis par ACME ou importe */
+export type CertificateSource = 'acme' | 'custom';
+
+/** Etat du certificat (expiring: renouvellement ACME planifie) */
+export type CertificateStatus = 'pending' | 'valid' | 'expiring' | 'failed';
+
+export interface AppCertificate {
+  domain: string;
+  source: CertificateSource;
+  status: CertificateStatus;
+  issuer?: string;
+  notBefore?: string;
+  notAfter?: string;
+  lastAttemptAt?: string;
+  lastError?: string;
+}
+
+/** Import d'un certificat (PEM) */
+export interface UploadCertificateRequest {
+  certificate: string;
+  privateKey: string;
+}
+
+/**
+ * Strategie de deploiement
+ * - recreate: arret de l'ancien container puis demarrage du nouveau
+ * - bluegreen: bascule vers le nouveau container une fois operationnel, sans coupure
+ */
+export type DeployStrategy = 'recreate' | 'bluegreen';
+
+/**
+ * Verification de sante d'un deploiement
+ * - http: requete GET sur le port publie, statut attendu
+ * - tcp: connexion sur le port publie
+ * - container: HEALTHCHECK defini dans l'image
+ */
+export type HealthCheckType = 'http' | 'tcp' | 'container';
+
+export interface HealthCheckConfig {
+  type: HealthCheckType;
+  path?: string;
+  expectedStatus?: number;
+
+  /** Durees en secondes */
+  timeout?: number;
+  interval?: number;
+  retries?: number;
+}
+
+/** Base de donnees proposee en add-on */
+export type AddonType = 'postgres' | 'mysql' | 'mongodb' | 'redis';
+
+/** Add-on d'une application (container dedie, donnees dans un volume nomme) */
+export interface AppAddon {
+  id: string;
+  type: AddonType;
+  version: string;
+  containerName: string;
+  volume: string;
+  database?: string;
+  username?: string;
+
+  /** Variables injectees dans l'application */
+  envKeys: string[];
+  createdAt: string;
+}
+
+export interface CreateAddonRequest {
+  type: AddonType;
+  version?: string;
+}
+
+/** Planification des sauvegardes (cron a 5 champs, heure du serveur) */
+export interface BackupSchedule {
+  cron: string;
+
+  /** Nombre de sauvegardes planifiees conservees (defaut: 7) */
+  retention?: number;
+}
+
+export type BackupTrigger = 'manual' | 'scheduled';
+
+/** Element d'une sauvegarde (archive d'un volume ou export d'une base) */
+export interface BackupItem {
+  kind: 'volume' | 'dump';
+  source: string;
+  file: string;
+  size: number;
+  sha256: string;
+}
+
+export interface Backup {
+  id: string;
+  appId: string;
+  appName: string;
+  trigger: BackupTrigger;
+  createdAt: string;
+
+  /** Taille totale en octets */
+  size: number;
+
+  items: BackupItem[];
+}
+
+/** Politique de redemarrage du container */
+export type RestartPolicy = 'no' | 'always' | 'on-failure' | 'unless-stopped';
+
+/** Limites de ressources (memoire en Mo, CPU en nombre de coeurs) */
+export interface ResourceLimits {
+  cpus?: number;
+  memoryLimit?: number;
+  memoryReservation?: number;
+  pidsLimit?: number;
+  restartPolicy?: RestartPolicy;
+}
+
+/** Parametre d'un template (placeholder ${NOM} du Dockerfile / docker-compose) */
+export interface TemplateParameter {
+  name: string;
+  type: 'string' | 'number' | 'boolean' | 'port';
+  description: string;
+  required: boolean;
+  default?: string;
+
+  /** Expression reguliere que doit respecter la valeur (type string) */
+  pattern?: string;
 }
 
 /** Template d'application */
@@ -399,6 +652,29 @@ export interface AppTemplate {
   defaultInternalPort: number;
   buildCommand?: string;
   startCommand?: string;
+  parameters: TemplateParameter[];
+}
+
+/** Template utilisateur: chaque modification cree une nouvelle version */
+export interface UserTemplate extends AppTemplate {
+  type: UserTemplateType;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+  clonedFrom?: AppType;
+}
+
+/** Champs modifiables d'un template utilisateur */
+export interface TemplateDefinition {
+  name: string;
+  description?: string;
+  dockerfile: string;
+  dockerCompose: string;
+  defaultEnvVariables?: EnvVariable[];
+  defaultInternalPort: number;
+  buildCommand?: string;
+  startCommand?: string;
+  parameters?: TemplateParameter[];
 }
 
 /** Log de deploiement */
@@ -418,6 +694,54 @@ export interface Deployment {
   finishedAt?: string;
   logs: DeploymentLog[];
   error?: string;
+
+  /** Commit deploye */
+  commitSha?: string;
+
+  /** Auteur du commit deploye (Nom <email>) */
+  commitAuthor?: string;
+
+  /** Titre du message du commit deploye */
+  commitMessage?: string;
+
+  /** Ref demandee (refs/heads/..., refs/tags/..., refs/pull/... ou SHA), absente pour la branche configuree */
+  ref?: string;
+
+  /** Tag de l'image construite */
+  imageTag?: string;
+
+  /** L'image est encore presente sur l'hote (rollback possible) */
+  imageRetained?: boolean;
+
+  /** Deploiement source s'il s'agit d'un rollback */
+  rollbackOf?: string;
+
+  /** Statistiques du build */
+  build?: BuildStats;
+}
+
+/** Deploiement de l'historique, sans ses logs */
+export interface DeploymentSummary extends Omit<Deployment, 'logs'> {
+  logCount: number;
+}
+
+/** Statistiques d'un build d'image */
+export interface BuildStats {
+  durationMs: number;
+  noCache: boolean;
+
+  /** Etapes reprises du cache / total */
+  cachedSteps: number;
+  totalSteps: number;
+}
+
+/** Page de l'historique des deploiements */
+export interface DeploymentHistory {
+  deployments: DeploymentSummary[];
+  total: number;
+
+  /** Curseur de la page suivante (null si derniere page) */
+  nextCursor: string | null;
 }
 
 /** Allocation de port */
@@ -434,6 +758,19 @@ export type GitProvider = 'github' | 'gitlab' | 'bitbucket' | 'other';
 /** Methode d'authentification Git */
 export type GitAuthMethod = 'none' | 'token' | 'ssh' | 'username_password';
 
+/** Configuration Git d'une application (secrets masques par l'API) */
+export interface GitConfig {
+  url: string;
+  branch: string;
+  provider: GitProvider;
+  isPrivate: boolean;
+  authMethod: GitAuthMethod;
+  username?: string;
+  accessTokenSet?: boolean;
+  passwordSet?: boolean;
+  sshPrivateKeySet?: boolean;
+}
+
 /** Configuration Git pour creation */
 export interface GitConfigInput {
   url: string;
@@ -446,6 +783,93 @@ export interface GitConfigInput {
   sshPrivateKey?: string;
 }
 
+/** Webhook Git d'une application (push-to-deploy) */
+export interface WebhookInfo {
+  /** URL a renseigner chez le fournisseur Git */
+  url: string;
+
+  /** Secret de signature (GitHub, Bitbucket) ou token secret (GitLab) */
+  secret: string;
+
+  /** Branche declenchant un deploiement */
+  branch: string;
+}
+
+/** Ref annoncee par un repository distant */
+export interface GitRef {
+  /** Nom court (main, v1.2.0) */
+  name: string;
+
+  /** Commit pointe */
+  sha: string;
+}
+
+/** Branches et tags d'un repository distant */
+export interface GitRefs {
+  /** Branche par defaut du remote (HEAD) */
+  defaultBranch?: string;
+
+  branches: GitRef[];
+  tags: GitRef[];
+}
+
+/** Niveau de confiance d'une detection */
+export type DetectionConfidence = 'high' | 'medium' | 'low';
+
+/** Configuration suggeree a partir du contenu d'un repository */
+export interface AppDetection {
+  /** Template suggere */
+  type: AppType;
+
+  confidence: DetectionConfidence;
+
+  /** Port interne (detecte ou celui du template) */
+  internalPort: number;
+
+  buildCommand?: string;
+  startCommand?: string;
+
+  /** Valeurs suggerees pour les parametres du template */
+  parameters?: Record<string, string>;
+
+  /** Indices ayant conduit a la suggestion */
+  reasons: string[];
+
+  /** Le repository fournit son propre Dockerfile */
+  hasDockerfile: boolean;
+
+  /** Le repository fournit son propre docker-compose */
+  hasDockerCompose: boolean;
+}
+
+/** Resultat de l'exploration d'un repository distant avant creation */
+export interface GitRemoteInfo extends GitRefs {
+  /** Le remote a repondu avec les identifiants fournis */
+  reachable: boolean;
+
+  /** Cause de l'echec (authentification, repository introuvable, ...) */
+  error?: string;
+}
+
+/** Origine du Dockerfile / docker-compose utilise pour le build */
+export type BuildSourceType = 'template' | 'dockerfile' | 'compose';
+
+export interface BuildSource {
+  type: BuildSourceType;
+
+  /** dockerfile: chemin du Dockerfile depuis la racine du repository */
+  dockerfilePath?: string;
+
+  /** dockerfile: contexte de build */
+  context?: string;
+
+  /** compose: fichier compose du repository */
+  composePath?: string;
+
+  /** compose: service publie sur le port externe */
+  service?: string;
+}
+
 /** Requete de creation d'application */
 export interface CreateAppRequest {
   name: string;
@@ -458,7 +882,17 @@ export interface CreateAppRequest {
   dockerCompose?: string;
   buildCommand?: string;
   startCommand?: string;
+
+  /** Port interne de l'application (defaut: celui du template) */
+  internalPort?: number;
+
   domain?: string;
+  deployStrategy?: DeployStrategy;
+  buildSource?: BuildSource;
+  parameters?: Record<string, string | number | boolean>;
+  healthCheck?: HealthCheckConfig;
+  resources?: ResourceLimits;
+  backupSchedule?: BackupSchedule;
 }
 
 /** Requete de mise a jour d'application */
@@ -470,5 +904,18 @@ export interface UpdateAppRequest {
   dockerCompose?: string;
   buildCommand?: string;
   startCommand?: string;
+  internalPort?: number;
   domain?: string;
+  deployStrategy?: DeployStrategy;
+  buildSource?: BuildSource;
+  parameters?: Record<string, string | number | boolean>;
+
+  /** null pour supprimer la verification */
+  healthCheck?: HealthCheckConfig | null;
+
+  /** null pour supprimer les limites */
+  resources?: ResourceLimits | null;
+
+  /** null pour desactiver les sauvegardes planifiees */
+  backupSchedule?: BackupSchedule | null;
 }